@@ -1,7 +1,8 @@
 import { Module } from '@nestjs/common';
 import { ExtractHarModule } from './extract-har/extract-har.module';
+import { MockModule } from './mock/mock.module';
 
 @Module({
-  imports: [ExtractHarModule],
+  imports: [ExtractHarModule, MockModule],
 })
 export class AppModule {}
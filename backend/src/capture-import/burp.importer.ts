@@ -0,0 +1,83 @@
+import { BadRequestException } from '@nestjs/common';
+import type { HarEntry } from '../extract-har/har.types';
+import type { ImportedCapture } from './capture-import.types';
+import { parseRawHttpMessage, parseStatusLine, toHarEntry } from './http-message.util';
+
+const ITEM_RE = /<item>([\s\S]*?)<\/item>/g;
+const CDATA_RE = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/** Text content of an element: its CDATA sections, or its character data with entities decoded. */
+function xmlText(inner: string): string {
+  if (inner.includes('<![CDATA[')) {
+    return [...inner.matchAll(CDATA_RE)].map((m) => m[1]).join('');
+  }
+  return inner.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+/** The first `<tag>` child of an item, with its attributes. */
+function element(item: string, tag: string): { text: string; attrs: string } | undefined {
+  const match = new RegExp(`<${tag}(\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${tag}>)`).exec(item);
+  return match ? { text: xmlText(match[2] ?? ''), attrs: match[1] ?? '' } : undefined;
+}
+
+/** A raw request or response; Burp base64-encodes them unless the export option was turned off. */
+function rawMessage(item: string, tag: 'request' | 'response'): Buffer | undefined {
+  const el = element(item, tag);
+  if (!el?.text) return undefined;
+  return /base64\s*=\s*["']true["']/.test(el.attrs)
+    ? Buffer.from(el.text, 'base64')
+    : Buffer.from(el.text, 'latin1');
+}
+
+/** Burp's `<time>` is Java's Date.toString(), e.g. `Tue Jan 02 10:00:00 CET 2024`; the zone name is dropped. */
+function burpTime(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const ms = Date.parse(text.replace(/ [A-Z]{2,5} (\d{4})$/, ' $1 GMT'));
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString();
+}
+
+/**
+ * Burp Suite XML export ("Save items" in Proxy history or Target): an
+ * `<items>` document whose `<item>`s hold the URL and the raw HTTP request
+ * and response.
+ */
+export function importBurp(xml: string): ImportedCapture {
+  if (!/<items[\s>]/.test(xml)) {
+    throw new BadRequestException('Burp export must be an XML document with an <items> root');
+  }
+  const warnings: string[] = [];
+  let skipped = 0;
+  const entries: HarEntry[] = [];
+  for (const [, item] of xml.matchAll(ITEM_RE)) {
+    const url = element(item!, 'url')?.text.trim();
+    const rawRequest = rawMessage(item!, 'request');
+    if (!url || !rawRequest) {
+      skipped++;
+      continue;
+    }
+    const request = parseRawHttpMessage(rawRequest);
+    const rawResponse = rawMessage(item!, 'response');
+    const response = rawResponse ? parseRawHttpMessage(rawResponse) : undefined;
+    const statusLine = response ? parseStatusLine(response.startLine) : undefined;
+    entries.push(
+      toHarEntry({
+        startedDateTime: burpTime(element(item!, 'time')?.text.trim()),
+        method: element(item!, 'method')?.text.trim() || request.startLine.split(' ')[0]!,
+        url,
+        request,
+        response: response && statusLine ? { ...response, ...statusLine } : undefined,
+      }),
+    );
+  }
+  if (skipped) {
+    warnings.push(`${skipped} item${skipped === 1 ? ' has' : 's have'} no URL or request and ${skipped === 1 ? 'was' : 'were'} skipped`);
+  }
+  return { source: { format: 'burp', warnings }, entries };
+}
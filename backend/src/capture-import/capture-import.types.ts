@@ -0,0 +1,37 @@
+import type { HarEntry, HarHeader } from '../extract-har/har.types';
+
+/** Capture formats an upload can be in; everything is converted to HAR entries. */
+export type CaptureFormat = 'har' | 'charles' | 'burp' | 'mitmproxy' | 'postman' | 'curl';
+
+/** Where the parsed entries came from, returned with the parse response. */
+export interface CaptureSource {
+  format: CaptureFormat;
+  /** Parts of the capture that could not be carried over, e.g. unresolved Postman variables. */
+  warnings: string[];
+  /** Each file of a session merged from several uploads, or from a zip of several HARs. */
+  files?: { name: string; format: CaptureFormat }[];
+}
+
+export interface ImportedCapture {
+  source: CaptureSource;
+  entries: HarEntry[];
+}
+
+export interface CapturedMessage {
+  headers: HarHeader[];
+  body?: Buffer;
+  /** The body has already had its Content-Encoding removed. */
+  decoded?: boolean;
+}
+
+/** One request and its response as the tools record them, before it becomes a HAR entry. */
+export interface CapturedExchange {
+  startedDateTime?: string;
+  /** Total time in milliseconds. */
+  time?: number;
+  method: string;
+  url: string;
+  request: CapturedMessage;
+  /** Absent when the request never got a response. */
+  response?: CapturedMessage & { status: number; statusText?: string };
+}
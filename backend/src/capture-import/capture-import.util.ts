@@ -0,0 +1,82 @@
+import { BadRequestException } from '@nestjs/common';
+import type { HarEntry } from '../extract-har/har.types';
+import { importBurp } from './burp.importer';
+import type { CaptureSource, ImportedCapture } from './capture-import.types';
+import { importCharles } from './charles.importer';
+import { importCurl } from './curl.importer';
+import { importMitmproxy } from './mitmproxy.importer';
+import { importPostman } from './postman.importer';
+
+const UNRECOGNIZED =
+  'Unrecognized capture format. Upload a HAR file, a Charles JSON session (.chlsj), ' +
+  'a Burp Suite XML export, a mitmproxy flow dump, a Postman collection or curl commands';
+
+/** `.har` uploads are parsed as a stream; other files are read whole and detected by content. */
+export function isHarFileName(name: string | undefined): boolean {
+  return (name ?? '').toLowerCase().endsWith('.har');
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BadRequestException('Uploaded file is not valid JSON');
+  }
+}
+
+function importHar(root: Record<string, unknown>): ImportedCapture {
+  const log = root.log as { entries?: unknown };
+  if (typeof log !== 'object' || !Array.isArray(log.entries)) {
+    throw new BadRequestException('log.entries must be an array');
+  }
+  return { source: { format: 'har', warnings: [] }, entries: log.entries as HarEntry[] };
+}
+
+/**
+ * Convert a capture to HAR entries, telling the format apart by its content:
+ * XML is a Burp export, a tnetstring is a mitmproxy dump, a JSON array is a
+ * Charles session, a JSON object is either HAR (`log`) or a Postman
+ * collection (`info` and `item`), and text starting with `curl` is one or
+ * more curl commands.
+ */
+export function importCapture(data: Buffer): ImportedCapture {
+  let start = data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf ? 3 : 0;
+  while (start < data.length && /\s/.test(String.fromCharCode(data[start]!))) start++;
+  const first = String.fromCharCode(data[start] ?? 0);
+
+  if (first >= '0' && first <= '9') {
+    return importMitmproxy(data.subarray(start));
+  }
+  const text = data.toString('utf8', start);
+  if (first === '<') {
+    if (!/<items[\s>]/.test(text.slice(0, 4096))) throw new BadRequestException(UNRECOGNIZED);
+    return importBurp(text);
+  }
+  if (/^curl\s/.test(text)) {
+    return importCurl(text);
+  }
+  if (first === '[') {
+    return importCharles(parseJson(text));
+  }
+  if (first === '{') {
+    const root = parseJson(text) as Record<string, unknown>;
+    if (root.log != null) return importHar(root);
+    if (root.info != null || Array.isArray(root.requests)) return importPostman(root);
+  }
+  throw new BadRequestException(UNRECOGNIZED);
+}
+
+/**
+ * The source of a session merged from several files. `format` is shared by
+ * all of them, or `har` when they differ; warnings name the file they are about.
+ */
+export function mergeCaptureSources(files: { name: string; source: CaptureSource }[]): CaptureSource {
+  const formats = new Set(files.map(({ source }) => source.format));
+  return {
+    format: formats.size === 1 ? files[0]!.source.format : 'har',
+    warnings: files.flatMap(({ name, source }) =>
+      source.files ? source.warnings : source.warnings.map((warning) => `${name}: ${warning}`),
+    ),
+    files: files.flatMap(({ name, source }) => source.files ?? [{ name, format: source.format }]),
+  };
+}
@@ -0,0 +1,81 @@
+import { BadRequestException } from '@nestjs/common';
+import type { HarHeader } from '../extract-har/har.types';
+import type { CapturedMessage, ImportedCapture } from './capture-import.types';
+import { originOf, parseStatusLine, toHarEntry } from './http-message.util';
+
+interface CharlesMessage {
+  status?: number;
+  header?: { firstLine?: string; headers?: HarHeader[] };
+  body?: { text?: string; encoded?: string; decoded?: boolean };
+}
+
+/** One element of a Charles JSON session (`.chlsj`). */
+interface CharlesTransaction {
+  status?: string;
+  method?: string;
+  scheme?: string;
+  host?: string;
+  port?: number;
+  actualPort?: number;
+  path?: string;
+  query?: string | null;
+  tunnel?: boolean;
+  times?: { start?: string };
+  durations?: { total?: number | null };
+  request?: CharlesMessage;
+  response?: CharlesMessage;
+}
+
+function toMessage(message: CharlesMessage): CapturedMessage {
+  const body = message.body;
+  return {
+    headers: message.header?.headers ?? [],
+    ...(body?.encoded != null
+      ? { body: Buffer.from(body.encoded, 'base64'), decoded: body.decoded }
+      : body?.text != null
+        ? { body: Buffer.from(body.text, 'utf8'), decoded: true }
+        : {}),
+  };
+}
+
+/**
+ * Charles "JSON Session File" export: an array of transactions with the URL
+ * split into scheme, host, port, path and query. CONNECT tunnels Charles did
+ * not decrypt carry no request of their own and are skipped.
+ */
+export function importCharles(data: unknown): ImportedCapture {
+  if (!Array.isArray(data)) {
+    throw new BadRequestException('Charles session must be a JSON array of transactions');
+  }
+  const warnings: string[] = [];
+  let incomplete = 0;
+  const entries = (data as CharlesTransaction[])
+    .filter((t) => t?.host && t.method && t.method.toUpperCase() !== 'CONNECT' && !t.tunnel)
+    .map((t) => {
+      const url =
+        originOf(t.scheme ?? 'http', t.host!, t.port ?? t.actualPort) +
+        (t.path || '/') +
+        (t.query ? `?${t.query}` : '');
+      const status = t.response?.status ?? parseStatusLine(t.response?.header?.firstLine ?? '')?.status;
+      if (t.status && t.status !== 'COMPLETE') incomplete++;
+      return toHarEntry({
+        startedDateTime: t.times?.start,
+        time: t.durations?.total ?? undefined,
+        method: t.method!,
+        url,
+        request: toMessage(t.request ?? {}),
+        response:
+          t.response && status
+            ? {
+                ...toMessage(t.response),
+                status,
+                statusText: parseStatusLine(t.response.header?.firstLine ?? '')?.statusText,
+              }
+            : undefined,
+      });
+    });
+  if (incomplete) {
+    warnings.push(`${incomplete} transaction${incomplete === 1 ? ' was' : 's were'} not complete when the session was saved`);
+  }
+  return { source: { format: 'charles', warnings }, entries };
+}
@@ -0,0 +1,33 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { curlGenerator } from '../codegen/curl.generator';
+import { toRequestSummary } from '../extract-har/har-filter.util';
+import type { HarEntry } from '../extract-har/har.types';
+import { importCurl } from './curl.importer';
+
+/** Browser "Copy as cURL" captures kept at the repository root. */
+const FIXTURES = ['jokes/jokes.txt', 'recipes/recipescal_output.txt', 'sfgate/sfgate_output.txt'];
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, '../../../tests', name), 'utf8');
+}
+
+/** What a curl command says about the request; header order and name case do not matter. */
+function comparable(entry: HarEntry) {
+  const { method, url, headers, postData } = entry.request;
+  return {
+    method,
+    url,
+    headers: headers.map((h) => `${h.name.toLowerCase()}: ${h.value}`).sort(),
+    body: postData?.text,
+  };
+}
+
+describe('importCurl', () => {
+  it.each(FIXTURES)('round-trips %s through curlGenerator', (name) => {
+    const [entry] = importCurl(fixture(name)).entries;
+    const curl = curlGenerator.generate(toRequestSummary(entry!.request));
+    const [again] = importCurl(curl).entries;
+    expect(comparable(again!)).toEqual(comparable(entry!));
+  });
+});
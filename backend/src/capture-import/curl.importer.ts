@@ -0,0 +1,360 @@
+import { BadRequestException } from '@nestjs/common';
+import type { HarEntry, HarHeader } from '../extract-har/har.types';
+import type { ImportedCapture } from './capture-import.types';
+import { headerValue, multipartBody, toHarEntry, type FormPart } from './http-message.util';
+
+/** Options whose value we use, keyed by every spelling curl accepts. */
+const VALUE_OPTIONS: Record<string, string> = {
+  '-X': 'request',
+  '--request': 'request',
+  '-H': 'header',
+  '--header': 'header',
+  '-d': 'data',
+  '--data': 'data',
+  '--data-ascii': 'data',
+  '--data-binary': 'data-binary',
+  '--data-raw': 'data-raw',
+  '--data-urlencode': 'data-urlencode',
+  '--json': 'json',
+  '-F': 'form',
+  '--form': 'form',
+  '--form-string': 'form-string',
+  '-b': 'cookie',
+  '--cookie': 'cookie',
+  '-u': 'user',
+  '--user': 'user',
+  '-A': 'user-agent',
+  '--user-agent': 'user-agent',
+  '-e': 'referer',
+  '--referer': 'referer',
+  '--oauth2-bearer': 'oauth2-bearer',
+  '--url': 'url',
+};
+
+/** Options that take a value but do not change the request that is sent. */
+const IGNORED_VALUE_OPTIONS = new Set([
+  '-o', '--output', '-m', '--max-time', '--connect-timeout', '-x', '--proxy', '-U', '--proxy-user',
+  '-w', '--write-out', '--retry', '--retry-delay', '--retry-max-time', '-c', '--cookie-jar',
+  '--resolve', '--connect-to', '--cacert', '--capath', '-E', '--cert', '--key', '--cert-type',
+  '--key-type', '--max-redirs', '--limit-rate', '--interface', '--dns-servers', '-y',
+  '--speed-time', '-Y', '--speed-limit', '--max-filesize', '-D', '--dump-header', '--trace',
+  '--trace-ascii', '--stderr', '--proto', '--proto-redir', '--unix-socket',
+]);
+
+/** Options without a value; `--compressed`, `-G` and `-I` change the request, the rest only curl's behaviour. */
+const FLAGS = new Set([
+  '--compressed', '-G', '--get', '-I', '--head',
+  '-s', '--silent', '-S', '--show-error', '-L', '--location', '--location-trusted', '-k',
+  '--insecure', '-v', '--verbose', '-i', '--include', '-f', '--fail', '--fail-with-body',
+  '-g', '--globoff', '-N', '--no-buffer', '-0', '--http1.0', '--http1.1', '--http2',
+  '--http2-prior-knowledge', '--http3', '-4', '--ipv4', '-6', '--ipv6', '-#', '--progress-bar',
+  '--raw', '--no-keepalive', '--path-as-is', '--tlsv1', '--tlsv1.0', '--tlsv1.1', '--tlsv1.2',
+  '--tlsv1.3', '--ssl', '--ssl-reqd', '--no-progress-meter', '-q', '--disable',
+]);
+
+const SHORT_FLAGS = new Set(
+  [...FLAGS].filter((f) => /^-[^-]$/.test(f)).map((f) => f[1]!),
+);
+const SHORT_VALUE_OPTIONS = new Set(
+  [...Object.keys(VALUE_OPTIONS), ...IGNORED_VALUE_OPTIONS]
+    .filter((o) => /^-[^-]$/.test(o))
+    .map((o) => o[1]!),
+);
+
+/** `Accept-Encoding` curl sends for `--compressed`. */
+const COMPRESSED_ACCEPT_ENCODING = 'deflate, gzip, br, zstd';
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: '\x07', b: '\b', e: '\x1b', E: '\x1b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v',
+  '\\': '\\', "'": "'", '"': '"', '?': '?',
+};
+
+/**
+ * Split shell text into commands and their words, following bash quoting:
+ * `'...'`, `"..."`, `$'...'`, backslash escapes and line continuations.
+ * Newlines, `;`, `&&`, `||` and `|` end a command; `#` starts a comment.
+ */
+export function splitShellCommands(text: string): string[][] {
+  const commands: string[][] = [];
+  let words: string[] = [];
+  let word: string | null = null;
+  const endWord = () => {
+    if (word != null) words.push(word);
+    word = null;
+  };
+  const endCommand = () => {
+    endWord();
+    if (words.length) commands.push(words);
+    words = [];
+  };
+  const unterminated = () =>
+    new BadRequestException('Unterminated quote in curl command');
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!;
+    if (c === '\\') {
+      const next = text[i + 1];
+      if (next === '\n') {
+        i++;
+      } else if (next === '\r' && text[i + 2] === '\n') {
+        i += 2;
+      } else if (next != null) {
+        word = (word ?? '') + next;
+        i++;
+      }
+    } else if (c === ' ' || c === '\t' || c === '\r') {
+      endWord();
+    } else if (c === '\n' || c === ';' || c === '|' || c === '&') {
+      endCommand();
+      if ((c === '|' || c === '&') && text[i + 1] === c) i++;
+    } else if (c === '#' && word == null) {
+      while (i + 1 < text.length && text[i + 1] !== '\n') i++;
+    } else if (c === "'") {
+      const end = text.indexOf("'", i + 1);
+      if (end < 0) throw unterminated();
+      word = (word ?? '') + text.slice(i + 1, end);
+      i = end;
+    } else if (c === '$' && text[i + 1] === "'") {
+      let out = '';
+      for (i += 2; ; i++) {
+        if (i >= text.length) throw unterminated();
+        const ch = text[i]!;
+        if (ch === "'") break;
+        if (ch !== '\\') {
+          out += ch;
+          continue;
+        }
+        const esc = text[++i] ?? '';
+        const digits = esc === 'x' ? 2 : esc === 'u' ? 4 : 0;
+        const hex = digits ? new RegExp(`^[\\da-fA-F]{1,${digits}}`).exec(text.slice(i + 1)) : null;
+        if (hex) {
+          out += String.fromCodePoint(parseInt(hex[0], 16));
+          i += hex[0].length;
+        } else {
+          out += ANSI_C_ESCAPES[esc] ?? `\\${esc}`;
+        }
+      }
+      word = (word ?? '') + out;
+    } else if (c === '"') {
+      let out = '';
+      for (i++; ; i++) {
+        if (i >= text.length) throw unterminated();
+        const ch = text[i]!;
+        if (ch === '"') break;
+        if (ch === '\\' && '$`"\\\n'.includes(text[i + 1] ?? '')) {
+          i++;
+          if (text[i] !== '\n') out += text[i];
+        } else {
+          out += ch;
+        }
+      }
+      word = (word ?? '') + out;
+    } else {
+      word = (word ?? '') + c;
+    }
+  }
+  endCommand();
+  return commands;
+}
+
+/** `--data-urlencode` content: `content`, `=content` or `name=content`, encoded the way curl does. */
+function urlencodeData(value: string): string {
+  const eq = value.indexOf('=');
+  if (eq < 0) return encodeURIComponent(value);
+  const name = value.slice(0, eq);
+  return `${name ? `${name}=` : ''}${encodeURIComponent(value.slice(eq + 1))}`;
+}
+
+/** A `-F` field: `name=value`, `name=@file;type=...` or `name=<file`. */
+function formPart(value: string, literal: boolean, warnings: Set<string>): FormPart | undefined {
+  const eq = value.indexOf('=');
+  if (eq <= 0) return undefined;
+  const name = value.slice(0, eq);
+  const content = value.slice(eq + 1);
+  if (literal || (content[0] !== '@' && content[0] !== '<')) return { name, value: content };
+  const [path = '', ...params] = content.slice(1).split(';');
+  const param = (key: string) =>
+    params.find((p) => p.trim().startsWith(`${key}=`))?.trim().slice(key.length + 1);
+  warnings.add('Files referenced with -F are not read; their fields are left empty');
+  return content[0] === '@'
+    ? { name, filename: param('filename') ?? path.split(/[\\/]/).pop() ?? '', contentType: param('type') }
+    : { name, value: '' };
+}
+
+/** A curl command line (`curl` and its arguments) as a HAR entry without a response. */
+function curlToHarEntry(args: string[], warnings: Set<string>): HarEntry | undefined {
+  const headers: HarHeader[] = [];
+  const data: string[] = [];
+  const form: FormPart[] = [];
+  const urls: string[] = [];
+  let method: string | undefined;
+  let get = false;
+  let head = false;
+  let compressed = false;
+  let json = false;
+  const setHeader = (name: string, value: string) => {
+    if (headerValue(headers, name) == null) headers.push({ name, value });
+  };
+
+  const apply = (option: string, value: string) => {
+    switch (VALUE_OPTIONS[option]) {
+      case 'request':
+        method = value;
+        break;
+      case 'header': {
+        const colon = value.indexOf(':');
+        // `Name;` sends an empty header; `Name:` only removes one curl would add.
+        if (colon < 0 && value.endsWith(';')) headers.push({ name: value.slice(0, -1).trim(), value: '' });
+        else if (colon > 0 && value.slice(colon + 1).trim()) {
+          headers.push({ name: value.slice(0, colon).trim(), value: value.slice(colon + 1).trim() });
+        }
+        break;
+      }
+      case 'data':
+      case 'data-binary':
+      case 'json':
+        if (value.startsWith('@')) {
+          warnings.add('Bodies read from files (@file) are not included');
+          break;
+        }
+        data.push(value);
+        json ||= VALUE_OPTIONS[option] === 'json';
+        break;
+      case 'data-raw':
+        data.push(value);
+        break;
+      case 'data-urlencode':
+        if (/^[^=]*@/.test(value)) {
+          warnings.add('Bodies read from files (@file) are not included');
+          break;
+        }
+        data.push(urlencodeData(value));
+        break;
+      case 'form':
+      case 'form-string': {
+        const part = formPart(value, VALUE_OPTIONS[option] === 'form-string', warnings);
+        if (part) form.push(part);
+        break;
+      }
+      case 'cookie': {
+        if (!value.includes('=')) {
+          warnings.add('Cookie files given to -b are not read');
+          break;
+        }
+        const existing = headers.find((h) => h.name.toLowerCase() === 'cookie');
+        if (existing) existing.value = `${existing.value}; ${value}`;
+        else headers.push({ name: 'Cookie', value });
+        break;
+      }
+      case 'user':
+        setHeader(
+          'Authorization',
+          `Basic ${Buffer.from(value.includes(':') ? value : `${value}:`).toString('base64')}`,
+        );
+        break;
+      case 'user-agent':
+        setHeader('User-Agent', value);
+        break;
+      case 'referer':
+        setHeader('Referer', value.replace(/;auto$/, ''));
+        break;
+      case 'oauth2-bearer':
+        setHeader('Authorization', `Bearer ${value}`);
+        break;
+      case 'url':
+        urls.push(value);
+        break;
+    }
+  };
+  const flag = (option: string) => {
+    if (option === '--compressed') compressed = true;
+    else if (option === '-G' || option === '--get') get = true;
+    else if (option === '-I' || option === '--head') head = true;
+  };
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === '--') {
+      urls.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      urls.push(arg);
+      continue;
+    }
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=');
+      const option = eq > 0 && VALUE_OPTIONS[arg.slice(0, eq)] ? arg.slice(0, eq) : arg;
+      if (VALUE_OPTIONS[option] || IGNORED_VALUE_OPTIONS.has(option)) {
+        const value = option !== arg ? arg.slice(eq + 1) : args[++i];
+        if (value == null) throw new BadRequestException(`curl option ${option} needs a value`);
+        if (VALUE_OPTIONS[option]) apply(option, value);
+      } else if (FLAGS.has(option)) {
+        flag(option);
+      } else {
+        warnings.add(`Ignored curl option ${option}`);
+      }
+      continue;
+    }
+    // Short options can be combined (`-sSL`) and take their value attached (`-XPOST`) or as the next word.
+    for (let j = 1; j < arg.length; j++) {
+      const letter = arg[j]!;
+      const option = `-${letter}`;
+      if (SHORT_VALUE_OPTIONS.has(letter)) {
+        const value = j + 1 < arg.length ? arg.slice(j + 1) : args[++i];
+        if (value == null) throw new BadRequestException(`curl option ${option} needs a value`);
+        if (VALUE_OPTIONS[option]) apply(option, value);
+        break;
+      }
+      if (SHORT_FLAGS.has(letter)) flag(option);
+      else warnings.add(`Ignored curl option ${option}`);
+    }
+  }
+
+  if (urls.length === 0) {
+    warnings.add('A curl command without a URL was skipped');
+    return undefined;
+  }
+  if (urls.length > 1) warnings.add('Only the first URL of a curl command is used');
+  let url = /^[a-z][\w+.-]*:\/\//i.test(urls[0]!) ? urls[0]! : `http://${urls[0]}`;
+
+  let body: string | undefined;
+  if (form.length) {
+    const multipart = multipartBody(form);
+    body = multipart.text;
+    setHeader('Content-Type', multipart.contentType);
+  } else if (data.length && get) {
+    url += `${url.includes('?') ? '&' : '?'}${data.join('&')}`;
+  } else if (data.length) {
+    body = data.join(json ? '' : '&');
+    if (json) {
+      setHeader('Content-Type', 'application/json');
+      setHeader('Accept', 'application/json');
+    } else {
+      setHeader('Content-Type', 'application/x-www-form-urlencoded');
+    }
+  }
+  if (compressed) setHeader('Accept-Encoding', COMPRESSED_ACCEPT_ENCODING);
+
+  return toHarEntry({
+    method: method ?? (head ? 'HEAD' : body != null ? 'POST' : 'GET'),
+    url,
+    request: { headers, ...(body != null ? { body: Buffer.from(body, 'utf8') } : {}) },
+  });
+}
+
+/**
+ * One or more curl commands, as copied from the browser's "Copy as cURL
+ * (bash)" or written by hand. Each becomes an entry without a response.
+ */
+export function importCurl(text: string): ImportedCapture {
+  const warnings = new Set<string>();
+  const commands = splitShellCommands(text).filter((words) => words[0] === 'curl');
+  if (commands.length === 0) {
+    throw new BadRequestException('No curl command found');
+  }
+  const entries = commands
+    .map((args) => curlToHarEntry(args, warnings))
+    .filter((e): e is HarEntry => e != null);
+  return { source: { format: 'curl', warnings: [...warnings] }, entries };
+}
@@ -0,0 +1,194 @@
+import { brotliDecompressSync, gunzipSync, inflateSync } from 'node:zlib';
+import type {
+  HarContent,
+  HarEntry,
+  HarHeader,
+  HarPostData,
+  HarQueryString,
+} from '../extract-har/har.types';
+import type { CapturedExchange, CapturedMessage } from './capture-import.types';
+
+const UTF8 = new TextDecoder('utf-8', { fatal: true });
+
+const FORM_BOUNDARY = '----CapturedFormBoundary7MA4YWxkTrZu0gW';
+
+export interface FormPart {
+  name: string;
+  value?: string;
+  /** Set for file fields; their content is not part of the capture. */
+  filename?: string;
+  contentType?: string;
+}
+
+export interface RawHttpMessage {
+  /** `GET /path HTTP/1.1` or `HTTP/1.1 200 OK`. */
+  startLine: string;
+  headers: HarHeader[];
+  body: Buffer;
+}
+
+export function headerValue(headers: HarHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find((h) => h.name.toLowerCase() === lower)?.value;
+}
+
+/** Reassemble a `Transfer-Encoding: chunked` body; malformed framing leaves the body as it is. */
+function dechunk(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    if (lineEnd < 0) return body;
+    const size = parseInt(body.subarray(offset, lineEnd).toString('latin1').split(';')[0]!, 16);
+    if (Number.isNaN(size)) return body;
+    if (size === 0) return Buffer.concat(chunks);
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Split a raw HTTP/1.x message, as Burp stores it, into start line, headers and body. */
+export function parseRawHttpMessage(raw: Buffer): RawHttpMessage {
+  let end = raw.indexOf('\r\n\r\n');
+  let separator = 4;
+  if (end < 0) {
+    end = raw.indexOf('\n\n');
+    separator = 2;
+  }
+  const head = (end < 0 ? raw : raw.subarray(0, end)).toString('latin1');
+  const [startLine = '', ...lines] = head.split(/\r?\n/);
+  const headers: HarHeader[] = [];
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+  }
+  let body = end < 0 ? Buffer.alloc(0) : raw.subarray(end + separator);
+  if (/chunked/i.test(headerValue(headers, 'transfer-encoding') ?? '')) body = dechunk(body);
+  return { startLine: startLine.trim(), headers, body };
+}
+
+/** Undo Content-Encoding; a body that does not decompress is kept as recorded. */
+function decodeContentEncoding(body: Buffer, encoding: string | undefined): Buffer {
+  let out = body;
+  const codings = (encoding ?? '').toLowerCase().split(',').map((c) => c.trim()).filter(Boolean);
+  try {
+    for (const coding of codings.reverse()) {
+      if (coding === 'gzip' || coding === 'x-gzip') out = gunzipSync(out);
+      else if (coding === 'deflate') out = inflateSync(out);
+      else if (coding === 'br') out = brotliDecompressSync(out);
+      else if (coding !== 'identity') return body;
+    }
+  } catch {
+    return body;
+  }
+  return out;
+}
+
+function messageBody(message: CapturedMessage): Buffer {
+  const body = message.body ?? Buffer.alloc(0);
+  if (message.decoded || body.length === 0) return body;
+  return decodeContentEncoding(body, headerValue(message.headers, 'content-encoding'));
+}
+
+/** UTF-8 text, or undefined when the bytes are binary. */
+function utf8Text(bytes: Buffer): string | undefined {
+  try {
+    return UTF8.decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+function toHarContent(message: CapturedMessage): HarContent {
+  const body = messageBody(message);
+  const content: HarContent = {
+    size: body.length,
+    mimeType: headerValue(message.headers, 'content-type') ?? '',
+  };
+  if (body.length === 0) return content;
+  const text = utf8Text(body);
+  if (text != null) content.text = text;
+  else Object.assign(content, { text: body.toString('base64'), encoding: 'base64' });
+  return content;
+}
+
+/** HAR has no encoding for request bodies, so binary ones keep only their MIME type. */
+function toHarPostData(message: CapturedMessage): HarPostData | undefined {
+  const body = messageBody(message);
+  if (body.length === 0) return undefined;
+  const postData: HarPostData = {
+    mimeType: headerValue(message.headers, 'content-type') ?? '',
+  };
+  const text = utf8Text(body);
+  if (text != null) postData.text = text;
+  return postData;
+}
+
+function queryString(url: string): HarQueryString[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+export function toHarEntry(exchange: CapturedExchange): HarEntry {
+  const postData = toHarPostData(exchange.request);
+  const response = exchange.response;
+  return {
+    ...(exchange.startedDateTime ? { startedDateTime: exchange.startedDateTime } : {}),
+    ...(exchange.time != null && exchange.time >= 0 ? { time: exchange.time } : {}),
+    request: {
+      method: exchange.method.toUpperCase(),
+      url: exchange.url,
+      headers: exchange.request.headers,
+      queryString: queryString(exchange.url),
+      ...(postData ? { postData } : {}),
+    },
+    // Status 0 is how HAR records a request that got no response.
+    response: response
+      ? {
+          status: response.status,
+          statusText: response.statusText ?? '',
+          headers: response.headers,
+          content: toHarContent(response),
+        }
+      : { status: 0, statusText: '', headers: [], content: { size: 0, mimeType: '' } },
+  };
+}
+
+/** A multipart/form-data body and its Content-Type; file parts are left empty. */
+export function multipartBody(parts: FormPart[]): { text: string; contentType: string } {
+  const text = parts
+    .map((p) => {
+      const disposition = `Content-Disposition: form-data; name="${p.name}"${
+        p.filename != null ? `; filename="${p.filename}"` : ''
+      }`;
+      const type = p.contentType ? `\r\nContent-Type: ${p.contentType}` : '';
+      return `--${FORM_BOUNDARY}\r\n${disposition}${type}\r\n\r\n${p.value ?? ''}\r\n`;
+    })
+    .join('');
+  return {
+    text: `${text}--${FORM_BOUNDARY}--\r\n`,
+    contentType: `multipart/form-data; boundary=${FORM_BOUNDARY}`,
+  };
+}
+
+/** Status code and reason phrase from a response start line such as `HTTP/1.1 404 Not Found`. */
+export function parseStatusLine(line: string): { status: number; statusText: string } | undefined {
+  const match = /^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/i.exec(line.trim());
+  return match ? { status: Number(match[1]), statusText: match[2]! } : undefined;
+}
+
+/** `scheme://host[:port]`, leaving out the scheme's default port and any port the host already has. */
+export function originOf(scheme: string, host: string, port?: number): string {
+  const s = scheme.toLowerCase() || 'http';
+  const ipv6 = (host.match(/:/g)?.length ?? 0) > 1 && !host.startsWith('[');
+  const hostPart = ipv6 ? `[${host}]` : host;
+  if (!port || port === (s === 'https' ? 443 : 80) || (!ipv6 && host.includes(':'))) {
+    return `${s}://${hostPart}`;
+  }
+  return `${s}://${hostPart}:${port}`;
+}
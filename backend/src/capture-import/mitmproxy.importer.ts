@@ -0,0 +1,143 @@
+import { BadRequestException } from '@nestjs/common';
+import type { HarEntry, HarHeader } from '../extract-har/har.types';
+import type { ImportedCapture } from './capture-import.types';
+import { headerValue, originOf, toHarEntry } from './http-message.util';
+
+type TNetValue =
+  | Buffer
+  | string
+  | number
+  | boolean
+  | null
+  | TNetValue[]
+  | { [key: string]: TNetValue };
+
+/** Reads one tnetstring (`<length>:<payload><type>`) at `offset`; returns the value and the offset after it. */
+function readTNetString(data: Buffer, offset: number): [TNetValue, number] {
+  const colon = data.indexOf(0x3a, offset);
+  const digits = data.subarray(offset, colon).toString('latin1');
+  if (colon < 0 || colon - offset > 12 || !/^\d+$/.test(digits)) {
+    throw new BadRequestException(`mitmproxy flow file is corrupt at byte ${offset}`);
+  }
+  const start = colon + 1;
+  const end = start + Number(digits);
+  if (end >= data.length) {
+    throw new BadRequestException('mitmproxy flow file is truncated');
+  }
+  const payload = data.subarray(start, end);
+  const type = String.fromCharCode(data[end]!);
+  switch (type) {
+    case ',':
+      return [payload, end + 1];
+    case ';':
+      return [payload.toString('utf8'), end + 1];
+    case '#':
+    case '^':
+      return [Number(payload.toString('latin1')), end + 1];
+    case '!':
+      return [payload.toString('latin1') === 'true', end + 1];
+    case '~':
+      return [null, end + 1];
+    case ']': {
+      const list: TNetValue[] = [];
+      for (let i = start; i < end; ) {
+        const [value, next] = readTNetString(data, i);
+        list.push(value);
+        i = next;
+      }
+      return [list, end + 1];
+    }
+    case '}': {
+      const dict: Record<string, TNetValue> = {};
+      for (let i = start; i < end; ) {
+        const [key, afterKey] = readTNetString(data, i);
+        const [value, next] = readTNetString(data, afterKey);
+        dict[Buffer.isBuffer(key) ? key.toString('utf8') : String(key)] = value;
+        i = next;
+      }
+      return [dict, end + 1];
+    }
+    default:
+      throw new BadRequestException(`mitmproxy flow file has an unknown value type "${type}"`);
+  }
+}
+
+function text(value: TNetValue | undefined): string {
+  if (Buffer.isBuffer(value)) return value.toString('utf8');
+  return value == null ? '' : String(value);
+}
+
+function num(value: TNetValue | undefined): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function headers(value: TNetValue | undefined): HarHeader[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((pair): pair is TNetValue[] => Array.isArray(pair) && pair.length >= 2)
+    .map(([name, v]) => ({ name: text(name), value: text(v) }));
+}
+
+function body(value: TNetValue | undefined): Buffer | undefined {
+  return Buffer.isBuffer(value) ? value : typeof value === 'string' ? Buffer.from(value, 'utf8') : undefined;
+}
+
+function isoTime(seconds: number | undefined): string | undefined {
+  return seconds != null ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+/**
+ * mitmproxy flow dump (`mitmdump -w`, or "Save" in mitmweb): concatenated
+ * tnetstring-serialized flows. HTTP flows are converted; TCP, UDP, DNS and
+ * WebSocket-only flows are skipped. Bodies are stored as sent on the wire and
+ * are decompressed here.
+ */
+export function importMitmproxy(data: Buffer): ImportedCapture {
+  const warnings: string[] = [];
+  const entries: HarEntry[] = [];
+  let skipped = 0;
+  for (let offset = 0; offset < data.length; ) {
+    // Whitespace between flows is tolerated.
+    if (data[offset] === 0x0a || data[offset] === 0x0d || data[offset] === 0x20) {
+      offset++;
+      continue;
+    }
+    const [flow, next] = readTNetString(data, offset);
+    offset = next;
+    if (flow == null || typeof flow !== 'object' || Array.isArray(flow) || Buffer.isBuffer(flow)) {
+      throw new BadRequestException('mitmproxy flow file must contain serialized flows');
+    }
+    const req = flow.request as Record<string, TNetValue> | null | undefined;
+    if (text(flow.type) !== 'http' || req == null || typeof req !== 'object') {
+      skipped++;
+      continue;
+    }
+    const res = flow.response as Record<string, TNetValue> | null | undefined;
+    const requestHeaders = headers(req.headers);
+    const host = text(req.authority) || headerValue(requestHeaders, 'host') || text(req.host);
+    const start = num(req.timestamp_start);
+    const end = num(res?.timestamp_end) ?? num(req.timestamp_end);
+    entries.push(
+      toHarEntry({
+        startedDateTime: isoTime(start),
+        time: start != null && end != null ? Math.round((end - start) * 1000) : undefined,
+        method: text(req.method),
+        url: originOf(text(req.scheme), host, num(req.port)) + text(req.path),
+        request: { headers: requestHeaders, body: body(req.content) },
+        response:
+          res && typeof res === 'object'
+            ? {
+                headers: headers(res.headers),
+                body: body(res.content),
+                status: num(res.status_code) ?? 0,
+                statusText: text(res.reason),
+              }
+            : undefined,
+      }),
+    );
+  }
+  if (skipped) {
+    warnings.push(`${skipped} non-HTTP flow${skipped === 1 ? ' was' : 's were'} skipped`);
+  }
+  return { source: { format: 'mitmproxy', warnings }, entries };
+}
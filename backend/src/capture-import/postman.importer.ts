@@ -0,0 +1,371 @@
+import { BadRequestException } from '@nestjs/common';
+import type { HarEntry, HarHeader } from '../extract-har/har.types';
+import type { CapturedExchange, ImportedCapture } from './capture-import.types';
+import { headerValue, multipartBody, toHarEntry } from './http-message.util';
+
+interface PostmanKeyValue {
+  key?: string;
+  value?: unknown;
+  disabled?: boolean;
+  type?: string;
+  src?: string | string[] | null;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  port?: string;
+  path?: string | Array<string | { value?: string }>;
+  query?: PostmanKeyValue[];
+  variable?: PostmanKeyValue[];
+}
+
+interface PostmanAuth {
+  type?: string;
+  [type: string]: unknown;
+}
+
+interface PostmanBody {
+  mode?: string;
+  raw?: string;
+  urlencoded?: PostmanKeyValue[];
+  formdata?: PostmanKeyValue[];
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+  disabled?: boolean;
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanKeyValue[] | string;
+  body?: PostmanBody | null;
+  auth?: PostmanAuth | null;
+}
+
+interface PostmanResponse {
+  originalRequest?: PostmanRequest | string;
+  code?: number;
+  status?: string;
+  header?: PostmanKeyValue[] | string | null;
+  body?: string | null;
+  _postman_previewlanguage?: string;
+}
+
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  response?: PostmanResponse[];
+  auth?: PostmanAuth | null;
+  variable?: PostmanKeyValue[];
+}
+
+interface PostmanCollection {
+  info?: { name?: string; schema?: string };
+  item?: PostmanItem[];
+  auth?: PostmanAuth | null;
+  variable?: PostmanKeyValue[];
+}
+
+const RAW_LANGUAGE_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain',
+};
+
+function enabled(list: PostmanKeyValue[] | undefined): PostmanKeyValue[] {
+  return (list ?? []).filter((kv) => kv && !kv.disabled && kv.key != null);
+}
+
+function stringValue(value: unknown): string {
+  return value == null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/** Postman v2.0 allows headers as one `Name: value` line each. */
+function headerList(header: PostmanKeyValue[] | string | null | undefined): HarHeader[] {
+  if (typeof header === 'string') {
+    return header
+      .split(/\r?\n/)
+      .filter((line) => line.includes(':'))
+      .map((line) => {
+        const colon = line.indexOf(':');
+        return { name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() };
+      });
+  }
+  return enabled(header ?? undefined).map((h) => ({ name: h.key!, value: stringValue(h.value) }));
+}
+
+/**
+ * Fills in `{{variable}}`s from the collection and its folders, and records
+ * the ones that have no value so they can be reported.
+ */
+class Variables {
+  constructor(
+    private readonly values: Map<string, string>,
+    private readonly unresolved: Set<string>,
+  ) {}
+
+  static from(list: PostmanKeyValue[] | undefined, unresolved = new Set<string>()): Variables {
+    return new Variables(new Map(), unresolved).scope(list);
+  }
+
+  scope(list: PostmanKeyValue[] | undefined): Variables {
+    const values = new Map(this.values);
+    for (const v of enabled(list)) values.set(v.key!, stringValue(v.value));
+    return new Variables(values, this.unresolved);
+  }
+
+  resolve(text: string): string {
+    // Variables may refer to other variables; a few passes settle every real chain.
+    let out = text;
+    for (let pass = 0; pass < 5 && out.includes('{{'); pass++) {
+      out = out.replace(/\{\{([^{}]+)\}\}/g, (match, name: string) => this.values.get(name.trim()) ?? match);
+    }
+    for (const [, name] of out.matchAll(/\{\{([^{}]+)\}\}/g)) this.unresolved.add(name!.trim());
+    return out;
+  }
+}
+
+/** Auth parameters are a `{ key, value }` list in v2.1 and a plain object in v2.0. */
+function authParam(auth: PostmanAuth, key: string): string {
+  const params = auth[auth.type!];
+  if (Array.isArray(params)) {
+    return stringValue((params as PostmanKeyValue[]).find((p) => p.key === key)?.value);
+  }
+  return params && typeof params === 'object' ? stringValue((params as Record<string, unknown>)[key]) : '';
+}
+
+function requestUrl(url: PostmanRequest['url'], vars: Variables): string {
+  let raw: string;
+  if (typeof url === 'string' || url == null) {
+    raw = url ?? '';
+  } else if (url.raw) {
+    raw = url.raw;
+    for (const v of enabled(url.variable)) {
+      const value = stringValue(v.value);
+      const name = v.key!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (value) raw = raw.replace(new RegExp(`/:${name}(?=[/?#]|$)`), `/${value}`);
+    }
+  } else {
+    const host = Array.isArray(url.host) ? url.host.join('.') : (url.host ?? '');
+    const path = Array.isArray(url.path)
+      ? url.path.map((s) => (typeof s === 'string' ? s : (s.value ?? ''))).join('/')
+      : (url.path ?? '');
+    const query = enabled(url.query)
+      .map((q) => `${q.key}${q.value == null ? '' : `=${stringValue(q.value)}`}`)
+      .join('&');
+    raw =
+      `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}` +
+      `${path ? `/${path.replace(/^\//, '')}` : ''}${query ? `?${query}` : ''}`;
+  }
+  const resolved = vars.resolve(raw.trim());
+  // Postman sends scheme-less URLs over http.
+  return /^[a-z][\w+.-]*:\/\//i.test(resolved) ? resolved : `http://${resolved}`;
+}
+
+/** Headers Postman adds when it sends a request with this auth. */
+function applyAuth(
+  auth: PostmanAuth | null | undefined,
+  headers: HarHeader[],
+  url: string,
+  vars: Variables,
+  unsupported: Set<string>,
+): string {
+  if (!auth?.type || auth.type === 'noauth') return url;
+  const has = (name: string) => headerValue(headers, name) != null;
+  const param = (key: string) => vars.resolve(authParam(auth, key));
+  switch (auth.type) {
+    case 'bearer':
+      if (!has('authorization')) headers.push({ name: 'Authorization', value: `Bearer ${param('token')}` });
+      return url;
+    case 'basic':
+      if (!has('authorization')) {
+        const credentials = Buffer.from(`${param('username')}:${param('password')}`).toString('base64');
+        headers.push({ name: 'Authorization', value: `Basic ${credentials}` });
+      }
+      return url;
+    case 'oauth2':
+      if (!has('authorization') && param('accessToken')) {
+        headers.push({
+          name: 'Authorization',
+          value: `${param('headerPrefix') || 'Bearer'} ${param('accessToken')}`,
+        });
+      }
+      return url;
+    case 'apikey': {
+      const key = param('key');
+      if (!key) return url;
+      if (param('in') === 'query') {
+        const separator = url.includes('?') ? '&' : '?';
+        return `${url}${separator}${encodeURIComponent(key)}=${encodeURIComponent(param('value'))}`;
+      }
+      if (!has(key)) headers.push({ name: key, value: param('value') });
+      return url;
+    }
+    default:
+      unsupported.add(auth.type);
+      return url;
+  }
+}
+
+/** The body as Postman would send it, plus the Content-Type it would add. */
+function requestBody(
+  body: PostmanBody | null | undefined,
+  vars: Variables,
+): { text: string; contentType?: string } | undefined {
+  if (!body?.mode || body.disabled) return undefined;
+  switch (body.mode) {
+    case 'raw':
+      return body.raw
+        ? {
+            text: vars.resolve(body.raw),
+            contentType: RAW_LANGUAGE_TYPES[body.options?.raw?.language ?? 'text'],
+          }
+        : undefined;
+    case 'urlencoded': {
+      const params = new URLSearchParams(
+        enabled(body.urlencoded).map((p) => [vars.resolve(p.key!), vars.resolve(stringValue(p.value))]),
+      );
+      return { text: params.toString(), contentType: 'application/x-www-form-urlencoded' };
+    }
+    case 'formdata':
+      return multipartBody(
+        enabled(body.formdata).map((p) => {
+          const name = vars.resolve(p.key!);
+          if (p.type !== 'file') return { name, value: vars.resolve(stringValue(p.value)) };
+          const src = Array.isArray(p.src) ? p.src[0] : p.src;
+          return { name, filename: (src ?? '').split(/[\\/]/).pop() ?? '' };
+        }),
+      );
+    case 'graphql': {
+      const query = vars.resolve(body.graphql?.query ?? '');
+      let variables: unknown = {};
+      try {
+        variables = JSON.parse(vars.resolve(body.graphql?.variables || '{}'));
+      } catch {
+        // Postman sends invalid variables as-is; an empty object is the closest valid body.
+      }
+      return { text: JSON.stringify({ query, variables }), contentType: 'application/json' };
+    }
+    default:
+      return undefined;
+  }
+}
+
+interface Context {
+  vars: Variables;
+  auth: PostmanAuth | null | undefined;
+  unsupportedAuth: Set<string>;
+}
+
+function toRequest(
+  request: PostmanRequest | string,
+  ctx: Context,
+): Pick<CapturedExchange, 'method' | 'url' | 'request'> {
+  const req: PostmanRequest = typeof request === 'string' ? { url: request } : request;
+  const headers = headerList(req.header).map((h) => ({
+    name: ctx.vars.resolve(h.name),
+    value: ctx.vars.resolve(h.value),
+  }));
+  let url = requestUrl(req.url, ctx.vars);
+  // A request without its own auth inherits its folder's, then the collection's.
+  url = applyAuth(req.auth === undefined ? ctx.auth : req.auth, headers, url, ctx.vars, ctx.unsupportedAuth);
+  const body = requestBody(req.body, ctx.vars);
+  if (body?.contentType && headerValue(headers, 'content-type') == null) {
+    headers.push({ name: 'Content-Type', value: body.contentType });
+  }
+  return {
+    method: req.method || 'GET',
+    url,
+    request: { headers, ...(body ? { body: Buffer.from(body.text, 'utf8') } : {}) },
+  };
+}
+
+/**
+ * Postman collection (v2.0 or v2.1). Every saved example response becomes an
+ * entry with its original request; requests without examples are listed
+ * without a response. Variables are filled in from the collection and folder
+ * variables, and auth settings become the headers Postman would send.
+ */
+export function importPostman(data: unknown): ImportedCapture {
+  const collection = data as PostmanCollection & { requests?: unknown };
+  if (Array.isArray(collection?.requests) && !Array.isArray(collection.item)) {
+    throw new BadRequestException(
+      'Postman collection format v1 is not supported; export the collection as v2.1',
+    );
+  }
+  if (!collection?.info || !Array.isArray(collection.item)) {
+    throw new BadRequestException('Postman collection must have info and an item array');
+  }
+  const unresolved = new Set<string>();
+  const unsupportedAuth = new Set<string>();
+  const entries: HarEntry[] = [];
+  let withoutExamples = 0;
+
+  const visit = (items: PostmanItem[], parent: Context): void => {
+    for (const item of items) {
+      if (!item || typeof item !== 'object') continue;
+      const ctx: Context = {
+        vars: parent.vars.scope(item.variable),
+        auth: item.auth === undefined ? parent.auth : item.auth,
+        unsupportedAuth,
+      };
+      if (Array.isArray(item.item)) {
+        visit(item.item, ctx);
+        continue;
+      }
+      if (!item.request) continue;
+      const examples = (item.response ?? []).filter((r) => r && typeof r === 'object');
+      if (examples.length === 0) {
+        withoutExamples++;
+        entries.push(toHarEntry(toRequest(item.request, ctx)));
+        continue;
+      }
+      for (const example of examples) {
+        const headers = headerList(example.header);
+        const preview = example._postman_previewlanguage;
+        if (headerValue(headers, 'content-type') == null && preview && RAW_LANGUAGE_TYPES[preview]) {
+          headers.push({ name: 'Content-Type', value: RAW_LANGUAGE_TYPES[preview]! });
+        }
+        entries.push(
+          toHarEntry({
+            ...toRequest(example.originalRequest ?? item.request, ctx),
+            response: {
+              status: example.code ?? 0,
+              statusText: example.status ?? '',
+              headers,
+              // Examples hold the body as shown in Postman, already decompressed.
+              body: example.body ? Buffer.from(example.body, 'utf8') : undefined,
+              decoded: true,
+            },
+          }),
+        );
+      }
+    }
+  };
+  visit(collection.item, {
+    vars: Variables.from(collection.variable, unresolved),
+    auth: collection.auth,
+    unsupportedAuth,
+  });
+
+  const warnings: string[] = [];
+  if (withoutExamples) {
+    warnings.push(
+      `${withoutExamples} request${withoutExamples === 1 ? ' has' : 's have'} no saved example response`,
+    );
+  }
+  if (unresolved.size) {
+    warnings.push(
+      `Variables without a value in the collection: ${[...unresolved].map((v) => `{{${v}}}`).join(', ')}`,
+    );
+  }
+  if (unsupportedAuth.size) {
+    warnings.push(`Auth types not converted to headers: ${[...unsupportedAuth].join(', ')}`);
+  }
+  return { source: { format: 'postman', warnings }, entries };
+}
@@ -0,0 +1,118 @@
+import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { createInflateRaw } from 'node:zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  encrypted: boolean;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+function corrupt(): BadRequestException {
+  return new BadRequestException('Uploaded zip archive is corrupt');
+}
+
+/** 64-bit sizes and offsets from a zip64 extra field, in the order the spec lists them. */
+function applyZip64Extra(extra: Buffer, entry: ZipEntry): void {
+  for (let i = 0; i + 4 <= extra.length; ) {
+    const id = extra.readUInt16LE(i);
+    const length = extra.readUInt16LE(i + 2);
+    if (id === 0x0001) {
+      let at = i + 4;
+      const next = () => {
+        const value = Number(extra.readBigUInt64LE(at));
+        at += 8;
+        return value;
+      };
+      if (entry.size === 0xffffffff) entry.size = next();
+      if (entry.compressedSize === 0xffffffff) entry.compressedSize = next();
+      if (entry.localHeaderOffset === 0xffffffff) entry.localHeaderOffset = next();
+      return;
+    }
+    i += 4 + length;
+  }
+}
+
+/** The entries listed in a zip archive's central directory. */
+export function readZipDirectory(data: Buffer): ZipEntry[] {
+  try {
+    return readCentralDirectory(data);
+  } catch (err: unknown) {
+    // Offsets that point past the end of the buffer.
+    if (err instanceof RangeError) throw corrupt();
+    throw err;
+  }
+}
+
+function readCentralDirectory(data: Buffer): ZipEntry[] {
+  let eocd = -1;
+  const floor = Math.max(0, data.length - 22 - MAX_COMMENT_LENGTH);
+  for (let i = data.length - 22; i >= floor; i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw corrupt();
+
+  let count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  const locator = eocd - 20;
+  if (locator >= 0 && data.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+    const zip64 = Number(data.readBigUInt64LE(locator + 8));
+    if (zip64 + 56 > data.length || data.readUInt32LE(zip64) !== ZIP64_EOCD_SIGNATURE) throw corrupt();
+    count = Number(data.readBigUInt64LE(zip64 + 32));
+    offset = Number(data.readBigUInt64LE(zip64 + 48));
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let n = 0; n < count; n++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_SIGNATURE) throw corrupt();
+    const flags = data.readUInt16LE(offset + 8);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const nameStart = offset + 46;
+    const entry: ZipEntry = {
+      // Bit 11 marks UTF-8 names; older tools wrote CP437, which is ASCII for the names that matter here.
+      name: data.toString(flags & 0x800 ? 'utf8' : 'latin1', nameStart, nameStart + nameLength),
+      method: data.readUInt16LE(offset + 10),
+      encrypted: (flags & 0x1) !== 0,
+      compressedSize: data.readUInt32LE(offset + 20),
+      size: data.readUInt32LE(offset + 24),
+      localHeaderOffset: data.readUInt32LE(offset + 42),
+    };
+    applyZip64Extra(data.subarray(nameStart + nameLength, nameStart + nameLength + extraLength), entry);
+    entries.push(entry);
+    offset = nameStart + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/** The entry's content as a stream, inflated as it is read. */
+export function openZipEntry(data: Buffer, entry: ZipEntry): Readable {
+  if (entry.encrypted) {
+    throw new BadRequestException(`${entry.name} in the zip archive is encrypted`);
+  }
+  const header = entry.localHeaderOffset;
+  if (header + 30 > data.length || data.readUInt32LE(header) !== LOCAL_SIGNATURE) throw corrupt();
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const end = start + entry.compressedSize;
+  if (end > data.length) throw corrupt();
+  const compressed = Readable.from([data.subarray(start, end)]);
+  if (entry.method === 0) return compressed;
+  if (entry.method === 8) return compressed.pipe(createInflateRaw());
+  throw new BadRequestException(
+    `${entry.name} in the zip archive uses unsupported compression method ${entry.method}`,
+  );
+}
@@ -0,0 +1,52 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { RequestSummary } from '../../extract-har/har.types';
+
+/**
+ * The request every generator's golden file is generated from: a JSON POST
+ * with a query string, a cosmetic header that is dropped, a repeated header
+ * and a cookie list with one cookie that is not needed.
+ */
+export const GOLDEN_REQUEST: RequestSummary = {
+  method: 'POST',
+  url: 'https://api.example.com/v1/orders?expand=items&locale=en-US',
+  headers: [
+    { name: 'Accept', value: 'application/json' },
+    { name: 'Accept-Language', value: 'en-US,en;q=0.9' },
+    { name: 'Content-Type', value: 'application/json' },
+    { name: 'Authorization', value: 'Bearer abc.def.ghi' },
+    { name: 'X-Trace', value: 'one' },
+    { name: 'X-Trace', value: 'two' },
+    { name: 'Cookie', value: 'session=s3cr3t; _ga=GA1.2.3' },
+  ],
+  postData: {
+    mimeType: 'application/json',
+    text: JSON.stringify({
+      customerId: 42,
+      note: 'Leave at the "back" door\nthanks',
+      gift: false,
+      coupon: null,
+      items: [{ sku: 'A-1', quantity: 2 }],
+    }),
+  },
+  cookies: [
+    { name: 'session', value: 's3cr3t', source: 'request', needed: true, reason: 'set by api.example.com' },
+    { name: '_ga', value: 'GA1.2.3', source: 'request', needed: false, reason: 'analytics cookie' },
+  ],
+};
+
+/**
+ * Compare generated output with `__golden__/<name>.txt`. Run with
+ * `UPDATE_GOLDEN=1` to write the file instead after an intended change.
+ */
+export function expectGolden(name: string, actual: string): void {
+  const file = join(__dirname, `${name}.txt`);
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(file, actual + '\n');
+    return;
+  }
+  if (!existsSync(file)) {
+    throw new Error(`No golden file ${name}.txt; create it with UPDATE_GOLDEN=1 npm test and review it`);
+  }
+  expect(actual + '\n').toBe(readFileSync(file, 'utf8'));
+}
@@ -0,0 +1,8 @@
+import { expectGolden, GOLDEN_REQUEST } from './__golden__';
+import { axiosGenerator } from './axios.generator';
+
+describe('axiosGenerator', () => {
+  it('matches the golden file', () => {
+    expectGolden(axiosGenerator.target, axiosGenerator.generate(GOLDEN_REQUEST));
+  });
+});
@@ -0,0 +1,31 @@
+import type { RequestSummary } from '../extract-har/har.types';
+import { quote, toCodegenRequest } from './codegen-request.util';
+import type { CodeGenerator } from './codegen.types';
+import { jsHeaders, jsJsonLiteral } from './fetch.generator';
+
+export const axiosGenerator: CodeGenerator = {
+  target: 'typescript-axios',
+  label: 'TypeScript (axios)',
+  generate(request: RequestSummary): string {
+    const req = toCodegenRequest(request);
+    const config = [
+      `  method: ${quote(req.method.toLowerCase())},`,
+      `  url: ${quote(req.url)},`,
+    ];
+    if (req.headers.length) config.push(`  headers: ${jsHeaders(req, '  ')},`);
+    if (req.body) {
+      config.push(
+        req.body.json !== undefined
+          ? `  data: ${jsJsonLiteral(req.body.json, '  ')},`
+          : `  data: ${quote(req.body.text)},`,
+      );
+    }
+    return [
+      'import axios from "axios";',
+      '',
+      `const response = await axios.request({\n${config.join('\n')}\n});`,
+      '',
+      'console.log(response.status, response.data);',
+    ].join('\n');
+  },
+};
@@ -0,0 +1,45 @@
+import { BadRequestException } from '@nestjs/common';
+import type { RequestSummary } from '../extract-har/har.types';
+import { axiosGenerator } from './axios.generator';
+import type { CodeGenerator, CodegenTarget, CodeSnippets } from './codegen.types';
+import { curlGenerator } from './curl.generator';
+import { fetchGenerator } from './fetch.generator';
+import { goGenerator } from './go.generator';
+import { httpxGenerator } from './httpx.generator';
+import { requestsGenerator } from './requests.generator';
+
+export const CODE_GENERATORS: Record<CodegenTarget, CodeGenerator> = {
+  curl: curlGenerator,
+  'typescript-fetch': fetchGenerator,
+  'typescript-axios': axiosGenerator,
+  'python-requests': requestsGenerator,
+  'python-httpx': httpxGenerator,
+  'go-net-http': goGenerator,
+};
+
+export const CODEGEN_TARGETS = Object.keys(CODE_GENERATORS) as CodegenTarget[];
+
+export function generateSnippets(
+  request: RequestSummary,
+  targets: CodegenTarget[] = CODEGEN_TARGETS,
+): CodeSnippets {
+  const snippets: CodeSnippets = {};
+  for (const target of targets) {
+    snippets[target] = CODE_GENERATORS[target].generate(request);
+  }
+  return snippets;
+}
+
+/** Validate the `targets` field of a match request; defaults to every target. */
+export function parseCodegenTargets(raw: unknown): CodegenTarget[] {
+  if (raw == null) return CODEGEN_TARGETS;
+  if (
+    !Array.isArray(raw) ||
+    raw.some((t) => typeof t !== 'string' || !CODEGEN_TARGETS.includes(t as CodegenTarget))
+  ) {
+    throw new BadRequestException(
+      `targets must be an array of: ${CODEGEN_TARGETS.join(', ')}`,
+    );
+  }
+  return raw as CodegenTarget[];
+}
@@ -0,0 +1,70 @@
+import { CURL_DROP_HEADERS } from '../constants';
+import type { RequestSummary } from '../extract-har/har.types';
+import type { CodegenRequest } from './codegen.types';
+
+function isJsonMimeType(mimeType: string | undefined): boolean {
+  return (mimeType ?? '').toLowerCase().includes('json');
+}
+
+/**
+ * `Cookie` value built from the request's resolved cookies, keeping only
+ * those flagged as needed. Undefined when the request has no cookie list, in
+ * which case its captured `Cookie` headers are used as they are.
+ */
+export function neededCookieHeader(request: RequestSummary): string | undefined {
+  if (!request.cookies) return undefined;
+  return request.cookies
+    .filter((c) => c.needed)
+    .map((c) => `${c.name}=${c.value}`)
+    .join('; ');
+}
+
+/**
+ * Normalize a request for code generation. Drops the same cosmetic headers
+ * as the matching payload, joins repeated headers (`; ` for cookies, `, `
+ * otherwise), replaces captured cookies with the needed ones and parses JSON
+ * bodies.
+ */
+export function toCodegenRequest(request: RequestSummary): CodegenRequest {
+  const cookie = neededCookieHeader(request);
+  const headers = new Map<string, [string, string]>();
+  for (const h of request.headers ?? []) {
+    const key = h.name.toLowerCase();
+    if (CURL_DROP_HEADERS.has(key)) continue;
+    if (key === 'cookie' && cookie != null) continue;
+    const existing = headers.get(key);
+    if (existing) {
+      existing[1] += (key === 'cookie' ? '; ' : ', ') + h.value;
+    } else {
+      headers.set(key, [h.name, h.value]);
+    }
+  }
+  const out: CodegenRequest = {
+    method: request.method.toUpperCase(),
+    url: request.url,
+    headers: [...headers.values()],
+  };
+  if (cookie) out.headers.push(['Cookie', cookie]);
+  const text = request.postData?.text;
+  if (text) {
+    out.body = { mimeType: request.postData?.mimeType, text };
+    if (isJsonMimeType(out.body.mimeType)) {
+      try {
+        out.body.json = JSON.parse(text);
+      } catch {
+        // Sent as raw text.
+      }
+    }
+  }
+  return out;
+}
+
+/** Prefix every line after the first, for nesting a multi-line literal. */
+export function indentTail(text: string, prefix: string): string {
+  return text.replace(/\n/g, '\n' + prefix);
+}
+
+/** Double-quoted string literal; valid in JavaScript, Python and Go. */
+export function quote(value: string): string {
+  return JSON.stringify(value);
+}
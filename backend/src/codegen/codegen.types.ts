@@ -0,0 +1,33 @@
+import type { RequestSummary } from '../extract-har/har.types';
+
+export type CodegenTarget =
+  | 'curl'
+  | 'typescript-fetch'
+  | 'typescript-axios'
+  | 'python-requests'
+  | 'python-httpx'
+  | 'go-net-http';
+
+/** Generated source for each requested target. */
+export type CodeSnippets = Partial<Record<CodegenTarget, string>>;
+
+/** Turns a captured request into a runnable snippet in one language/library. */
+export interface CodeGenerator {
+  readonly target: CodegenTarget;
+  /** Display name, e.g. `Python (requests)`. */
+  readonly label: string;
+  generate(request: RequestSummary): string;
+}
+
+/** Request as the non-curl generators see it: cosmetic headers dropped, duplicates merged. */
+export interface CodegenRequest {
+  method: string;
+  url: string;
+  headers: Array<[name: string, value: string]>;
+  body?: {
+    mimeType?: string;
+    text: string;
+    /** Parsed body when it is JSON, so generators can emit a native literal. */
+    json?: unknown;
+  };
+}
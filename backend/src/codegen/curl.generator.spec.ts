@@ -0,0 +1,8 @@
+import { expectGolden, GOLDEN_REQUEST } from './__golden__';
+import { curlGenerator } from './curl.generator';
+
+describe('curlGenerator', () => {
+  it('matches the golden file', () => {
+    expectGolden(curlGenerator.target, curlGenerator.generate(GOLDEN_REQUEST));
+  });
+});
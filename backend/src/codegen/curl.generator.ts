@@ -0,0 +1,36 @@
+import harToCurl from 'har-to-curl';
+import type { RequestSummary } from '../extract-har/har.types';
+import { neededCookieHeader } from './codegen-request.util';
+import type { CodeGenerator } from './codegen.types';
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * curl via har-to-curl, with every captured header kept. When the request has
+ * a resolved cookie list, its `Cookie` headers are replaced by a `-b` flag
+ * carrying only the needed cookies.
+ */
+export const curlGenerator: CodeGenerator = {
+  target: 'curl',
+  label: 'curl',
+  generate(request: RequestSummary): string {
+    const cookie = neededCookieHeader(request);
+    const headers = (request.headers ?? []).filter(
+      (h) => cookie == null || h.name.toLowerCase() !== 'cookie',
+    );
+    const entry = {
+      request: {
+        method: request.method,
+        url: request.url,
+        headers,
+        cookies: [] as Array<{ name: string; value: string }>,
+        postData: request.postData,
+      },
+    };
+    const curl = harToCurl(entry);
+    if (typeof curl !== 'string') return '';
+    return cookie ? `${curl} -b ${shellQuote(cookie)}` : curl;
+  },
+};
@@ -0,0 +1,8 @@
+import { expectGolden, GOLDEN_REQUEST } from './__golden__';
+import { fetchGenerator } from './fetch.generator';
+
+describe('fetchGenerator', () => {
+  it('matches the golden file', () => {
+    expectGolden(fetchGenerator.target, fetchGenerator.generate(GOLDEN_REQUEST));
+  });
+});
@@ -0,0 +1,40 @@
+import type { RequestSummary } from '../extract-har/har.types';
+import { indentTail, quote, toCodegenRequest } from './codegen-request.util';
+import type { CodeGenerator, CodegenRequest } from './codegen.types';
+
+/** Object literal of the request headers, indented for use as a property value. */
+export function jsHeaders(req: CodegenRequest, indent: string): string {
+  const lines = req.headers.map(([name, value]) => `${indent}  ${quote(name)}: ${quote(value)},`);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/** JSON bodies become a literal (pretty-printed JSON is valid JavaScript). */
+export function jsJsonLiteral(value: unknown, indent: string): string {
+  return indentTail(JSON.stringify(value, null, 2), indent);
+}
+
+export const fetchGenerator: CodeGenerator = {
+  target: 'typescript-fetch',
+  label: 'TypeScript (fetch)',
+  generate(request: RequestSummary): string {
+    const req = toCodegenRequest(request);
+    const options: string[] = [];
+    if (req.method !== 'GET') options.push(`  method: ${quote(req.method)},`);
+    if (req.headers.length) options.push(`  headers: ${jsHeaders(req, '  ')},`);
+    if (req.body) {
+      options.push(
+        req.body.json !== undefined
+          ? `  body: JSON.stringify(${jsJsonLiteral(req.body.json, '  ')}),`
+          : `  body: ${quote(req.body.text)},`,
+      );
+    }
+    const call = options.length
+      ? `await fetch(${quote(req.url)}, {\n${options.join('\n')}\n})`
+      : `await fetch(${quote(req.url)})`;
+    return [
+      `const response = ${call};`,
+      '',
+      'console.log(response.status, await response.text());',
+    ].join('\n');
+  },
+};
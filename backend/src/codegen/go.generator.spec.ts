@@ -0,0 +1,8 @@
+import { expectGolden, GOLDEN_REQUEST } from './__golden__';
+import { goGenerator } from './go.generator';
+
+describe('goGenerator', () => {
+  it('matches the golden file', () => {
+    expectGolden(goGenerator.target, goGenerator.generate(GOLDEN_REQUEST));
+  });
+});
@@ -0,0 +1,60 @@
+import type { RequestSummary } from '../extract-har/har.types';
+import { quote, toCodegenRequest } from './codegen-request.util';
+import type { CodeGenerator } from './codegen.types';
+
+/** Raw string literal when the text allows one, else an interpreted (escaped) string. */
+function goString(text: string): string {
+  return text.includes('`') || text.includes('\r') ? quote(text) : '`' + text + '`';
+}
+
+export const goGenerator: CodeGenerator = {
+  target: 'go-net-http',
+  label: 'Go (net/http)',
+  generate(request: RequestSummary): string {
+    const req = toCodegenRequest(request);
+    const imports = ['"fmt"', '"io"', '"net/http"'];
+    const lines: string[] = [];
+    let bodyArg = 'nil';
+    if (req.body) {
+      imports.push('"strings"');
+      const text =
+        req.body.json !== undefined ? JSON.stringify(req.body.json, null, 2) : req.body.text;
+      lines.push(`\tbody := strings.NewReader(${goString(text)})`);
+      bodyArg = 'body';
+    }
+    lines.push(
+      `\treq, err := http.NewRequest(${quote(req.method)}, ${quote(req.url)}, ${bodyArg})`,
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+    );
+    for (const [name, value] of req.headers) {
+      lines.push(`\treq.Header.Set(${quote(name)}, ${quote(value)})`);
+    }
+    lines.push(
+      '',
+      '\tresp, err := http.DefaultClient.Do(req)',
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+      '\tdefer resp.Body.Close()',
+      '',
+      '\tdata, err := io.ReadAll(resp.Body)',
+      '\tif err != nil {',
+      '\t\tpanic(err)',
+      '\t}',
+      '\tfmt.Println(resp.Status, string(data))',
+    );
+    return [
+      'package main',
+      '',
+      'import (',
+      ...imports.sort().map((i) => `\t${i}`),
+      ')',
+      '',
+      'func main() {',
+      ...lines,
+      '}',
+    ].join('\n');
+  },
+};
@@ -0,0 +1,8 @@
+import { expectGolden, GOLDEN_REQUEST } from './__golden__';
+import { httpxGenerator } from './httpx.generator';
+
+describe('httpxGenerator', () => {
+  it('matches the golden file', () => {
+    expectGolden(httpxGenerator.target, httpxGenerator.generate(GOLDEN_REQUEST));
+  });
+});
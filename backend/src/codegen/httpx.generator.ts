@@ -0,0 +1,31 @@
+import type { RequestSummary } from '../extract-har/har.types';
+import { quote, toCodegenRequest } from './codegen-request.util';
+import type { CodeGenerator } from './codegen.types';
+import { pythonLiteral, pythonRequestParts } from './python.util';
+
+/** Uses `httpx.request` throughout: httpx's get/delete helpers do not accept a body. */
+export const httpxGenerator: CodeGenerator = {
+  target: 'python-httpx',
+  label: 'Python (httpx)',
+  generate(request: RequestSummary): string {
+    const req = toCodegenRequest(request);
+    const { assignments, kwargs } = pythonRequestParts(req);
+    if (req.body) {
+      if (req.body.json !== undefined) {
+        assignments.push(`payload = ${pythonLiteral(req.body.json)}`);
+        kwargs.push('json=payload');
+      } else {
+        assignments.push(`payload = ${quote(req.body.text)}`);
+        kwargs.push('content=payload');
+      }
+    }
+    return [
+      'import httpx',
+      '',
+      ...assignments,
+      '',
+      `response = httpx.request(${[quote(req.method), 'url', ...kwargs].join(', ')})`,
+      'print(response.status_code, response.text)',
+    ].join('\n');
+  },
+};
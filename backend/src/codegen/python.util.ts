@@ -0,0 +1,40 @@
+import { quote } from './codegen-request.util';
+import type { CodegenRequest } from './codegen.types';
+
+/** Python literal for a parsed JSON value, indented by four spaces per level. */
+export function pythonLiteral(value: unknown, indent = ''): string {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'None';
+  if (typeof value === 'string') return quote(value);
+  const inner = indent + '    ';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map((v) => `${inner}${pythonLiteral(v, inner)},`);
+    return `[\n${items.join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  const items = entries.map(([k, v]) => `${inner}${quote(k)}: ${pythonLiteral(v, inner)},`);
+  return `{\n${items.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Module-level assignments shared by the requests and httpx snippets, plus
+ * the keyword arguments that pass them on.
+ */
+export function pythonRequestParts(req: CodegenRequest): {
+  assignments: string[];
+  kwargs: string[];
+} {
+  const assignments = [`url = ${quote(req.url)}`];
+  const kwargs: string[] = [];
+  if (req.headers.length) {
+    assignments.push(
+      `headers = ${pythonLiteral(Object.fromEntries(req.headers))}`,
+    );
+    kwargs.push('headers=headers');
+  }
+  return { assignments, kwargs };
+}
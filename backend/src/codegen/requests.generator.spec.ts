@@ -0,0 +1,8 @@
+import { expectGolden, GOLDEN_REQUEST } from './__golden__';
+import { requestsGenerator } from './requests.generator';
+
+describe('requestsGenerator', () => {
+  it('matches the golden file', () => {
+    expectGolden(requestsGenerator.target, requestsGenerator.generate(GOLDEN_REQUEST));
+  });
+});
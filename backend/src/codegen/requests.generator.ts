@@ -0,0 +1,36 @@
+import type { RequestSummary } from '../extract-har/har.types';
+import { quote, toCodegenRequest } from './codegen-request.util';
+import type { CodeGenerator } from './codegen.types';
+import { pythonLiteral, pythonRequestParts } from './python.util';
+
+const REQUESTS_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+export const requestsGenerator: CodeGenerator = {
+  target: 'python-requests',
+  label: 'Python (requests)',
+  generate(request: RequestSummary): string {
+    const req = toCodegenRequest(request);
+    const { assignments, kwargs } = pythonRequestParts(req);
+    if (req.body) {
+      if (req.body.json !== undefined) {
+        assignments.push(`payload = ${pythonLiteral(req.body.json)}`);
+        kwargs.push('json=payload');
+      } else {
+        assignments.push(`payload = ${quote(req.body.text)}`);
+        kwargs.push('data=payload');
+      }
+    }
+    const args = ['url', ...kwargs].join(', ');
+    const call = REQUESTS_METHODS.has(req.method)
+      ? `requests.${req.method.toLowerCase()}(${args})`
+      : `requests.request(${quote(req.method)}, ${args})`;
+    return [
+      'import requests',
+      '',
+      ...assignments,
+      '',
+      `response = ${call}`,
+      'print(response.status_code, response.text)',
+    ].join('\n');
+  },
+};
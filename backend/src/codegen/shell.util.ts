@@ -0,0 +1,26 @@
+import { replaceMarkers } from '../extract-har/workflow.util';
+import type { CodegenRequest } from './codegen.types';
+
+/** Shell variable for a marker name: `user_id` → `USER_ID`. */
+export function shellVar(name: string): string {
+  return name.toUpperCase();
+}
+
+/** Double-quoted shell word with `{{wf:name}}` markers expanded to `${NAME}`. */
+export function shellWord(text: string): string {
+  const escaped = text.replace(/[\\"$`]/g, '\\$&');
+  return `"${replaceMarkers(escaped, (name) => `\${${shellVar(name)}}`)}"`;
+}
+
+/** Single-quoted shell word; nothing inside is expanded. */
+export function quoteSingle(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/** One-line curl for a request whose markers become shell variable references. */
+export function toShellCurl(request: CodegenRequest, extraArgs: string[] = []): string {
+  const args = ['curl', ...extraArgs, '-X', request.method, shellWord(request.url)];
+  for (const [name, value] of request.headers) args.push('-H', shellWord(`${name}: ${value}`));
+  if (request.body) args.push('--data-raw', shellWord(request.body.text));
+  return args.join(' ');
+}
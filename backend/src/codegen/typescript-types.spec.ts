@@ -0,0 +1,57 @@
+import { inferJsonSchema } from '../extract-har/schema.util';
+import { toTypeScriptTypes } from './typescript-types';
+
+describe('toTypeScriptTypes', () => {
+  it('wraps arrays of enum values', () => {
+    const schema = inferJsonSchema([{ roles: ['admin', 'user'] }, { roles: ['user', 'admin'] }]);
+    expect(toTypeScriptTypes(schema, 'Account')).toBe(
+      ['export interface Account {', '  roles: Array<"admin" | "user">;', '}', ''].join('\n'),
+    );
+  });
+
+  it('types nullable and optional fields', () => {
+    const schema = inferJsonSchema([
+      { name: 'Ada', nickname: null, tags: [null, 1] },
+      { name: 'Grace', nickname: 'amazing', age: 85, tags: [] },
+    ]);
+    expect(toTypeScriptTypes(schema, 'Person')).toBe(
+      [
+        'export interface Person {',
+        '  name: string;',
+        '  nickname: string | null;',
+        '  tags: Array<number | null>;',
+        '  age?: number;',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('declares nested objects after their parent', () => {
+    const schema = inferJsonSchema([
+      { user: { id: 1, address: { city: 'Paris' } }, items: [{ sku: 'a-1' }] },
+    ]);
+    expect(toTypeScriptTypes(schema, 'Order')).toBe(
+      [
+        'export interface Order {',
+        '  user: OrderUser;',
+        '  items: OrderItem[];',
+        '}',
+        '',
+        'export interface OrderUser {',
+        '  id: number;',
+        '  address: OrderUserAddress;',
+        '}',
+        '',
+        'export interface OrderUserAddress {',
+        '  city: string;',
+        '}',
+        '',
+        'export interface OrderItem {',
+        '  sku: string;',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import type { JsonSchema } from '../extract-har/schema.util';
+
+function pascalCase(key: string): string {
+  return key
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w[0]!.toUpperCase() + w.slice(1))
+    .join('');
+}
+
+/** `items` → `Item`, `categories` → `Category`; anything else gets an `Item` suffix. */
+function singular(name: string): string {
+  if (/ies$/.test(name) && name.length > 4) return name.slice(0, -3) + 'y';
+  if (/[^s]s$/.test(name) && name.length > 3) return name.slice(0, -1);
+  return `${name}Item`;
+}
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** Collects one `export interface` per object schema, naming nested ones after their parent and key. */
+class TypeEmitter {
+  private readonly declarations: string[] = [];
+  private readonly used = new Set<string>();
+
+  emit(schema: JsonSchema, rootName: string): string {
+    if (schema.type === 'object' && Object.keys(schema.properties ?? {}).length > 0) {
+      this.interfaceFor(schema, rootName);
+    } else {
+      const name = this.reserve(rootName);
+      const slot = this.declarations.push('') - 1;
+      this.declarations[slot] = `export type ${name} = ${this.typeExpression(schema, name)};\n`;
+    }
+    return this.declarations.join('\n');
+  }
+
+  private reserve(hint: string): string {
+    let name = hint;
+    for (let n = 2; this.used.has(name); n++) name = `${hint}${n}`;
+    this.used.add(name);
+    return name;
+  }
+
+  private typeExpression(schema: JsonSchema, hint: string): string {
+    if (schema.anyOf) {
+      return schema.anyOf.map((s) => this.typeExpression(s, hint)).join(' | ');
+    }
+    switch (schema.type) {
+      case 'object':
+        return this.interfaceFor(schema, hint);
+      case 'array': {
+        if (!schema.items) return 'unknown[]';
+        const item = this.typeExpression(schema.items, singular(hint));
+        // `"a" | "b"[]` would bind `[]` to the last member only.
+        return /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+      }
+      case 'string':
+        return schema.enum ? schema.enum.map((v) => JSON.stringify(v)).join(' | ') : 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private interfaceFor(schema: JsonSchema, hint: string): string {
+    const properties = Object.entries(schema.properties ?? {});
+    if (properties.length === 0) return 'Record<string, unknown>';
+    const name = this.reserve(hint);
+    // Reserve the slot first so parents are declared before the types they use.
+    const slot = this.declarations.push('') - 1;
+    const required = new Set(schema.required ?? []);
+    const lines = [`export interface ${name} {`];
+    for (const [key, prop] of properties) {
+      const format = prop.format ?? prop.anyOf?.find((s) => s.format)?.format;
+      if (format) lines.push(`  /** ${format} */`);
+      const type = this.typeExpression(prop, `${name}${pascalCase(key)}`);
+      lines.push(`  ${propertyName(key)}${required.has(key) ? '' : '?'}: ${type};`);
+    }
+    lines.push('}');
+    this.declarations[slot] = lines.join('\n') + '\n';
+    return name;
+  }
+}
+
+/**
+ * TypeScript declarations for an inferred schema: an interface per object
+ * (nested ones named `<Parent><Key>`), optional properties for keys some
+ * samples lacked, unions for `anyOf` and string literal unions for enums.
+ */
+export function toTypeScriptTypes(schema: JsonSchema, rootName: string): string {
+  return new TypeEmitter().emit(schema, rootName);
+}
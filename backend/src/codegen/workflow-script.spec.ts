@@ -0,0 +1,47 @@
+import type { WorkflowPlan } from '../extract-har/workflow.util';
+import { toShellScript, toTypeScriptScript } from './workflow-script';
+
+const plan = (url: string, purpose?: string): WorkflowPlan => ({
+  steps: [{ index: 0, purpose, request: { method: 'GET', url, headers: [] }, uses: [] }],
+  variables: [],
+});
+
+describe('workflow script comments', () => {
+  const injected = plan('https://api.example.com/x%0Atouch%20/tmp/pwned', 'List\rrm -rf ~');
+
+  it('keeps decoded path breaks out of shell code', () => {
+    const script = toShellScript(injected, 'Fetch\nthings');
+    expect(script).toContain('# Workflow: Fetch things\n');
+    expect(script).toContain('# Step 1: GET /x touch /tmp/pwned - List rm -rf ~\n');
+    expect(script.split('\n').filter((line) => /^(touch|rm)\b/.test(line))).toEqual([]);
+  });
+
+  it('keeps decoded path breaks out of TypeScript code', () => {
+    const script = toTypeScriptScript(injected, 'Fetch things');
+    expect(script).toContain('// Workflow: Fetch things\n');
+    expect(script).toContain('  // Step 1: GET /x touch /tmp/pwned - List rm -rf ~\n');
+  });
+});
+
+describe('toTypeScriptScript', () => {
+  it('reads JSON bodies as unknown through pick', () => {
+    const script = toTypeScriptScript(
+      {
+        steps: [
+          { index: 0, request: { method: 'POST', url: 'https://api.example.com/login', headers: [] }, uses: [] },
+          {
+            index: 1,
+            request: { method: 'GET', url: 'https://api.example.com/users/{{wf:user_id}}', headers: [] },
+            uses: [{ variable: 'user_id', location: 'path[2]' }],
+          },
+        ],
+        variables: [{ name: 'user_id', fromStep: 0, sourcePath: '$.data.items[0]["user-id"]', example: '98765' }],
+      },
+      'Fetch a user',
+    );
+    expect(script).toContain('  const body1: unknown = await res1.json();\n');
+    expect(script).toContain('  const user_id = String(pick(body1, "data", "items", 0, "user-id"));\n');
+    expect(script).toContain('function pick(value: unknown, ...keys: Array<string | number>): unknown {');
+    expect(script).not.toMatch(/\bany\b/);
+  });
+});
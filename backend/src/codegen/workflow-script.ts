@@ -0,0 +1,188 @@
+import {
+  replaceMarkers,
+  type PlannedStep,
+  type WorkflowPlan,
+  type WorkflowVariable,
+} from '../extract-har/workflow.util';
+import { quote } from './codegen-request.util';
+import { quoteSingle, shellVar, toShellCurl } from './shell.util';
+
+/**
+ * Text for a one-line `#` or `//` comment. Paths and purposes come from the
+ * capture and the model, so a line break or other control character in them
+ * would end the comment and run as code.
+ */
+function commentText(text: string): string {
+  return text.replace(/[\p{Cc}\u2028\u2029]+/gu, ' ');
+}
+
+function describeStep(step: PlannedStep, position: number): string {
+  let path: string;
+  try {
+    path = decodeURI(new URL(replaceMarkers(step.request.url, (n) => `{${n}}`)).pathname);
+  } catch {
+    path = step.request.url;
+  }
+  const purpose = step.purpose ? ` - ${step.purpose}` : '';
+  return commentText(`Step ${position + 1}: ${step.request.method} ${path}${purpose}`);
+}
+
+function shellExtract(variable: WorkflowVariable): string {
+  const step = variable.fromStep + 1;
+  const { sourcePath } = variable;
+  let command: string;
+  if (sourcePath.startsWith('$')) {
+    command = `jq -r ${quoteSingle(sourcePath.slice(1) || '.')} "$tmp/${step}.body"`;
+  } else if (sourcePath.startsWith('header:')) {
+    const header = sourcePath.slice('header:'.length).toLowerCase();
+    command = `grep -i ${quoteSingle(`^${header}:`)} "$tmp/${step}.headers" | head -n1 | cut -d' ' -f2- | tr -d '\\r'`;
+  } else {
+    const cookie = sourcePath.slice('set-cookie:'.length);
+    command = `grep -i ${quoteSingle(`^set-cookie: ${cookie}=`)} "$tmp/${step}.headers" | head -n1 | sed -E 's/^[^=]*=([^;]*).*/\\1/' | tr -d '\\r'`;
+  }
+  return `${shellVar(variable.name)}="$(${command})"`;
+}
+
+/**
+ * Bash script that runs the steps in order with curl, saving each response
+ * and pulling the variables later steps need out of it with jq, grep and sed.
+ */
+export function toShellScript(plan: WorkflowPlan, description: string): string {
+  const lines = [
+    '#!/usr/bin/env bash',
+    `# Workflow: ${commentText(description)}`,
+    '# Requires curl (7.76+) and jq.',
+    'set -euo pipefail',
+    '',
+    'tmp="$(mktemp -d)"',
+    `trap 'rm -rf "$tmp"' EXIT`,
+  ];
+  plan.steps.forEach((step, i) => {
+    const n = i + 1;
+    lines.push(
+      '',
+      `# ${describeStep(step, i)}`,
+      toShellCurl(step.request, [
+        '-sS',
+        '--fail-with-body',
+        '-D',
+        `"$tmp/${n}.headers"`,
+        '-o',
+        `"$tmp/${n}.body"`,
+      ]),
+    );
+    for (const variable of plan.variables.filter((v) => v.fromStep === i)) {
+      lines.push(shellExtract(variable));
+    }
+  });
+  if (plan.steps.length > 0) lines.push('', `cat "$tmp/${plan.steps.length}.body"`);
+  return lines.join('\n') + '\n';
+}
+
+/** String literal for TypeScript: a template literal when it contains variables. */
+function tsString(text: string): string {
+  if (!/\{\{wf:/.test(text)) return quote(text);
+  const escaped = text.replace(/[\\`]/g, '\\$&').replace(/\$\{/g, '\\${');
+  return '`' + replaceMarkers(escaped, (name) => `\${${name}}`) + '`';
+}
+
+/** Keys of a JSONPath (`$.a[0]["b-c"]`) as TypeScript literals: `"a", 0, "b-c"`. */
+function tsJsonKeys(sourcePath: string): string {
+  const keys: string[] = [];
+  for (const m of sourcePath.slice(1).matchAll(/\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/g)) {
+    keys.push(m[1] != null ? quote(m[1]) : m[2] ?? m[3]!);
+  }
+  return keys.join(', ');
+}
+
+function tsExtract(variable: WorkflowVariable): string {
+  const n = variable.fromStep + 1;
+  const { sourcePath } = variable;
+  if (sourcePath.startsWith('$')) {
+    return `  const ${variable.name} = String(pick(body${n}, ${tsJsonKeys(sourcePath)}));`;
+  }
+  if (sourcePath.startsWith('header:')) {
+    const header = sourcePath.slice('header:'.length).toLowerCase();
+    return `  const ${variable.name} = res${n}.headers.get(${quote(header)}) ?? "";`;
+  }
+  const cookie = sourcePath.slice('set-cookie:'.length);
+  return `  const ${variable.name} = getSetCookie(res${n}, ${quote(cookie)});`;
+}
+
+/**
+ * TypeScript (Node 18+) script that runs the steps in order with fetch and
+ * passes values between them.
+ */
+export function toTypeScriptScript(plan: WorkflowPlan, description: string): string {
+  const needsCookieHelper = plan.variables.some((v) => v.sourcePath.startsWith('set-cookie:'));
+  const needsPickHelper = plan.variables.some((v) => v.sourcePath.startsWith('$'));
+  const lines = [
+    `// Workflow: ${commentText(description)}`,
+    '// Run with Node 18+, e.g. `npx tsx workflow.ts`.',
+  ];
+  if (needsPickHelper) {
+    lines.push(
+      '',
+      '/** The value at a path of keys in a parsed JSON body, or undefined when it is not there. */',
+      'function pick(value: unknown, ...keys: Array<string | number>): unknown {',
+      '  let current = value;',
+      '  for (const key of keys) {',
+      '    if (current == null || typeof current !== "object") return undefined;',
+      '    current = (current as Record<string | number, unknown>)[key];',
+      '  }',
+      '  return current;',
+      '}',
+    );
+  }
+  if (needsCookieHelper) {
+    lines.push(
+      '',
+      'function getSetCookie(res: Response, name: string): string {',
+      '  for (const header of res.headers.getSetCookie()) {',
+      '    const [pair] = header.split(";");',
+      '    const eq = pair.indexOf("=");',
+      '    if (pair.slice(0, eq).trim() === name) return pair.slice(eq + 1).trim();',
+      '  }',
+      '  return "";',
+      '}',
+    );
+  }
+  lines.push('', 'async function main(): Promise<void> {');
+
+  plan.steps.forEach((step, i) => {
+    const n = i + 1;
+    const req = step.request;
+    const options = [`    method: ${quote(req.method)},`];
+    if (req.headers.length) {
+      options.push('    headers: {');
+      for (const [name, value] of req.headers) {
+        options.push(`      ${quote(name)}: ${tsString(value)},`);
+      }
+      options.push('    },');
+    }
+    if (req.body) options.push(`    body: ${tsString(req.body.text)},`);
+
+    const produced = plan.variables.filter((v) => v.fromStep === i);
+    lines.push(
+      `${i === 0 ? '' : '\n'}  // ${describeStep(step, i)}`,
+      `  const res${n} = await fetch(${tsString(req.url)}, {`,
+      ...options,
+      '  });',
+      `  if (!res${n}.ok) throw new Error(\`Step ${n} failed: \${res${n}.status} \${await res${n}.text()}\`);`,
+    );
+    if (produced.some((v) => v.sourcePath.startsWith('$'))) {
+      lines.push(`  const body${n}: unknown = await res${n}.json();`);
+    }
+    for (const variable of produced) lines.push(tsExtract(variable));
+    if (i === plan.steps.length - 1) {
+      lines.push(
+        produced.some((v) => v.sourcePath.startsWith('$'))
+          ? `  console.log(JSON.stringify(body${n}, null, 2));`
+          : `  console.log(await res${n}.text());`,
+      );
+    }
+  });
+
+  lines.push('}', '', 'main().catch((err) => {', '  console.error(err);', '  process.exit(1);', '});');
+  return lines.join('\n') + '\n';
+}
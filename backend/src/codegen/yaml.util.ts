@@ -0,0 +1,56 @@
+const PLAIN_RE = /^[A-Za-z_/$][\w ./$@{}()-]*$/;
+const RESERVED_RE = /^(?:true|false|null|yes|no|on|off|y|n|~)$/i;
+
+/** A string as a YAML scalar: plain when unambiguous, else JSON-quoted (a valid YAML double-quoted string). */
+function scalar(value: string): string {
+  return PLAIN_RE.test(value) && !value.endsWith(' ') && !RESERVED_RE.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+function isCollection(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
+
+function isEmpty(value: object): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+function inline(value: unknown): string {
+  if (typeof value === 'string') return scalar(value);
+  if (value === undefined || value === null) return 'null';
+  if (isCollection(value)) return Array.isArray(value) ? '[]' : '{}';
+  return String(value);
+}
+
+/** Lines for a non-empty collection at indent 0. */
+function block(value: object): string[] {
+  const lines: string[] = [];
+  const nested = (v: object) => block(v).map((l) => `  ${l}`);
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isCollection(item) && !isEmpty(item)) {
+        const [first, ...rest] = Array.isArray(item) ? nested(item) : block(item);
+        lines.push(`- ${first!.trimStart()}`, ...rest.map((l) => (Array.isArray(item) ? l : `  ${l}`)));
+      } else {
+        lines.push(`- ${inline(item)}`);
+      }
+    }
+    return lines;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    if (v === undefined) continue;
+    if (isCollection(v) && !isEmpty(v)) {
+      lines.push(`${scalar(key)}:`, ...nested(v));
+    } else {
+      lines.push(`${scalar(key)}: ${inline(v)}`);
+    }
+  }
+  return lines;
+}
+
+/** Block-style YAML for JSON-compatible data; `undefined` properties are left out as in JSON. */
+export function toYaml(value: unknown): string {
+  if (!isCollection(value) || isEmpty(value)) return inline(value) + '\n';
+  return block(value).join('\n') + '\n';
+}
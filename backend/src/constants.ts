@@ -1,9 +1,36 @@
 export const MAX_BODY_SIZE_BYTES = 100 * 1024 * 1024; // 100 MB
+/** Uploaded .har files are parsed as a stream, so they may exceed the JSON body limit. */
+export const MAX_STREAMED_HAR_BYTES = 1024 * 1024 * 1024; // 1 GB
+/** Charles, Burp, mitmproxy and Postman uploads are read whole before they are converted. */
+export const MAX_IMPORTED_CAPTURE_BYTES = 256 * 1024 * 1024; // 256 MB
+/** Capture files one parse request may merge into a session; each has its own size limit. */
+export const MAX_UPLOAD_FILES = 20;
 
 export const OPENAI_MODEL = 'gpt-5-mini';
+export const ANTHROPIC_MODEL = 'claude-3-5-haiku-latest';
 export const MAX_PAYLOAD_CHARS = 100_000;
+export const MAX_MATCH_CANDIDATES = 5;
+/** Endpoint groups beyond this many are narrowed with the local BM25 ranker before prompting the LLM. */
+export const LEXICAL_PREFILTER_LIMIT = 40;
+/** Most requests a workflow match returns, including steps added because later ones need their output. */
+export const MAX_WORKFLOW_STEPS = 10;
 export const MAX_POSTDATA_CHARS = 4096;
+export const MAX_RESPONSE_BODY_CHARS = 64 * 1024;
+export const MAX_RESPONSE_EXCERPT_CHARS = 1024;
+/** Custom redaction patterns one match request may send, and the longest source accepted. */
+export const MAX_REDACT_PATTERNS = 20;
+export const MAX_REDACT_PATTERN_LENGTH = 200;
 export const DEFAULT_PORT = 3001;
+/** POST /extract-har/execute gives up on a request after this long. */
+export const EXECUTE_TIMEOUT_MS = 15_000;
+/** Replayed response bodies are cut at this size, after decompression. */
+export const MAX_EXECUTE_RESPONSE_BYTES = 5 * 1024 * 1024; // 5 MB
+/** Parsed sessions kept in memory for matching by id; parsing another drops the oldest. */
+export const MAX_PARSE_SESSIONS = 10;
+/** Mocks kept in memory at once; creating another drops the oldest. */
+export const MAX_MOCKS = 10;
+/** Unmatched requests remembered per mock for its report. */
+export const MAX_MOCK_UNMATCHED = 200;
 
 export const HTTP2_PSEUDO_HEADERS = new Set([
   ':authority',
@@ -28,3 +55,69 @@ export const CURL_DROP_HEADERS = new Set([
   'sec-fetch-site',
   'content-length',
 ]);
+
+/** Analytics, advertising and monitoring hosts dropped by the "api" filter profile. */
+export const TRACKER_DOMAINS = [
+  'google-analytics.com',
+  'analytics.google.com',
+  'googletagmanager.com',
+  'googleadservices.com',
+  'googlesyndication.com',
+  'doubleclick.net',
+  'facebook.net',
+  'connect.facebook.net',
+  'ads-twitter.com',
+  'analytics.tiktok.com',
+  'bat.bing.com',
+  'clarity.ms',
+  'segment.io',
+  'segment.com',
+  'mixpanel.com',
+  'amplitude.com',
+  'heapanalytics.com',
+  'hotjar.com',
+  'hotjar.io',
+  'fullstory.com',
+  'sentry.io',
+  'nr-data.net',
+  'newrelic.com',
+  'bugsnag.com',
+  'browser-intake-datadoghq.com',
+  'optimizely.com',
+  'scorecardresearch.com',
+  'quantserve.com',
+  'criteo.com',
+  'criteo.net',
+  'adnxs.com',
+  'taboola.com',
+  'outbrain.com',
+  'appsflyer.com',
+];
+
+/** Cookie names set by analytics, advertising and consent tools; replaying a request never needs them. */
+export const NON_ESSENTIAL_COOKIE_PATTERNS = [
+  /^_ga($|_)/,
+  /^_gid$/,
+  /^_gat/,
+  /^_gcl_/,
+  /^__utm/,
+  /^_fbp$/,
+  /^_fbc$/,
+  /^_hj/,
+  /^ajs_/,
+  /^amp_/,
+  /^mp_/,
+  /^_clck$/,
+  /^_clsk$/,
+  /^_uet(sid|vid)$/,
+  /^_tt_/,
+  /^_pin_unauth$/,
+  /^__hs/,
+  /^hubspotutk$/,
+  /^optimizely/,
+  /^OptanonConsent$/,
+  /^OptanonAlertBoxClosed$/,
+  /^CookieConsent$/,
+  /^cookieyes-consent$/,
+  /^euconsent/,
+];
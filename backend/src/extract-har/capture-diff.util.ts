@@ -0,0 +1,222 @@
+import { CURL_DROP_HEADERS } from '../constants';
+import { endpointKeyParts } from './endpoint-group.util';
+import type { ParseEntry } from './har.types';
+import { childPath } from './response-diff.util';
+import { inferEndpointSchema, type JsonSchema } from './schema.util';
+
+/** An endpoint only one capture has. */
+export interface CapturedEndpoint {
+  /** Origin and templated path, plus the GraphQL operation, e.g. `https://api.example.com/users/{id}`. */
+  endpoint: string;
+  methods: string[];
+  /** Indices of the endpoint's entries in the capture it appears in. */
+  entryIndices: number[];
+}
+
+export interface NameChanges {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * One structural difference between two body schemas. `type` changes list
+ * both types; `required` and `optional` mean a key became always or only
+ * sometimes present. Paths use `[*]` for array elements.
+ */
+export interface SchemaChange {
+  path: string;
+  kind: 'added' | 'removed' | 'type' | 'required' | 'optional';
+  before?: string;
+  after?: string;
+}
+
+/** An endpoint both captures have, and how its requests and bodies differ. */
+export interface EndpointChange {
+  endpoint: string;
+  /** Set when the endpoint is called with different methods. */
+  methods?: { before: string[]; after: string[] };
+  queryParams: NameChanges;
+  /** Request header names, ignoring ones browsers vary on their own. */
+  headers: NameChanges;
+  requestBody: SchemaChange[];
+  responseBody: SchemaChange[];
+  before: number[];
+  after: number[];
+}
+
+export interface CaptureDiff {
+  added: CapturedEndpoint[];
+  removed: CapturedEndpoint[];
+  changed: EndpointChange[];
+  /** Endpoints both captures have with nothing to report. */
+  unchanged: number;
+}
+
+/** Everything one capture shows about an endpoint, across methods. */
+interface EndpointSide {
+  endpoint: string;
+  methods: Set<string>;
+  queryParams: Set<string>;
+  headers: Set<string>;
+  entryIndices: number[];
+}
+
+/**
+ * Collect endpoints by origin, templated path and GraphQL operation. The
+ * method is left out so a call that switched methods still pairs up.
+ */
+function collectEndpoints(entries: ParseEntry[]): Map<string, EndpointSide> {
+  const endpoints = new Map<string, EndpointSide>();
+  entries.forEach((entry, index) => {
+    const parts = endpointKeyParts(entry);
+    const endpoint = `${parts.origin}${parts.pathTemplate}${parts.operation ? ` (${parts.operation})` : ''}`;
+    let side = endpoints.get(endpoint);
+    if (!side) {
+      side = { endpoint, methods: new Set(), queryParams: new Set(), headers: new Set(), entryIndices: [] };
+      endpoints.set(endpoint, side);
+    }
+    side.methods.add(parts.method);
+    for (const key of parts.queryKeys) side.queryParams.add(key);
+    for (const header of entry.headers ?? []) {
+      const name = header.name.toLowerCase();
+      if (!CURL_DROP_HEADERS.has(name)) side.headers.add(name);
+    }
+    side.entryIndices.push(index);
+  });
+  return endpoints;
+}
+
+function nameChanges(before: Set<string>, after: Set<string>): NameChanges {
+  return {
+    added: [...after].filter((name) => !before.has(name)).sort(),
+    removed: [...before].filter((name) => !after.has(name)).sort(),
+  };
+}
+
+function variants(schema: JsonSchema): JsonSchema[] {
+  return schema.anyOf ?? [schema];
+}
+
+/** `string`, `integer | null`, ...; formats and enums describe data rather than shape and are left out. */
+function typeLabel(schema: JsonSchema): string {
+  return variants(schema)
+    .map((v) => v.type ?? 'any')
+    .sort()
+    .join(' | ');
+}
+
+/**
+ * Walk two inferred schemas side by side. An empty schema (an array that was
+ * always empty) says nothing about the type, so it matches anything.
+ */
+function diffSchemas(before: JsonSchema, after: JsonSchema, path: string, out: SchemaChange[]): void {
+  if (Object.keys(before).length === 0 || Object.keys(after).length === 0) return;
+  const a = typeLabel(before);
+  const b = typeLabel(after);
+  if (a !== b) out.push({ path, kind: 'type', before: a, after: b });
+
+  const objectA = variants(before).find((v) => v.type === 'object');
+  const objectB = variants(after).find((v) => v.type === 'object');
+  if (objectA && objectB) {
+    const propsA = objectA.properties ?? {};
+    const propsB = objectB.properties ?? {};
+    const requiredA = new Set(objectA.required);
+    const requiredB = new Set(objectB.required);
+    const has = (props: Record<string, JsonSchema>, key: string) =>
+      Object.prototype.hasOwnProperty.call(props, key);
+    for (const [key, schema] of Object.entries(propsA)) {
+      const p = childPath(path, key);
+      if (!has(propsB, key)) {
+        out.push({ path: p, kind: 'removed', before: typeLabel(schema) });
+        continue;
+      }
+      if (requiredA.has(key) !== requiredB.has(key)) {
+        out.push({ path: p, kind: requiredB.has(key) ? 'required' : 'optional' });
+      }
+      diffSchemas(schema, propsB[key]!, p, out);
+    }
+    for (const [key, schema] of Object.entries(propsB)) {
+      if (!has(propsA, key)) out.push({ path: childPath(path, key), kind: 'added', after: typeLabel(schema) });
+    }
+  }
+
+  const arrayA = variants(before).find((v) => v.type === 'array');
+  const arrayB = variants(after).find((v) => v.type === 'array');
+  if (arrayA?.items && arrayB?.items) diffSchemas(arrayA.items, arrayB.items, `${path}[*]`, out);
+}
+
+/** Changes between two bodies' schemas; a body only one side has JSON for is one change at `$`. */
+function diffBodies(before: JsonSchema | undefined, after: JsonSchema | undefined): SchemaChange[] {
+  if (!before && !after) return [];
+  if (!before) return [{ path: '$', kind: 'added', after: typeLabel(after!) }];
+  if (!after) return [{ path: '$', kind: 'removed', before: typeLabel(before) }];
+  const out: SchemaChange[] = [];
+  diffSchemas(before, after, '$', out);
+  return out;
+}
+
+function compareEndpoint(
+  before: EndpointSide,
+  after: EndpointSide,
+  beforeEntries: ParseEntry[],
+  afterEntries: ParseEntry[],
+): EndpointChange | undefined {
+  // Schema inference only needs the samples; the type name is not used.
+  const label = { method: '', pathTemplate: '' };
+  const schemaA = inferEndpointSchema(beforeEntries, { ...label, entryIndices: before.entryIndices });
+  const schemaB = inferEndpointSchema(afterEntries, { ...label, entryIndices: after.entryIndices });
+  const methodsA = [...before.methods].sort();
+  const methodsB = [...after.methods].sort();
+  const change: EndpointChange = {
+    endpoint: before.endpoint,
+    ...(methodsA.join() !== methodsB.join() ? { methods: { before: methodsA, after: methodsB } } : {}),
+    queryParams: nameChanges(before.queryParams, after.queryParams),
+    headers: nameChanges(before.headers, after.headers),
+    requestBody: diffBodies(schemaA?.request, schemaB?.request),
+    responseBody: diffBodies(schemaA?.response, schemaB?.response),
+    before: before.entryIndices,
+    after: after.entryIndices,
+  };
+  const unchanged =
+    !change.methods &&
+    change.queryParams.added.length + change.queryParams.removed.length === 0 &&
+    change.headers.added.length + change.headers.removed.length === 0 &&
+    change.requestBody.length + change.responseBody.length === 0;
+  return unchanged ? undefined : change;
+}
+
+function toCapturedEndpoint(side: EndpointSide): CapturedEndpoint {
+  return { endpoint: side.endpoint, methods: [...side.methods].sort(), entryIndices: side.entryIndices };
+}
+
+/**
+ * Compare two parsed captures endpoint by endpoint: which endpoints appeared
+ * or disappeared, and for the ones both have, changes in methods, query
+ * parameter and request header names, and the request and response body
+ * schemas inferred from every sample. Endpoints are listed by name.
+ */
+export function diffCaptures(before: ParseEntry[], after: ParseEntry[]): CaptureDiff {
+  const endpointsA = collectEndpoints(before);
+  const endpointsB = collectEndpoints(after);
+  const byName = (x: { endpoint: string }, y: { endpoint: string }) =>
+    x.endpoint.localeCompare(y.endpoint);
+
+  const diff: CaptureDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  for (const [key, side] of endpointsA) {
+    const other = endpointsB.get(key);
+    if (!other) {
+      diff.removed.push(toCapturedEndpoint(side));
+      continue;
+    }
+    const change = compareEndpoint(side, other, before, after);
+    if (change) diff.changed.push(change);
+    else diff.unchanged++;
+  }
+  for (const [key, side] of endpointsB) {
+    if (!endpointsA.has(key)) diff.added.push(toCapturedEndpoint(side));
+  }
+  diff.added.sort(byName);
+  diff.removed.sort(byName);
+  diff.changed.sort(byName);
+  return diff;
+}
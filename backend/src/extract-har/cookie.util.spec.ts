@@ -0,0 +1,54 @@
+import { classifyCookie, CookieJar } from './cookie.util';
+import type { HarEntry } from './har.types';
+
+const entry = (url: string, cookie?: string, setCookie?: string): HarEntry => ({
+  startedDateTime: '2024-05-01T10:00:00Z',
+  request: {
+    method: 'GET',
+    url,
+    headers: cookie ? [{ name: 'Cookie', value: cookie }] : [],
+  },
+  response: {
+    status: 200,
+    headers: setCookie ? [{ name: 'Set-Cookie', value: setCookie }] : [],
+  },
+});
+
+describe('classifyCookie', () => {
+  it('flags analytics cookies as not needed', () => {
+    expect(classifyCookie('_ga', 'example.com').needed).toBe(false);
+  });
+
+  it('needs cookies an earlier response set', () => {
+    expect(classifyCookie('cart', 'shop.example.com')).toEqual({
+      needed: true,
+      reason: 'set by shop.example.com',
+    });
+  });
+
+  it('keeps session-looking cookies set before the capture', () => {
+    expect(classifyCookie('PHPSESSID').needed).toBe(true);
+  });
+
+  it('leaves off cookies no response set', () => {
+    expect(classifyCookie('theme')).toEqual({
+      needed: false,
+      reason: 'not set by any captured response',
+    });
+  });
+});
+
+describe('CookieJar', () => {
+  it('marks only cookies with provenance as needed', () => {
+    const jar = new CookieJar();
+    jar.record(entry('https://shop.example.com/login', undefined, 'cart=c1; Path=/'));
+    const cookies = jar.resolveRequestCookies(
+      entry('https://shop.example.com/checkout', 'cart=c1; theme=dark; _ga=GA1.1'),
+    );
+    expect(cookies.map((c) => [c.name, c.needed])).toEqual([
+      ['cart', true],
+      ['theme', false],
+      ['_ga', false],
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+import { NON_ESSENTIAL_COOKIE_PATTERNS } from '../constants';
+import type {
+  HarCookie,
+  HarEntry,
+  HarHeader,
+  HarRequest,
+  HarResponse,
+  RequestCookie,
+} from './har.types';
+
+const SESSION_COOKIE_RE = /sess|sid|auth|token|csrf|xsrf|jwt|login/i;
+
+/** A cookie as stored by the jar, with its scope resolved against the URL that set it. */
+interface JarCookie {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  /** Epoch ms; absent for session cookies. */
+  expiresAt?: number;
+  /** Host of the response that set it. */
+  setBy: string;
+}
+
+function headerValues(headers: HarHeader[] | undefined, name: string): string[] {
+  return (headers ?? [])
+    .filter((h) => h.name.toLowerCase() === name)
+    .map((h) => h.value);
+}
+
+/** Parse a `Cookie` request header into name/value pairs. */
+export function parseCookieHeader(value: string): Array<{ name: string; value: string }> {
+  const cookies: Array<{ name: string; value: string }> = [];
+  for (const pair of value.split(';')) {
+    const eq = pair.indexOf('=');
+    if (eq === -1) continue;
+    const name = pair.slice(0, eq).trim();
+    if (name) cookies.push({ name, value: pair.slice(eq + 1).trim() });
+  }
+  return cookies;
+}
+
+/** Parse one `Set-Cookie` header value into HAR cookie form; `Max-Age` becomes `expires` relative to `at` (epoch ms). */
+export function parseSetCookie(header: string, at: number = Date.now()): HarCookie | null {
+  const [pair, ...attrs] = header.split(';');
+  const eq = pair?.indexOf('=') ?? -1;
+  if (!pair || eq <= 0) return null;
+  const cookie: HarCookie = {
+    name: pair.slice(0, eq).trim(),
+    value: pair.slice(eq + 1).trim(),
+  };
+  for (const attr of attrs) {
+    const i = attr.indexOf('=');
+    const key = (i === -1 ? attr : attr.slice(0, i)).trim().toLowerCase();
+    const value = i === -1 ? '' : attr.slice(i + 1).trim();
+    if (key === 'domain') cookie.domain = value;
+    else if (key === 'path') cookie.path = value;
+    else if (key === 'expires') cookie.expires = value;
+    else if (key === 'max-age') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds)) {
+        cookie.expires = new Date(at + seconds * 1000).toISOString();
+      }
+    } else if (key === 'httponly') cookie.httpOnly = true;
+    else if (key === 'secure') cookie.secure = true;
+    else if (key === 'samesite') cookie.sameSite = value;
+  }
+  return cookie;
+}
+
+/** Cookies a request was captured with: the HAR `cookies` array, else its `Cookie` headers. */
+export function requestCookies(request: HarRequest): Array<{ name: string; value: string }> {
+  if (Array.isArray(request.cookies) && request.cookies.length > 0) {
+    return request.cookies.map((c) => ({ name: c.name, value: c.value }));
+  }
+  return headerValues(request.headers, 'cookie').flatMap(parseCookieHeader);
+}
+
+/** Cookies a response sets: the HAR `cookies` array, else its `Set-Cookie` headers (which some tools join with newlines). */
+export function responseCookies(response: HarResponse, at?: number): HarCookie[] {
+  if (Array.isArray(response.cookies) && response.cookies.length > 0) {
+    return response.cookies;
+  }
+  return headerValues(response.headers, 'set-cookie')
+    .flatMap((v) => v.split('\n'))
+    .map((v) => parseSetCookie(v, at))
+    .filter((c): c is HarCookie => c != null);
+}
+
+/**
+ * Decide whether replaying a request needs this cookie, from the jar's
+ * provenance: a cookie an earlier response in the capture set is needed, and
+ * so is a session-looking one that was set before the capture started.
+ * Anything else never came from the server in this session (page scripts,
+ * preferences) and is left off.
+ */
+export function classifyCookie(
+  name: string,
+  setBy?: string,
+): Pick<RequestCookie, 'needed' | 'reason'> {
+  if (NON_ESSENTIAL_COOKIE_PATTERNS.some((re) => re.test(name))) {
+    return { needed: false, reason: 'analytics or consent cookie' };
+  }
+  if (setBy) return { needed: true, reason: `set by ${setBy}` };
+  if (SESSION_COOKIE_RE.test(name)) {
+    return { needed: true, reason: 'session or auth cookie set before the capture' };
+  }
+  return { needed: false, reason: 'not set by any captured response' };
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+/** RFC 6265 default-path: the request path up to, not including, its last `/`. */
+function defaultPath(pathname: string): string {
+  const last = pathname.lastIndexOf('/');
+  return last <= 0 ? '/' : pathname.slice(0, last);
+}
+
+function pathMatches(cookiePath: string, requestPath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+/** Epoch ms of a HAR/HTTP date, or undefined when absent or unparseable. */
+export function parseTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+/**
+ * Cookie jar replayed over the capture in order. Follows RFC 6265 domain,
+ * path, secure and expiry matching; time is the HAR entry's
+ * `startedDateTime`, so expiry checks are skipped for entries without one.
+ */
+export class CookieJar {
+  private readonly cookies = new Map<string, JarCookie>();
+
+  /** Store the cookies a response set; expired ones (e.g. `Max-Age=0`) delete their earlier value. */
+  setFromResponse(url: string, cookies: HarCookie[], at?: number): void {
+    const u = parseUrl(url);
+    if (!u) return;
+    const host = u.hostname.toLowerCase();
+    for (const c of cookies) {
+      const domainAttr = c.domain?.replace(/^\./, '').toLowerCase();
+      if (domainAttr && host !== domainAttr && !host.endsWith('.' + domainAttr)) {
+        continue;
+      }
+      const path = c.path?.startsWith('/') ? c.path : defaultPath(u.pathname);
+      const domain = domainAttr || host;
+      const key = `${domain};${path};${c.name}`;
+
+      const expiresAt = parseTime(c.expires ?? undefined);
+      if (expiresAt != null && at != null && expiresAt <= at) {
+        this.cookies.delete(key);
+        continue;
+      }
+      this.cookies.set(key, {
+        name: c.name,
+        value: c.value,
+        domain,
+        hostOnly: !domainAttr,
+        path,
+        secure: !!c.secure,
+        expiresAt,
+        setBy: host,
+      });
+    }
+  }
+
+  /** Cookies that would be sent to this URL at this time, longest path first. */
+  cookiesFor(url: string, at?: number): JarCookie[] {
+    const u = parseUrl(url);
+    if (!u) return [];
+    const host = u.hostname.toLowerCase();
+    return [...this.cookies.values()]
+      .filter(
+        (c) =>
+          (c.hostOnly
+            ? host === c.domain
+            : host === c.domain || host.endsWith('.' + c.domain)) &&
+          pathMatches(c.path, u.pathname) &&
+          (!c.secure || u.protocol === 'https:') &&
+          (c.expiresAt == null || at == null || c.expiresAt > at),
+      )
+      .sort((a, b) => b.path.length - a.path.length);
+  }
+
+  /**
+   * The cookies in effect for an entry's request: those it was captured with,
+   * plus jar cookies the capture is missing (sanitized HAR exports drop them).
+   */
+  resolveRequestCookies(entry: HarEntry): RequestCookie[] {
+    const at = parseTime(entry.startedDateTime);
+    const fromJar = this.cookiesFor(entry.request.url, at);
+    const captured = requestCookies(entry.request);
+    const out: RequestCookie[] = captured.map((c) => ({
+      ...c,
+      source: 'request',
+      ...classifyCookie(c.name, fromJar.find((j) => j.name === c.name)?.setBy),
+    }));
+    for (const j of fromJar) {
+      if (out.some((c) => c.name === j.name)) continue;
+      out.push({
+        name: j.name,
+        value: j.value,
+        source: 'jar',
+        ...classifyCookie(j.name, j.setBy),
+      });
+    }
+    return out;
+  }
+
+  /** Advance the jar past an entry: apply the cookies its response set. */
+  record(entry: HarEntry): void {
+    const at = parseTime(entry.startedDateTime);
+    const cookies = entry.response ? responseCookies(entry.response, at) : [];
+    if (cookies.length === 0) return;
+    this.setFromResponse(entry.request.url, cookies, at);
+  }
+}
@@ -0,0 +1,38 @@
+import { classifyPathSegment, templatePath } from './endpoint-group.util';
+
+describe('classifyPathSegment', () => {
+  it.each([
+    ['12345', 'id'],
+    ['3f2504e0-4f89-11d3-9a0c-0305e82c3301', 'uuid'],
+    ['2024-05-01', 'date'],
+    ['9f86d081884c7d65', 'hash'],
+    ['a1b2c3d4e5f6', 'id'],
+    ['k3j45hg6f7d8x9', 'id'],
+    ['dQw4w9WgXcQpLm', 'id'],
+    ['cus_9s6XKzkNRiz8i3', 'id'],
+    ['ord-a1b2c3d4e5', 'id'],
+  ])('templates %s as {%s}', (segment, name) => {
+    expect(classifyPathSegment(segment)).toBe(name);
+  });
+
+  it.each([
+    'oauth2-callback',
+    'v2-user-settings',
+    'oauth2callback',
+    'iphone15promax',
+    'getUser2Profile',
+    'top-10-restaurants-2024',
+    'user_settings_v2',
+    'checkout',
+  ])('keeps the slug %s literal', (segment) => {
+    expect(classifyPathSegment(segment)).toBeNull();
+  });
+});
+
+describe('templatePath', () => {
+  it('numbers repeated placeholders and keeps slugs', () => {
+    expect(templatePath('/api/v2/users/42/oauth2-callback/orders/7')).toBe(
+      '/api/v2/users/{id}/oauth2-callback/orders/{id2}',
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { formatGraphqlOperation } from './graphql.util';
+import type { RequestSummary } from './har.types';
+import type { EndpointSchema } from './schema.util';
+
+export interface EndpointGroup {
+  /** Grouping key: method, origin, templated path and sorted query keys. */
+  key: string;
+  method: string;
+  origin: string;
+  /** Path with ID-like segments replaced, e.g. `/users/{id}`. */
+  pathTemplate: string;
+  queryKeys: string[];
+  /** GraphQL operation label (e.g. `mutation CreateUser`); each operation is its own group. */
+  operation?: string;
+  /** Indices into the entry list of every concrete request in this group. */
+  entryIndices: number[];
+  /** Body types inferred from every sample in the group; set on parse responses. */
+  schema?: EndpointSchema;
+}
+
+const UUID_RE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const NUMERIC_RE = /^\d+$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const HEX_HASH_RE = /^[0-9a-f]{16,}$/i;
+const ALNUM_RE = /^[a-z0-9]+$/i;
+/** Share of digits that makes a lowercase letters-and-digits token look generated rather than a word. */
+const MIN_ID_DIGIT_RATIO = 0.2;
+
+/**
+ * Generated token such as `a1b2c3d4e5f6` or `9s6XKzkNRiz8i3`: letters and
+ * digits only, with enough digits or both letter cases plus a few digits.
+ * Words with a version number in them (`oauth2callback`) fall short.
+ */
+function isOpaqueToken(token: string, minLength: number): boolean {
+  if (token.length < minLength || !ALNUM_RE.test(token) || !/[a-z]/i.test(token)) return false;
+  const digits = token.replace(/\D/g, '').length;
+  if (digits / token.length >= MIN_ID_DIGIT_RATIO) return true;
+  return digits >= 2 && /[a-z]/.test(token) && /[A-Z]/.test(token);
+}
+
+/**
+ * Letters-and-digits ID, alone or after a short prefix (`cus_9s6XKzkNRiz8i3`,
+ * `ord-a1b2c3d4e5`). Slugs such as `oauth2-callback` or `v2-user-settings`
+ * are separated words, none of which looks generated.
+ */
+function isMixedId(segment: string): boolean {
+  if (isOpaqueToken(segment, 12)) return true;
+  const match = /^[a-z]{1,8}[_-]([a-z0-9]+)$/i.exec(segment);
+  return match != null && isOpaqueToken(match[1]!, 10);
+}
+
+/** Placeholder name for an ID-like path segment, or null for a literal segment. */
+export function classifyPathSegment(segment: string): string | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    decoded = segment;
+  }
+  if (UUID_RE.test(decoded)) return 'uuid';
+  if (NUMERIC_RE.test(decoded)) return 'id';
+  if (DATE_RE.test(decoded)) return 'date';
+  if (HEX_HASH_RE.test(decoded)) return 'hash';
+  if (isMixedId(decoded)) return 'id';
+  return null;
+}
+
+/** Replace ID-like segments with `{name}` placeholders, numbering repeats (`{id}`, `{id2}`). */
+export function templatePath(pathname: string): string {
+  const used = new Map<string, number>();
+  return pathname
+    .split('/')
+    .map((segment) => {
+      if (!segment) return segment;
+      const name = classifyPathSegment(segment);
+      if (!name) return segment;
+      const n = (used.get(name) ?? 0) + 1;
+      used.set(name, n);
+      return `{${n === 1 ? name : name + n}}`;
+    })
+    .join('/');
+}
+
+type GroupableRequest = Pick<RequestSummary, 'method' | 'url' | 'graphql'>;
+
+export function endpointKeyParts(
+  request: GroupableRequest,
+): Omit<EndpointGroup, 'key' | 'entryIndices'> {
+  const method = request.method.toUpperCase();
+  const operation = request.graphql
+    ? { operation: formatGraphqlOperation(request.graphql) }
+    : {};
+  try {
+    const url = new URL(request.url);
+    // GraphQL GETs put the operation in the query string; it is already part of the key.
+    const queryKeys = request.graphql
+      ? []
+      : [...new Set(url.searchParams.keys())].sort();
+    return {
+      method,
+      origin: url.origin,
+      pathTemplate: templatePath(url.pathname),
+      queryKeys,
+      ...operation,
+    };
+  } catch {
+    return { method, origin: '', pathTemplate: request.url, queryKeys: [], ...operation };
+  }
+}
+
+/** Display form of a group, e.g. `GET /users/{id}?page` or `POST /graphql (query GetUser)`. */
+export function formatEndpoint(
+  group: Pick<EndpointGroup, 'method' | 'pathTemplate' | 'queryKeys' | 'operation'>,
+): string {
+  const query = group.queryKeys.length ? '?' + group.queryKeys.join('&') : '';
+  const operation = group.operation ? ` (${group.operation})` : '';
+  return `${group.method} ${group.pathTemplate}${query}${operation}`;
+}
+
+/** Group entries whose method, origin, templated path, query keys and GraphQL operation agree. Groups keep first-seen order. */
+export function groupByEndpoint(entries: GroupableRequest[]): EndpointGroup[] {
+  const groups = new Map<string, EndpointGroup>();
+  entries.forEach((entry, index) => {
+    const parts = endpointKeyParts(entry);
+    let key = `${parts.method} ${parts.origin}${parts.pathTemplate}?${parts.queryKeys.join('&')}`;
+    if (parts.operation) key += ` #${parts.operation}`;
+    const existing = groups.get(key);
+    if (existing) {
+      existing.entryIndices.push(index);
+    } else {
+      groups.set(key, { key, ...parts, entryIndices: [index] });
+    }
+  });
+  return [...groups.values()];
+}
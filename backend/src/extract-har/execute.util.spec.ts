@@ -0,0 +1,79 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { MAX_EXECUTE_RESPONSE_BYTES } from '../constants';
+import { executeEntry, isPrivateAddress } from './execute.util';
+
+describe('isPrivateAddress', () => {
+  it.each(['127.0.0.1', '10.1.2.3', '169.254.169.254', '192.168.0.10', '0.0.0.0'])(
+    'blocks IPv4 %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    },
+  );
+
+  it.each(['::', '::1', 'fd00::1', 'fe80::1%eth0', 'ff02::1', '[::1]'])('blocks IPv6 %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    '::ffff:a9fe:a9fe',
+    '0:0:0:0:0:ffff:a00:1',
+    '::7f00:1',
+    '64:ff9b::127.0.0.1',
+    '64:ff9b::a9fe:a9fe',
+    '64:ff9b:0:0:0:0:c0a8:1',
+    '64:ff9b:1::808:808',
+  ])('blocks the embedded IPv4 address of %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it('reads the URL-normalised form of a mapped address', () => {
+    expect(isPrivateAddress(new URL('http://[::ffff:127.0.0.1]/').hostname)).toBe(true);
+  });
+
+  it.each(['93.184.215.14', '2606:4700::6810:84e5', '::ffff:5db8:d70e', '64:ff9b::8.8.8.8'])(
+    'allows public %s',
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    },
+  );
+
+  it('treats anything that is not an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('executeEntry', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    // Twice the cap, so the download is cut part way.
+    const chunk = Buffer.alloc(64 * 1024, 'a');
+    server = createServer((_, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      const write = (left: number): void => {
+        if (left === 0) return void res.end();
+        if (res.write(chunk)) write(left - 1);
+        else res.once('drain', () => write(left - 1));
+      };
+      write((2 * MAX_EXECUTE_RESPONSE_BYTES) / chunk.length);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/big`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('reports the size of the truncated body', async () => {
+    const result = await executeEntry(
+      { method: 'GET', url, headers: [] },
+      { allowedHosts: [], allowPrivateNetworks: true },
+    );
+    expect(result.bodyTruncated).toBe(true);
+    expect(result.body).toHaveLength(MAX_EXECUTE_RESPONSE_BYTES);
+    expect(result.bodySize).toBe(MAX_EXECUTE_RESPONSE_BYTES);
+  });
+});
@@ -0,0 +1,344 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ForbiddenException,
+  GatewayTimeoutException,
+} from '@nestjs/common';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { performance } from 'node:perf_hooks';
+import { Readable } from 'node:stream';
+import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib';
+import {
+  EXECUTE_TIMEOUT_MS,
+  HTTP2_PSEUDO_HEADERS,
+  MAX_EXECUTE_RESPONSE_BYTES,
+} from '../constants';
+import type { HarTimings, RequestSummary } from './har.types';
+
+/** Who the execute proxy may call; read from the environment on each request. */
+export interface ExecuteConfig {
+  /** Hostnames (`api.example.com`) or subdomain wildcards (`*.example.com`); empty allows any public host. */
+  allowedHosts: string[];
+  /** Allow loopback, private, link-local and other non-public addresses. */
+  allowPrivateNetworks: boolean;
+}
+
+export interface ExecuteResult {
+  status: number;
+  statusText: string;
+  /** Lowercased names; repeated headers joined with `, ` (`set-cookie` with newlines). */
+  headers: Record<string, string>;
+  /** Decoded body as UTF-8, cut to MAX_EXECUTE_RESPONSE_BYTES. */
+  body: string;
+  /** Size in bytes of the decoded body returned; at most MAX_EXECUTE_RESPONSE_BYTES when truncated. */
+  bodySize: number;
+  bodyTruncated: boolean;
+  /** Total elapsed time in ms. */
+  time: number;
+  timings: HarTimings;
+}
+
+/** Headers the proxy sets itself or that only make sense hop-by-hop. */
+const DROPPED_HEADERS = new Set([
+  'host',
+  'connection',
+  'keep-alive',
+  'content-length',
+  'transfer-encoding',
+  'accept-encoding',
+  'upgrade',
+  'proxy-connection',
+  'te',
+  'trailer',
+]);
+
+export function loadExecuteConfig(env: NodeJS.ProcessEnv = process.env): ExecuteConfig {
+  return {
+    allowedHosts: (env.EXECUTE_ALLOWED_HOSTS ?? '')
+      .split(',')
+      .map((h) => h.trim().toLowerCase())
+      .filter(Boolean),
+    allowPrivateNetworks: env.EXECUTE_ALLOW_PRIVATE_NETWORKS === 'true',
+  };
+}
+
+export function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  if (allowedHosts.length === 0) return true;
+  const h = host.toLowerCase().replace(/\.$/, '');
+  return allowedHosts.some((pattern) =>
+    pattern.startsWith('*.') ? h.endsWith(pattern.slice(1)) : h === pattern,
+  );
+}
+
+function ipv4ToInt(address: string): number {
+  return address.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+/** IPv4 ranges that are not publicly routable, as [network, prefix length]. */
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+/** IPv6 ranges that are not publicly routable: IPv4-compatible and unspecified, local-use NAT64, unique local, link-local and multicast. */
+const PRIVATE_IPV6_RANGES: Array<[string, number]> = [
+  ['::', 96],
+  ['64:ff9b:1::', 48],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+/** Checks IPv4-mapped addresses (`::ffff:7f00:1`, `::ffff:127.0.0.1`) against the IPv4 ranges itself. */
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, bits] of PRIVATE_IPV4_RANGES) PRIVATE_NETWORKS.addSubnet(network, bits, 'ipv4');
+for (const [network, bits] of PRIVATE_IPV6_RANGES) PRIVATE_NETWORKS.addSubnet(network, bits, 'ipv6');
+
+/** The eight 16-bit groups of an IPv6 address; a dotted IPv4 tail counts as the last two. */
+function ipv6Groups(address: string): number[] {
+  let text = address;
+  const dotted = text.match(/\d+\.\d+\.\d+\.\d+$/)?.[0];
+  if (dotted) {
+    const n = ipv4ToInt(dotted);
+    text = `${text.slice(0, -dotted.length)}${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+  const groups = (part: string | undefined) => (part ? part.split(':').map((g) => parseInt(g, 16)) : []);
+  const [head, tail] = text.split('::');
+  if (tail === undefined) return groups(head);
+  const left = groups(head);
+  const right = groups(tail);
+  return [...left, ...new Array<number>(8 - left.length - right.length).fill(0), ...right];
+}
+
+/**
+ * Whether an address is loopback, private, link-local, reserved or multicast
+ * (IPv4 or IPv6). IPv4-mapped and NAT64 (`64:ff9b::/96`) addresses are judged
+ * by the IPv4 address they carry, whether written in hex or dotted; anything
+ * that is not an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const a = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  const family = isIP(a);
+  if (family === 4) return PRIVATE_NETWORKS.check(a, 'ipv4');
+  if (family !== 6) return true;
+  const groups = ipv6Groups(a);
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    const [high, low] = [groups[6]!, groups[7]!];
+    return PRIVATE_NETWORKS.check(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`, 'ipv4');
+  }
+  return PRIVATE_NETWORKS.check(a, 'ipv6');
+}
+
+/**
+ * Check the URL against the config and resolve it once. The request then
+ * connects to the address that was checked, so a second DNS answer cannot
+ * point it somewhere else.
+ */
+async function resolveTarget(
+  url: URL,
+  config: ExecuteConfig,
+): Promise<{ address: string; family: number }> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BadRequestException('Only http and https URLs can be executed');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (!isHostAllowed(host, config.allowedHosts)) {
+    throw new ForbiddenException(`Host ${host} is not in EXECUTE_ALLOWED_HOSTS`);
+  }
+  let addresses: Array<{ address: string; family: number }>;
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    throw new BadGatewayException(`Could not resolve ${host}`);
+  }
+  if (!config.allowPrivateNetworks && addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new ForbiddenException(
+      `${host} resolves to a private or loopback address; set EXECUTE_ALLOW_PRIVATE_NETWORKS=true to allow it`,
+    );
+  }
+  return addresses[0]!;
+}
+
+/** Headers to send: the captured ones minus hop-by-hop headers, with cookies narrowed to the needed ones. */
+function outgoingHeaders(entry: RequestSummary): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const h of entry.headers ?? []) {
+    const name = h.name.toLowerCase();
+    if (HTTP2_PSEUDO_HEADERS.has(name) || DROPPED_HEADERS.has(name)) continue;
+    if (name === 'cookie' && entry.cookies) continue;
+    headers[name] = headers[name] != null
+      ? headers[name] + (name === 'cookie' ? '; ' : ', ') + h.value
+      : h.value;
+  }
+  const needed = (entry.cookies ?? []).filter((c) => c.needed);
+  if (needed.length > 0) headers.cookie = needed.map((c) => `${c.name}=${c.value}`).join('; ');
+  headers['accept-encoding'] = 'gzip, deflate, br';
+  return headers;
+}
+
+function responseHeaders(res: IncomingMessage): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (let i = 0; i < res.rawHeaders.length; i += 2) {
+    const name = res.rawHeaders[i]!.toLowerCase();
+    const value = res.rawHeaders[i + 1]!;
+    out[name] = out[name] != null ? out[name] + (name === 'set-cookie' ? '\n' : ', ') + value : value;
+  }
+  return out;
+}
+
+function decodedBody(res: IncomingMessage): Readable {
+  switch ((res.headers['content-encoding'] ?? '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return res.pipe(createGunzip());
+    case 'deflate':
+      return res.pipe(createInflate());
+    case 'br':
+      return res.pipe(createBrotliDecompress());
+    default:
+      return res;
+  }
+}
+
+const elapsed = (from: number, to: number) => Math.max(0, Math.round(to - from));
+
+/**
+ * Replay a request from the server. Redirects are returned, not followed, so
+ * every host contacted goes through the same checks. The response body is
+ * cut at MAX_EXECUTE_RESPONSE_BYTES after decompression and the whole
+ * exchange is abandoned after EXECUTE_TIMEOUT_MS.
+ */
+export async function executeEntry(
+  entry: RequestSummary,
+  config: ExecuteConfig = loadExecuteConfig(),
+): Promise<ExecuteResult> {
+  let url: URL;
+  try {
+    url = new URL(entry.url);
+  } catch {
+    throw new BadRequestException('entry.url must be an absolute URL');
+  }
+  const start = performance.now();
+  const target = await resolveTarget(url, config);
+  const resolved = performance.now();
+
+  const method = entry.method.toUpperCase();
+  const body =
+    entry.postData?.text != null && method !== 'GET' && method !== 'HEAD'
+      ? Buffer.from(entry.postData.text)
+      : undefined;
+  const headers = outgoingHeaders(entry);
+  if (body) {
+    headers['content-length'] = String(body.length);
+    if (!headers['content-type'] && entry.postData?.mimeType) {
+      headers['content-type'] = entry.postData.mimeType;
+    }
+  }
+
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      (callback as (err: null, addresses: Array<{ address: string; family: number }>) => void)(
+        null,
+        [target],
+      );
+    } else {
+      callback(null, target.address, target.family);
+    }
+  };
+
+  return new Promise<ExecuteResult>((resolve, reject) => {
+    let connected = resolved;
+    let secured: number | undefined;
+    let sent = resolved;
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const req = send(url, { method, headers, lookup: pinnedLookup, servername: url.hostname });
+
+    const timer = setTimeout(() => {
+      req.destroy(new GatewayTimeoutException(`No complete response within ${EXECUTE_TIMEOUT_MS} ms`));
+    }, EXECUTE_TIMEOUT_MS);
+    const fail = (err: Error) => {
+      clearTimeout(timer);
+      reject(
+        err instanceof GatewayTimeoutException
+          ? err
+          : new BadGatewayException(`Request failed: ${err.message}`),
+      );
+    };
+
+    req.on('socket', (socket) => {
+      socket.once('connect', () => (connected = performance.now()));
+      socket.once('secureConnect', () => (secured = performance.now()));
+    });
+    req.on('finish', () => (sent = performance.now()));
+    req.on('error', fail);
+    req.on('response', (res) => {
+      const firstByte = performance.now();
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let truncated = false;
+      const stream = decodedBody(res);
+
+      const finish = () => {
+        clearTimeout(timer);
+        const end = performance.now();
+        const text = Buffer.concat(chunks).toString('utf8');
+        resolve({
+          status: res.statusCode ?? 0,
+          statusText: res.statusMessage ?? '',
+          headers: responseHeaders(res),
+          body: text,
+          bodySize: size,
+          bodyTruncated: truncated,
+          time: elapsed(start, end),
+          timings: {
+            dns: elapsed(start, resolved),
+            connect: elapsed(resolved, connected),
+            ssl: secured != null ? elapsed(connected, secured) : -1,
+            send: elapsed(secured ?? connected, sent),
+            wait: elapsed(sent, firstByte),
+            receive: elapsed(firstByte, end),
+          },
+        });
+      };
+
+      stream.on('data', (chunk: Buffer) => {
+        if (truncated) return;
+        const room = MAX_EXECUTE_RESPONSE_BYTES - size;
+        if (chunk.length > room) {
+          chunks.push(chunk.subarray(0, room));
+          size += room;
+          truncated = true;
+          // Stop downloading; what was read so far is returned.
+          res.destroy();
+          finish();
+        } else {
+          chunks.push(chunk);
+          size += chunk.length;
+        }
+      });
+      stream.on('end', () => {
+        if (!truncated) finish();
+      });
+      stream.on('error', (err) => {
+        if (!truncated) fail(err);
+      });
+    });
+
+    req.end(body);
+  });
+}
@@ -1,16 +1,26 @@
 import {
   BadRequestException,
   Controller,
-  PayloadTooLargeException,
+  HttpException,
   Post,
   Req,
   Res,
   UnsupportedMediaTypeException,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
-import { MAX_BODY_SIZE_BYTES } from '../constants';
-import { ExtractHarService } from './extract-har.service';
-import type { HarRoot, RequestSummary } from './har.types';
+import type { CaptureSource } from '../capture-import/capture-import.types';
+import { mergeCaptureSources } from '../capture-import/capture-import.util';
+import { importCurl } from '../capture-import/curl.importer';
+import { parseCodegenTargets } from '../codegen/code-generators';
+import { diffCaptures } from './capture-diff.util';
+import { executeEntry } from './execute.util';
+import { ExtractHarService, type ParseHarResponse } from './extract-har.service';
+import type { StreamedHarFile } from './har-stream.storage';
+import { ParseEntryCollector } from './har-filter.util';
+import type { HarRoot, ParseEntry, RequestSummary } from './har.types';
+import { parseFilterOptions } from './noise-filter.util';
+import { parseRedactPatterns } from './redaction.util';
+import { diffResponses, type RecordedResponse } from './response-diff.util';
 
 @Controller()
 export class ExtractHarController {
@@ -19,18 +29,29 @@ export class ExtractHarController {
   @Post('extract-har/parse')
   async parseHar(@Req() req: Request, @Res() res: Response): Promise<void> {
     const contentType = req.headers['content-type'] ?? '';
-    let harRoot: HarRoot;
-    if (contentType.includes('application/json')) {
-      harRoot = await this.parseJsonBody(req, res);
+    let result: ParseHarResponse;
+    if (contentType.includes('application/json') && this.hasCurlField(req)) {
+      const body = (req as Request & { body: Record<string, unknown> }).body;
+      if (typeof body.curl !== 'string') {
+        throw new BadRequestException('body.curl must be a string of curl commands');
+      }
+      const filter = parseFilterOptions({ profile: body.profile, rules: body.rules });
+      const { source, entries } = importCurl(body.curl);
+      result = this.extractHarService.parseHar({ entries }, filter, source);
+    } else if (contentType.includes('application/json')) {
+      const harRoot = await this.parseJsonBody(req, res);
+      this.validateHar(harRoot);
+      const body = (req as Request & { body: Record<string, unknown> }).body;
+      const filter = parseFilterOptions({ profile: body.profile, rules: body.rules });
+      result = this.extractHarService.parseHar(harRoot.log, filter);
     } else if (contentType.includes('multipart/form-data')) {
-      harRoot = await this.parseMultipartBody(req, res);
+      const { collector, source } = await this.parseMultipartBody(req, res);
+      result = this.extractHarService.toParseResponse(collector, source);
     } else {
       throw new UnsupportedMediaTypeException(
         'Content-Type must be application/json or multipart/form-data',
       );
     }
-    this.validateHar(harRoot);
-    const result = this.extractHarService.parseHar(harRoot.log);
     res.setHeader('Content-Type', 'application/json');
     res.status(200).json(result);
   }
@@ -43,19 +64,147 @@ export class ExtractHarController {
     }
     const obj = body as Record<string, unknown>;
     const description = obj.description;
-    const entries = obj.entries;
     if (typeof description !== 'string' || !description.trim()) {
       throw new BadRequestException('body.description is required and must be a non-empty string');
     }
-    if (!Array.isArray(entries)) {
-      throw new BadRequestException('body.entries must be an array of request summaries');
+    let entries: unknown = obj.entries;
+    if (obj.sessionId != null) {
+      if (typeof obj.sessionId !== 'string') {
+        throw new BadRequestException('body.sessionId must be a string');
+      }
+      entries = this.extractHarService.sessionEntries(obj.sessionId);
+    } else if (!Array.isArray(entries)) {
+      throw new BadRequestException(
+        'body.sessionId or body.entries (an array of request summaries) is required',
+      );
+    }
+    const mode = obj.mode ?? 'single';
+    if (mode !== 'single' && mode !== 'workflow') {
+      throw new BadRequestException('body.mode must be "single" or "workflow"');
     }
     const summaries = entries as RequestSummary[];
-    const result = await this.extractHarService.matchAndCurl(description.trim(), summaries);
+    const redactPatterns = parseRedactPatterns(obj.redactPatterns);
+    const targets = parseCodegenTargets(obj.targets);
+    const result =
+      mode === 'workflow'
+        ? await this.extractHarService.matchWorkflow(description.trim(), summaries, {
+            redactPatterns,
+          })
+        : await this.extractHarService.matchAndCurl(description.trim(), summaries, {
+            redactPatterns,
+            targets,
+          });
+    res.setHeader('Content-Type', 'application/json');
+    res.status(200).json(result);
+  }
+
+  @Post('extract-har/openapi')
+  async exportOpenApi(@Req() req: Request, @Res() res: Response): Promise<void> {
+    const body = (req as Request & { body?: unknown }).body;
+    if (body == null || typeof body !== 'object') {
+      throw new BadRequestException('Request body must be a JSON object');
+    }
+    const obj = body as Record<string, unknown>;
+    if (!Array.isArray(obj.entries)) {
+      throw new BadRequestException('body.entries must be an array of parse entries');
+    }
+    const format = obj.format ?? 'yaml';
+    if (format !== 'yaml' && format !== 'json') {
+      throw new BadRequestException('body.format must be "yaml" or "json"');
+    }
+    const indices = obj.indices;
+    if (
+      indices != null &&
+      (!Array.isArray(indices) || !indices.every((i) => Number.isInteger(i)))
+    ) {
+      throw new BadRequestException('body.indices must be an array of entry indices');
+    }
+    if (obj.title != null && typeof obj.title !== 'string') {
+      throw new BadRequestException('body.title must be a string');
+    }
+    const result = this.extractHarService.exportOpenApi(obj.entries as ParseEntry[], {
+      format,
+      indices: indices as number[] | undefined,
+      title: (obj.title as string | undefined)?.trim() || undefined,
+    });
     res.setHeader('Content-Type', 'application/json');
     res.status(200).json(result);
   }
 
+  /** Compare two parsed captures endpoint by endpoint. */
+  @Post('extract-har/diff')
+  async diffCaptures(@Req() req: Request, @Res() res: Response): Promise<void> {
+    const body = (req as Request & { body?: unknown }).body;
+    if (body == null || typeof body !== 'object') {
+      throw new BadRequestException('Request body must be a JSON object');
+    }
+    const obj = body as Record<string, unknown>;
+    if (!this.isEntryList(obj.before) || !this.isEntryList(obj.after)) {
+      throw new BadRequestException('body.before and body.after must be arrays of parse entries');
+    }
+    res.setHeader('Content-Type', 'application/json');
+    res.status(200).json(diffCaptures(obj.before, obj.after));
+  }
+
+  /** Replay one request from the server, subject to the host allowlist and private-network block. */
+  @Post('extract-har/execute')
+  async executeRequest(@Req() req: Request, @Res() res: Response): Promise<void> {
+    const body = (req as Request & { body?: unknown }).body;
+    const entry =
+      body != null && typeof body === 'object'
+        ? (body as Record<string, unknown>).entry
+        : undefined;
+    if (entry == null || typeof entry !== 'object') {
+      throw new BadRequestException('body.entry must be a request entry object');
+    }
+    const e = entry as Record<string, unknown>;
+    if (typeof e.method !== 'string' || !e.method || typeof e.url !== 'string') {
+      throw new BadRequestException('entry.method and entry.url must be strings');
+    }
+    if (e.headers != null && !Array.isArray(e.headers)) {
+      throw new BadRequestException('entry.headers must be an array');
+    }
+    const recorded = (body as Record<string, unknown>).recorded;
+    if (recorded != null) {
+      const r = recorded as Record<string, unknown>;
+      if (typeof recorded !== 'object' || typeof r.status !== 'number') {
+        throw new BadRequestException('body.recorded must be an object with a numeric status');
+      }
+      if (r.response != null && typeof r.response !== 'object') {
+        throw new BadRequestException('recorded.response must be an object');
+      }
+    }
+    const result = await executeEntry({
+      ...(entry as RequestSummary),
+      headers: (e.headers ?? []) as RequestSummary['headers'],
+    });
+    res.setHeader('Content-Type', 'application/json');
+    res.status(200).json(
+      recorded != null
+        ? { ...result, diff: diffResponses(recorded as RecordedResponse, result) }
+        : result,
+    );
+  }
+
+  private isEntryList(value: unknown): value is ParseEntry[] {
+    return (
+      Array.isArray(value) &&
+      value.every(
+        (e) =>
+          e != null &&
+          typeof e === 'object' &&
+          typeof (e as ParseEntry).method === 'string' &&
+          typeof (e as ParseEntry).url === 'string',
+      )
+    );
+  }
+
+  /** Pasted curl commands arrive as `{ curl }` instead of a HAR object. */
+  private hasCurlField(req: Request): boolean {
+    const body = (req as Request & { body?: unknown }).body;
+    return body != null && typeof body === 'object' && 'curl' in body;
+  }
+
   private async parseJsonBody(
     req: Request,
     res: Response,
@@ -75,41 +224,36 @@ export class ExtractHarController {
     return { log: log as unknown as HarRoot['log'] };
   }
 
-  private async parseMultipartBody(req: Request, _res: Response): Promise<HarRoot> {
+  /** Several uploaded files are merged into one session. */
+  private async parseMultipartBody(
+    req: Request,
+    _res: Response,
+  ): Promise<{ collector: ParseEntryCollector; source?: CaptureSource }> {
     const files = (req as Request & { files?: Record<string, Express.Multer.File[]> }).files;
-    const file = files?.['file']?.[0] as (Express.Multer.File & { buffer?: Buffer }) | undefined;
-    if (!file || !file.buffer) {
-      throw new BadRequestException(
-        'multipart/form-data must include a file field with a .har file',
-      );
+    const uploads = (files?.['file'] ?? []) as (Express.Multer.File & StreamedHarFile)[];
+    const failed = uploads.find((file) => file.parseError);
+    if (failed?.parseError) {
+      throw uploads.length > 1
+        ? new HttpException(
+            `${failed.originalname}: ${failed.parseError.message}`,
+            failed.parseError.getStatus(),
+          )
+        : failed.parseError;
     }
-    return this.parseHarBuffer(file.buffer);
-  }
-
-  private parseHarBuffer(buffer: Buffer): HarRoot {
-    if (buffer.length > MAX_BODY_SIZE_BYTES) {
-      throw new PayloadTooLargeException(
-        `HAR file must be smaller than ${MAX_BODY_SIZE_BYTES / 1024 / 1024} MB`,
+    if (!uploads.length || uploads.some((file) => !file.parsed)) {
+      throw new BadRequestException(
+        'multipart/form-data must include a file field with a capture file',
       );
     }
-    let raw: unknown;
-    try {
-      raw = JSON.parse(buffer.toString('utf-8'));
-    } catch {
-      throw new BadRequestException('Uploaded file is not valid JSON');
-    }
-    if (raw == null || typeof raw !== 'object') {
-      throw new BadRequestException('HAR JSON must be an object with a log property');
+    if (uploads.length === 1) {
+      return { collector: uploads[0]!.parsed!, source: uploads[0]!.source };
     }
-    const obj = raw as Record<string, unknown>;
-    if (!obj.log || typeof obj.log !== 'object') {
-      throw new BadRequestException('HAR must contain log with entries array');
-    }
-    const log = obj.log as Record<string, unknown>;
-    if (!Array.isArray(log.entries)) {
-      throw new BadRequestException('log.entries must be an array');
-    }
-    return { log: log as unknown as HarRoot['log'] };
+    const parts = uploads.map((file) => ({
+      name: file.originalname,
+      collector: file.parsed!,
+      source: file.source ?? { format: 'har' as const, warnings: [] },
+    }));
+    return { collector: ParseEntryCollector.merge(parts), source: mergeCaptureSources(parts) };
   }
 
   private validateHar(harRoot: HarRoot): void {
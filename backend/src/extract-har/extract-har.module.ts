@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
+import { LlmModule } from '../llm/llm.module';
 import { ExtractHarController } from './extract-har.controller';
 import { ExtractHarService } from './extract-har.service';
 
 @Module({
+  imports: [LlmModule],
   controllers: [ExtractHarController],
   providers: [ExtractHarService],
 })
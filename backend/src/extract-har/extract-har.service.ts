@@ -1,221 +1,567 @@
 import {
   BadGatewayException,
+  HttpException,
+  Inject,
   Injectable,
+  NotFoundException,
   ServiceUnavailableException,
 } from '@nestjs/common';
-import harToCurl from 'har-to-curl';
-import OpenAI from 'openai';
-import { MAX_PAYLOAD_CHARS, OPENAI_MODEL } from '../constants';
+import { randomBytes } from 'node:crypto';
 import {
-  filterAndReduceHarWithStatus,
+  LEXICAL_PREFILTER_LIMIT,
+  MAX_MATCH_CANDIDATES,
+  MAX_PARSE_SESSIONS,
+  MAX_PAYLOAD_CHARS,
+  MAX_WORKFLOW_STEPS,
+} from '../constants';
+import type { CaptureSource } from '../capture-import/capture-import.types';
+import { generateSnippets } from '../codegen/code-generators';
+import type { CodegenTarget, CodeSnippets } from '../codegen/codegen.types';
+import { curlGenerator } from '../codegen/curl.generator';
+import { toShellCurl } from '../codegen/shell.util';
+import { toShellScript, toTypeScriptScript } from '../codegen/workflow-script';
+import { toYaml } from '../codegen/yaml.util';
+import { LLM_PROVIDER, type LlmProvider } from '../llm/llm.types';
+import { groupByEndpoint, type EndpointGroup } from './endpoint-group.util';
+import {
+  collectParseEntries,
   toMinimalRequestSummary,
+  type ParseEntryCollector,
 } from './har-filter.util';
 import type { HarLog, ParseEntry, RequestSummary } from './har.types';
+import { rankLexically } from './lexical-match.util';
+import { buildOpenApiDocument } from './openapi.util';
+import { analyzeDependencies } from './provenance.util';
+import { buildRequestTemplate, type RequestTemplate } from './template.util';
+import { Redactor, type RedactionAuditEntry } from './redaction.util';
+import { inferEndpointSchema, type EndpointSchema } from './schema.util';
+import {
+  NoiseFilter,
+  type FilterOptions,
+  type FilterReport,
+} from './noise-filter.util';
+import { planWorkflow, type WorkflowVariable } from './workflow.util';
 
 export interface ParseHarResponse {
   count: number;
   entries: ParseEntry[];
+  groups: EndpointGroup[];
+  filter: FilterReport;
+  /** The uploaded capture's format, and anything that was lost converting it. */
+  source: CaptureSource;
+  /** Pass to `/extract-har/match` instead of the entries. */
+  sessionId: string;
 }
 
+type Confidence = 'high' | 'medium' | 'low';
+
+export interface MatchCandidate {
+  index: number;
+  /** 0-100, higher is a better match. */
+  score: number;
+  confidence?: Confidence;
+  explanationBullets?: string[];
+  curl: string;
+  /** The same request in each requested target language. */
+  snippets: CodeSnippets;
+  /** The request with its user inputs, credentials and volatile values as variables. */
+  template: RequestTemplate;
+  /** JSON Schema and TypeScript types for the endpoint's bodies, when any sample has a JSON body. */
+  schema?: EndpointSchema;
+}
+
+/** Top candidate flattened into the legacy fields, plus the full ranking in `candidates`. */
 export interface MatchResult {
   curl: string;
   matchedIndex?: number;
-  confidence?: 'high' | 'medium' | 'low';
+  confidence?: Confidence;
+  explanationBullets?: string[];
+  candidates?: MatchCandidate[];
+  snippets?: CodeSnippets;
+  template?: RequestTemplate;
+  schema?: EndpointSchema;
+  /** `lexical` when no LLM is configured and the local BM25 ranking was used instead. */
+  matcher?: 'llm' | 'lexical';
+  /** Values replaced with placeholders before prompting the LLM. */
+  redactions?: RedactionAuditEntry[];
+}
+
+export interface MatchOptions {
+  /** Extra patterns to redact on top of the built-in secret and PII detectors. */
+  redactPatterns?: RegExp[];
+  /** Languages to generate snippets for; defaults to all. */
+  targets?: CodegenTarget[];
+}
+
+export interface WorkflowStep {
+  /** Index of the request in `entries`. */
+  index: number;
+  method: string;
+  url: string;
+  /** What the step does, from the model or the clause of the description it matched; absent for steps added because a later one needs their response. */
+  purpose?: string;
+  /** curl with `${VAR}` references to values taken from earlier steps. */
+  curl: string;
+  /** Variables this step sends, and where in the request. */
+  uses: Array<{ variable: string; location: string }>;
+}
+
+/** Ordered steps for a multi-request description, with the values passed between them. */
+export interface WorkflowResult {
+  mode: 'workflow';
+  steps: WorkflowStep[];
+  variables: WorkflowVariable[];
+  /** The whole workflow as one runnable script. */
+  scripts: { shell: string; typescript: string };
+  explanationBullets?: string[];
+  matcher?: 'llm' | 'lexical';
+  redactions?: RedactionAuditEntry[];
+}
+
+export interface OpenApiExportOptions {
+  format: 'yaml' | 'json';
+  /** Export only the entries at these indices; all of them when absent. */
+  indices?: number[];
+  title?: string;
+}
+
+export interface OpenApiExport {
+  format: 'yaml' | 'json';
+  /** The serialized OpenAPI 3.1 document. */
+  document: string;
+  /** How many operations (method + path) the document describes. */
+  operations: number;
+}
+
+/** A ranked pick before curl generation; `index` is into the list that was ranked. */
+interface RankedMatch {
+  index: number;
+  score: number;
+  confidence?: Confidence;
   explanationBullets?: string[];
 }
 
 @Injectable()
 export class ExtractHarService {
-  private openai: OpenAI | null = null;
-
-  private getClient(): OpenAI {
-    if (!this.openai) {
-      const key = process.env.OPENAI_API_KEY;
-      if (!key || typeof key !== 'string' || !key.trim()) {
-        throw new ServiceUnavailableException(
-          'OpenAI API key is not configured. Set OPENAI_API_KEY.',
-        );
+  /** Parsed entries by session id, so matching does not need every entry posted back. */
+  private readonly sessions = new Map<string, ParseEntry[]>();
+
+  constructor(@Inject(LLM_PROVIDER) private readonly llm: LlmProvider) {}
+
+  /** Parse HAR and return filtered request entries with status (for list display). */
+  parseHar(log: HarLog, filter?: FilterOptions, source?: CaptureSource): ParseHarResponse {
+    return this.toParseResponse(collectParseEntries(log, new NoiseFilter(filter)), source);
+  }
+
+  /** Build the parse response from entries already collected while streaming the upload. */
+  toParseResponse(
+    collector: ParseEntryCollector,
+    source: CaptureSource = { format: 'har', warnings: [] },
+  ): ParseHarResponse {
+    const entries = collector.entries;
+    analyzeDependencies(entries).forEach((deps, i) => {
+      if (!deps.length) return;
+      entries[i]!.dependencies = deps;
+      // A cookie whose value an earlier response returned (e.g. a token a script stored) is needed too.
+      for (const cookie of entries[i]!.cookies ?? []) {
+        const dep = deps.find((d) => d.location === `cookie:${cookie.name}`);
+        if (dep && !cookie.needed) {
+          cookie.needed = true;
+          cookie.reason = `value from the response of entry ${dep.sourceIndex}`;
+        }
       }
-      this.openai = new OpenAI({ apiKey: key });
+    });
+    const groups = groupByEndpoint(entries);
+    for (const group of groups) {
+      const schema = inferEndpointSchema(entries, group);
+      if (schema) group.schema = schema;
+    }
+    return {
+      count: entries.length,
+      entries,
+      groups,
+      filter: collector.report(),
+      source,
+      sessionId: this.saveSession(entries),
+    };
+  }
+
+  /** Entries of a parsed session; sessions past MAX_PARSE_SESSIONS have been dropped. */
+  sessionEntries(id: string): ParseEntry[] {
+    const entries = this.sessions.get(id);
+    if (!entries) {
+      throw new NotFoundException(`No parsed session with id ${id}; upload the capture again`);
+    }
+    return entries;
+  }
+
+  private saveSession(entries: ParseEntry[]): string {
+    if (this.sessions.size >= MAX_PARSE_SESSIONS) {
+      this.sessions.delete(this.sessions.keys().next().value!);
     }
-    return this.openai;
+    const id = randomBytes(8).toString('hex');
+    this.sessions.set(id, entries);
+    return id;
   }
 
-  /** Parse HAR and return non-HTML request entries with status (for list display). */
-  parseHar(log: HarLog): ParseHarResponse {
-    const entries = filterAndReduceHarWithStatus(log);
-    return { count: entries.length, entries };
+  /** OpenAPI document for the captured requests, or the selected ones, serialized as YAML or JSON. */
+  exportOpenApi(entries: ParseEntry[], options: OpenApiExportOptions): OpenApiExport {
+    const selected = options.indices
+      ? options.indices.filter((i) => i >= 0 && i < entries.length).map((i) => entries[i]!)
+      : entries;
+    const doc = buildOpenApiDocument(selected, options.title);
+    const operations = Object.values(doc.paths).reduce((n, item) => n + Object.keys(item).length, 0);
+    return {
+      format: options.format,
+      document: options.format === 'yaml' ? toYaml(doc) : JSON.stringify(doc, null, 2) + '\n',
+      operations,
+    };
   }
 
-  /** Find best-matching request by description and return curl + explanation. Batches when payload exceeds context limit. */
+  /**
+   * Rank the requests that best match the description and return curls + explanations. Batches when payload exceeds context limit.
+   * Matching runs over one representative per endpoint group; candidate indices are those representatives' indices in `entries`.
+   * Large captures are narrowed with the local BM25 ranker first, and it ranks on its own when no LLM is configured.
+   * Secrets and PII are redacted before prompting; curls are built from the original requests.
+   */
   async matchAndCurl(
     description: string,
     entries: RequestSummary[],
+    options: MatchOptions = {},
   ): Promise<MatchResult> {
     if (entries.length === 0) {
-      return { curl: '' };
+      return { curl: '', candidates: [] };
     }
-    const minimal = entries.map(toMinimalRequestSummary);
-    const payload = JSON.stringify(minimal);
-    const client = this.getClient();
+    const groups = groupByEndpoint(entries);
+    const representatives = groups.map((g) => entries[g.entryIndices[0]!]!);
 
-    if (payload.length <= MAX_PAYLOAD_CHARS) {
-      return this.matchAndCurlSingle(client, description, entries, minimal);
+    const redactor = new Redactor(options.redactPatterns);
+    const extra: Pick<MatchResult, 'matcher' | 'redactions'> = { matcher: 'llm' };
+    let ranked: RankedMatch[];
+    try {
+      ranked = await this.matchWithLlm(description, representatives, groups, redactor);
+      extra.redactions = redactor.audit();
+    } catch (err: unknown) {
+      if (!(err instanceof ServiceUnavailableException)) throw err;
+      extra.matcher = 'lexical';
+      ranked = this.matchLexically(description, representatives);
     }
-
-    return this.matchAndCurlBatched(
-      client,
-      description,
-      entries,
-      minimal,
-    );
+    if (ranked.length === 0) {
+      return {
+        curl: '',
+        explanationBullets: ['No matching request found.'],
+        candidates: [],
+        ...extra,
+      };
+    }
+    return {
+      ...this.toMatchResult(ranked, entries, groups, options.targets),
+      ...extra,
+    };
   }
 
-  private async matchAndCurlSingle(
-    client: OpenAI,
+  /**
+   * Pick the requests a multi-step description needs (e.g. "log in, then create
+   * a project"), add the earlier requests whose responses they depend on, and
+   * return them in capture order with the values passed between steps.
+   * Picking runs over endpoint representatives like matchAndCurl; dependencies
+   * are traced over all entries, so `entries` should carry their responses.
+   */
+  async matchWorkflow(
     description: string,
     entries: RequestSummary[],
-    minimal: ReturnType<typeof toMinimalRequestSummary>[],
-  ): Promise<MatchResult> {
-    const matchResult = await this.matchRequest(client, description, minimal);
-    const idx = matchResult.matchedIndex ?? 0;
-    const safeIdx =
-      idx >= 0
-        ? Math.max(0, Math.min(idx, entries.length - 1))
-        : 0;
-    const fullRequest = entries[safeIdx];
-    if (!fullRequest || matchResult.matchedIndex === -1) {
-      return {
-        curl: '',
-        matchedIndex: idx === -1 ? undefined : safeIdx,
-        confidence: matchResult.confidence,
-        explanationBullets:
-          matchResult.matchedIndex === -1
-            ? ['No matching request found.']
-            : matchResult.explanationBullets,
-      };
+    options: MatchOptions = {},
+  ): Promise<WorkflowResult> {
+    const empty: WorkflowResult = {
+      mode: 'workflow',
+      steps: [],
+      variables: [],
+      scripts: { shell: '', typescript: '' },
+    };
+    if (entries.length === 0) return empty;
+    const groups = groupByEndpoint(entries);
+    const representatives = groups.map((g) => entries[g.entryIndices[0]!]!);
+
+    const redactor = new Redactor(options.redactPatterns);
+    const extra: Pick<WorkflowResult, 'matcher' | 'redactions'> = { matcher: 'llm' };
+    let picked: Array<{ index: number; purpose?: string }>;
+    try {
+      picked = await this.pickWorkflowStepsWithLlm(description, representatives, groups, redactor);
+      extra.redactions = redactor.audit();
+    } catch (err: unknown) {
+      if (!(err instanceof ServiceUnavailableException)) throw err;
+      extra.matcher = 'lexical';
+      picked = this.pickWorkflowStepsLexically(description, representatives);
+    }
+    if (picked.length === 0) {
+      return { ...empty, explanationBullets: ['No matching requests found.'], ...extra };
     }
 
-    const curl = this.requestToCurl(fullRequest);
+    const plan = planWorkflow(
+      entries as ParseEntry[],
+      picked.map((p) => ({ ...p, index: groups[p.index]!.entryIndices[0]! })),
+    );
     return {
-      curl,
-      matchedIndex: safeIdx,
-      confidence: matchResult.confidence,
-      explanationBullets: matchResult.explanationBullets,
+      mode: 'workflow',
+      steps: plan.steps.map((step) => ({
+        index: step.index,
+        method: step.request.method,
+        url: entries[step.index]!.url,
+        ...(step.purpose ? { purpose: step.purpose } : {}),
+        curl: toShellCurl(step.request),
+        uses: step.uses,
+      })),
+      variables: plan.variables,
+      scripts: {
+        shell: toShellScript(plan, description),
+        typescript: toTypeScriptScript(plan, description),
+      },
+      ...extra,
     };
   }
 
-  private async matchAndCurlBatched(
-    client: OpenAI,
+  /** Ask the model which representatives the workflow needs, in the order they run. */
+  private async pickWorkflowStepsWithLlm(
     description: string,
-    entries: RequestSummary[],
-    minimal: ReturnType<typeof toMinimalRequestSummary>[],
-  ): Promise<MatchResult> {
-    const batches = this.splitIntoBatches(minimal, entries);
-    const batchResults: Array<{
-      matchedIndex: number;
-      confidence?: 'high' | 'medium' | 'low';
-      explanationBullets?: string[];
-      batchStart: number;
-    }> = [];
+    representatives: RequestSummary[],
+    groups: EndpointGroup[],
+    redactor: Redactor,
+  ): Promise<Array<{ index: number; purpose?: string }>> {
+    const shortlist = this.lexicalShortlist(description, representatives);
+    let minimal = shortlist.map((i) =>
+      toMinimalRequestSummary(redactor.redactRequest(representatives[i]!), groups[i]),
+    );
+    // One prompt has to see every step, so shed response excerpts and then trailing requests instead of batching.
+    if (JSON.stringify(minimal).length > MAX_PAYLOAD_CHARS) {
+      minimal = minimal.map((m) => {
+        if (!m.response?.bodyExcerpt) return m;
+        const { bodyExcerpt: _dropped, ...response } = m.response;
+        return { ...m, response };
+      });
+    }
+    while (minimal.length > 1 && JSON.stringify(minimal).length > MAX_PAYLOAD_CHARS) {
+      minimal = minimal.slice(0, -1);
+    }
 
-    for (const batch of batches) {
-      const result = await this.matchRequest(
-        client,
-        description,
-        batch.minimal,
-      );
+    const systemPrompt = `You are a tool that helps reverse-engineer APIs from HAR (HTTP Archive) data.
+Given a user description of a multi-step task (e.g. "log in, then create a project") and a JSON array of request objects (each with method, url, headers as object, optionally postData and a recorded "response"):
+Pick the requests (by 0-based index) that together perform the task, in the order they must run, at most ${MAX_WORKFLOW_STEPS}. Include requests whose responses provide values later steps send (tokens, IDs, CSRF tokens).
+Respond with a valid JSON object only, no markdown or extra text: {"steps": [{"index": <number>, "purpose": "<what this step does, a few words>"}]}
+Use an empty steps array if the requests cannot perform the task.`;
+
+    const userMessage = `The user wants to automate: "${description.trim()}"
+
+Here are the HTTP requests (JSON array, 0-based indices). Output ONLY a JSON object with a steps array.\n\n${JSON.stringify(minimal)}`;
+
+    const content = await this.completeChat(systemPrompt, userMessage);
+    const obj = this.parseJsonObject(content);
+    const picked: Array<{ index: number; purpose?: string }> = [];
+    if (!obj || !Array.isArray(obj.steps)) return picked;
+    for (const item of obj.steps) {
+      if (item == null || typeof item !== 'object') continue;
+      const { index, purpose } = item as Record<string, unknown>;
       if (
-        result.matchedIndex != null &&
-        result.matchedIndex >= 0 &&
-        result.matchedIndex < batch.minimal.length
+        typeof index !== 'number' ||
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= minimal.length
       ) {
-        batchResults.push({
-          matchedIndex: result.matchedIndex,
-          confidence: result.confidence,
-          explanationBullets: result.explanationBullets,
-          batchStart: batch.start,
-        });
+        continue;
       }
+      const representative = shortlist[index]!;
+      if (picked.some((p) => p.index === representative)) continue;
+      picked.push({
+        index: representative,
+        purpose: typeof purpose === 'string' ? redactor.restore(purpose) : undefined,
+      });
     }
+    return picked.slice(0, MAX_WORKFLOW_STEPS);
+  }
 
-    if (batchResults.length === 0) {
-      return {
-        curl: '',
-        explanationBullets: ['No matching request found in any batch.'],
-      };
+  /** Without an LLM: split the description into clauses ("…, then …") and take the best BM25 match for each. */
+  private pickWorkflowStepsLexically(
+    description: string,
+    representatives: RequestSummary[],
+  ): Array<{ index: number; purpose?: string }> {
+    const clauses = description
+      .split(/\s*(?:,?\s*\band\s+then\b|,?\s*\bthen\b|;|\n)\s*/i)
+      .map((c) => c.trim())
+      .filter(Boolean);
+    const picked: Array<{ index: number; purpose?: string }> = [];
+    for (const clause of clauses) {
+      const best = rankLexically(clause, representatives)[0];
+      if (!best || picked.some((p) => p.index === best.index)) continue;
+      picked.push({ index: best.index, purpose: clause });
     }
+    return picked.slice(0, MAX_WORKFLOW_STEPS);
+  }
 
-    if (batchResults.length === 1) {
-      const { matchedIndex, batchStart, confidence, explanationBullets } =
-        batchResults[0]!;
-      const globalIndex = batchStart + matchedIndex;
-      const fullRequest = entries[globalIndex];
-      if (!fullRequest) {
-        return {
-          curl: '',
-          matchedIndex: globalIndex,
-          confidence,
-          explanationBullets,
-        };
-      }
-      return {
-        curl: this.requestToCurl(fullRequest),
-        matchedIndex: globalIndex,
-        confidence,
-        explanationBullets,
-      };
+  /**
+   * LLM ranking over the representatives, or the lexical shortlist of them when there are many.
+   * The model only sees redacted requests; placeholders in its explanations are restored.
+   */
+  private async matchWithLlm(
+    description: string,
+    representatives: RequestSummary[],
+    groups: EndpointGroup[],
+    redactor: Redactor,
+  ): Promise<RankedMatch[]> {
+    const shortlist = this.lexicalShortlist(description, representatives);
+    const minimal = shortlist.map((i) =>
+      toMinimalRequestSummary(redactor.redactRequest(representatives[i]!), groups[i]),
+    );
+    const payload = JSON.stringify(minimal);
+
+    const ranked =
+      payload.length <= MAX_PAYLOAD_CHARS
+        ? await this.matchRequest(description, minimal)
+        : await this.matchBatched(description, minimal);
+    return ranked.map((r) => ({
+      ...r,
+      index: shortlist[r.index]!,
+      explanationBullets: r.explanationBullets?.map((b) => redactor.restore(b)),
+    }));
+  }
+
+  /**
+   * Indices of the representatives worth sending to the LLM, in capture order:
+   * all of them up to LEXICAL_PREFILTER_LIMIT, otherwise the best BM25 scores,
+   * topped up in capture order when too few requests share a term with the description.
+   */
+  private lexicalShortlist(
+    description: string,
+    representatives: RequestSummary[],
+  ): number[] {
+    const all = representatives.map((_, i) => i);
+    if (representatives.length <= LEXICAL_PREFILTER_LIMIT) return all;
+    const picked = new Set(
+      rankLexically(description, representatives)
+        .slice(0, LEXICAL_PREFILTER_LIMIT)
+        .map((m) => m.index),
+    );
+    for (const i of all) {
+      if (picked.size >= LEXICAL_PREFILTER_LIMIT) break;
+      picked.add(i);
     }
+    return [...picked].sort((a, b) => a - b);
+  }
 
-    const bestWinner = await this.aggregateBatchWinners(
-      client,
-      description,
-      batchResults,
-      entries,
+  /**
+   * BM25 ranking used when no LLM is configured. The top score is the share of
+   * the description's terms it contains; the rest are scaled relative to it.
+   */
+  private matchLexically(
+    description: string,
+    representatives: RequestSummary[],
+  ): RankedMatch[] {
+    const matches = rankLexically(description, representatives).slice(
+      0,
+      MAX_MATCH_CANDIDATES,
     );
-    if (!bestWinner) {
+    const top = matches[0];
+    if (!top) return [];
+    return matches.map((m) => {
+      const score = this.clampScore((100 * top.coverage * m.score) / top.score);
       return {
-        curl: '',
-        explanationBullets: ['No matching request found in any batch.'],
+        index: m.index,
+        score,
+        confidence: m.coverage >= 0.6 ? 'high' : m.coverage >= 0.3 ? 'medium' : 'low',
+        explanationBullets: [
+          `Shares ${m.matchedTerms.length === 1 ? 'the term' : 'the terms'}: ${m.matchedTerms.join(', ')}`,
+          'Ranked locally by keyword overlap because no LLM provider is configured.',
+        ],
       };
-    }
+    });
+  }
 
-    const { globalIndex, fullRequest, confidence, explanationBullets } =
-      bestWinner;
+  /** Candidates with code for each; the other samples of an endpoint help tell user inputs from constants in its template and feed its schema. */
+  private toMatchResult(
+    ranked: RankedMatch[],
+    entries: RequestSummary[],
+    groups: EndpointGroup[],
+    targets?: CodegenTarget[],
+  ): MatchResult {
+    const candidates: MatchCandidate[] = ranked.map((r) => {
+      const group = groups[r.index]!;
+      const [index, ...others] = group.entryIndices;
+      const request = entries[index!]!;
+      const schema = inferEndpointSchema(entries as ParseEntry[], group);
+      return {
+        index: index!,
+        score: r.score,
+        confidence: r.confidence,
+        explanationBullets: r.explanationBullets,
+        curl: curlGenerator.generate(request),
+        snippets: generateSnippets(request, targets),
+        template: buildRequestTemplate(
+          request,
+          others.map((i) => entries[i]!),
+        ),
+        ...(schema ? { schema } : {}),
+      };
+    });
+    const top = candidates[0]!;
     return {
-      curl: this.requestToCurl(fullRequest),
-      matchedIndex: globalIndex,
-      confidence,
-      explanationBullets,
+      curl: top.curl,
+      matchedIndex: top.index,
+      confidence: top.confidence,
+      explanationBullets: top.explanationBullets,
+      candidates,
+      snippets: top.snippets,
+      template: top.template,
+      schema: top.schema,
     };
   }
 
+  /** Rank each batch separately, then rank the batch picks against each other. */
+  private async matchBatched(
+    description: string,
+    minimal: ReturnType<typeof toMinimalRequestSummary>[],
+  ): Promise<RankedMatch[]> {
+    const batches = this.splitIntoBatches(minimal);
+    const picks: RankedMatch[] = [];
+    let batchesWithPicks = 0;
+
+    for (const batch of batches) {
+      const ranked = await this.matchRequest(description, batch.minimal);
+      if (ranked.length > 0) batchesWithPicks++;
+      for (const r of ranked) {
+        picks.push({ ...r, index: batch.start + r.index });
+      }
+    }
+
+    if (batchesWithPicks <= 1) return picks;
+    return this.aggregateBatchWinners(description, picks, minimal);
+  }
+
+  /**
+   * Greedily pack requests into batches under MAX_PAYLOAD_CHARS. Item sizes are
+   * measured once; a request too large for a batch of its own (usually because
+   * of its response excerpt) is sent without the excerpt.
+   */
   private splitIntoBatches(
     minimal: ReturnType<typeof toMinimalRequestSummary>[],
-    entries: RequestSummary[],
-  ): Array<{ minimal: ReturnType<typeof toMinimalRequestSummary>[]; entries: RequestSummary[]; start: number }> {
+  ): Array<{ minimal: ReturnType<typeof toMinimalRequestSummary>[]; start: number }> {
     const batches: Array<{
       minimal: ReturnType<typeof toMinimalRequestSummary>[];
-      entries: RequestSummary[];
       start: number;
     }> = [];
+    const items = minimal.map((m) => this.fitToPayload(m));
+    // Each item costs its JSON plus a separator; the array brackets add one more.
+    const sizes = items.map((m) => JSON.stringify(m).length + 1);
     let start = 0;
 
-    while (start < minimal.length) {
+    while (start < items.length) {
       let end = start;
-      while (end < minimal.length) {
-        if (
-          JSON.stringify(minimal.slice(start, end + 1)).length > MAX_PAYLOAD_CHARS
-        ) {
-          break;
-        }
+      let size = 1;
+      while (end < items.length && size + sizes[end]! <= MAX_PAYLOAD_CHARS) {
+        size += sizes[end]!;
         end++;
       }
       if (end === start) end = start + 1;
 
       batches.push({
-        minimal: minimal.slice(start, end),
-        entries: entries.slice(start, end),
+        minimal: items.slice(start, end),
         start,
       });
       start = end;
@@ -224,186 +570,128 @@ export class ExtractHarService {
     return batches;
   }
 
+  private fitToPayload(
+    item: ReturnType<typeof toMinimalRequestSummary>,
+  ): ReturnType<typeof toMinimalRequestSummary> {
+    if (
+      !item.response?.bodyExcerpt ||
+      JSON.stringify(item).length + 2 <= MAX_PAYLOAD_CHARS
+    ) {
+      return item;
+    }
+    const { bodyExcerpt: _dropped, ...response } = item.response;
+    return { ...item, response };
+  }
+
+  /**
+   * Rank candidates gathered from several batches against each other. Scores
+   * from different batches are not comparable, so the model sees all picks at
+   * once; any it leaves out keep their batch order after the ranked ones.
+   */
   private async aggregateBatchWinners(
-    client: OpenAI,
     description: string,
-    batchResults: Array<{
-      matchedIndex: number;
-      confidence?: 'high' | 'medium' | 'low';
-      explanationBullets?: string[];
-      batchStart: number;
-    }>,
-    entries: RequestSummary[],
-  ): Promise<{
-    globalIndex: number;
-    fullRequest: RequestSummary;
-    confidence?: 'high' | 'medium' | 'low';
-    explanationBullets?: string[];
-  } | null> {
-    const candidates = batchResults.map((r, i) => {
-      const globalIndex = r.batchStart + r.matchedIndex;
-      const entry = entries[globalIndex];
+    picks: RankedMatch[],
+    minimal: ReturnType<typeof toMinimalRequestSummary>[],
+  ): Promise<RankedMatch[]> {
+    const byBatchScore = [...picks].sort((a, b) => b.score - a.score);
+    const candidatesPayload = byBatchScore.map((c, i) => {
+      const entry = minimal[c.index];
       return {
         index: i,
         method: entry?.method ?? '?',
         url: entry?.url ?? '?',
-        explanationBullets: r.explanationBullets ?? [],
-        globalIndex,
-        fullRequest: entry,
+        responseShape: entry?.response?.shape,
+        explanationBullets: c.explanationBullets ?? [],
       };
     });
 
-    const validCandidates = candidates.filter(
-      (c): c is typeof c & { fullRequest: RequestSummary } =>
-        c.fullRequest != null,
-    );
-    if (validCandidates.length === 0) return null;
-
-    if (validCandidates.length === 1) {
-      const c = validCandidates[0]!;
-      return {
-        globalIndex: c.globalIndex,
-        fullRequest: c.fullRequest,
-        confidence: batchResults[c.index]!.confidence,
-        explanationBullets: batchResults[c.index]!.explanationBullets,
-      };
-    }
-
-    const candidatesPayload = validCandidates.map((c, i) => ({
-      index: i,
-      method: c.method,
-      url: c.url,
-      explanationBullets: c.explanationBullets,
-    }));
-
-    const systemPrompt = `You are a tool that picks the best API request from a set of candidates.
-Given a user description and a list of candidate requests (each with method, url, and explanationBullets):
-Pick the SINGLE candidate (by 0-based index) that best matches the user's description.
-Respond with a valid JSON object only: {"bestIndex": <number>}`;
+    const systemPrompt = `You are a tool that ranks API requests from a set of candidates.
+Given a user description and a list of candidate requests (each with method, url, optional responseShape, and explanationBullets):
+Rank the candidates (by 0-based index) from best to worst match for the user's description, at most ${MAX_MATCH_CANDIDATES}, and score each from 0 to 100.
+Respond with a valid JSON object only: {"ranking": [{"index": <number>, "score": <number>}]}`;
 
     const userMessage = `The user wants to reverse-engineer: "${description.trim()}"
 
 Candidates (0-based index):
 ${JSON.stringify(candidatesPayload, null, 2)}
 
-Output ONLY a JSON object: {"bestIndex": <number>}`;
+Output ONLY a JSON object: {"ranking": [{"index": <number>, "score": <number>}]}`;
 
-    const completion = await client.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userMessage },
-      ],
-      temperature: 1,
-    });
+    const content = await this.completeChat(systemPrompt, userMessage);
 
-    const content = completion.choices[0]?.message?.content;
-    if (content == null || typeof content !== 'string') {
-      throw new BadGatewayException('OpenAI returned no content.');
-    }
-
-    const trimmed = content.trim();
-    let jsonStr = trimmed;
-    const codeBlock = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlock) jsonStr = codeBlock[1]!.trim();
-
-    let bestIndex: number;
-    try {
-      const obj = JSON.parse(jsonStr) as Record<string, unknown>;
-      if (
-        typeof obj.bestIndex !== 'number' ||
-        !Number.isInteger(obj.bestIndex)
-      ) {
-        bestIndex = 0;
-      } else {
-        bestIndex = Math.max(
-          0,
-          Math.min(obj.bestIndex, validCandidates.length - 1),
-        );
+    const ranking: Array<{ index: number; score?: number }> = [];
+    const obj = this.parseJsonObject(content);
+    if (obj && Array.isArray(obj.ranking)) {
+      for (const item of obj.ranking) {
+        if (item == null || typeof item !== 'object') continue;
+        const { index, score } = item as Record<string, unknown>;
+        if (
+          typeof index === 'number' &&
+          Number.isInteger(index) &&
+          index >= 0 &&
+          index < byBatchScore.length &&
+          !ranking.some((r) => r.index === index)
+        ) {
+          ranking.push({
+            index,
+            score: typeof score === 'number' ? this.clampScore(score) : undefined,
+          });
+        }
       }
-    } catch {
-      bestIndex = 0;
     }
 
-    const winner = validCandidates[bestIndex]!;
-    const batchResult = batchResults[validCandidates[bestIndex]!.index]!;
-    return {
-      globalIndex: winner.globalIndex,
-      fullRequest: winner.fullRequest,
-      confidence: batchResult.confidence,
-      explanationBullets: batchResult.explanationBullets,
-    };
+    const ordered: RankedMatch[] = ranking.map((r) => ({
+      ...byBatchScore[r.index]!,
+      score: r.score ?? byBatchScore[r.index]!.score,
+    }));
+    for (const [i, pick] of byBatchScore.entries()) {
+      if (!ranking.some((r) => r.index === i)) ordered.push(pick);
+    }
+    return ordered.slice(0, MAX_MATCH_CANDIDATES);
   }
 
   private async matchRequest(
-    client: OpenAI,
     description: string,
     minimal: ReturnType<typeof toMinimalRequestSummary>[],
-  ): Promise<{
-    matchedIndex?: number;
-    confidence?: 'high' | 'medium' | 'low';
-    explanationBullets?: string[];
-  }> {
+  ): Promise<RankedMatch[]> {
     const payload = JSON.stringify(minimal);
     const systemPrompt = `You are a tool that helps reverse-engineer APIs from HAR (HTTP Archive) data.
 Given a user description of the API they want to reverse-engineer and a JSON array of request objects (each with method, url, headers as object, and optionally postData with mimeType and text):
-1. EXTRACT: Identify the SINGLE request from the array (by 0-based index) that best matches the user's description.
+Requests may include "response" with the recorded status, mimeType, "shape" (JSON structure: keys, nested shapes, array lengths) and a truncated "bodyExcerpt"; use it when the description is about what an API returns.
+Each request is one sample of an endpoint; "endpoint" is its templated route (e.g. "GET /users/{id}") and "sampleCount" how many captured requests share it.
+GraphQL requests carry "graphqlOperation" (e.g. "mutation CreateUser"); each operation is a separate request even when the URL is the same.
+1. EXTRACT: Identify up to ${MAX_MATCH_CANDIDATES} requests from the array (by 0-based index) that could match the user's description, best first.
 2. OUTPUT: Respond with a valid JSON object only, no markdown or extra text. Use this exact shape:
-{"matchedIndex": <number>, "confidence": "high"|"medium"|"low"|"none", "explanationBullets": ["reason 1", "reason 2"]}
-- matchedIndex: 0-based index into the array, or -1 if NO request matches the description.
-- confidence: how well the request matches (use "none" when matchedIndex is -1).
+{"candidates": [{"index": <number>, "score": <number>, "confidence": "high"|"medium"|"low", "explanationBullets": ["reason 1", "reason 2"]}]}
+- index: 0-based index into the array. Use an empty candidates array if NO request matches the description.
+- score: 0-100, how well the request matches; candidates must be ordered by score, highest first.
+- confidence: how well the request matches.
 - explanationBullets: 2-4 short bullet points.`;
 
     const userMessage = `The user wants to reverse-engineer this API: "${description.trim()}"
 
-Here are the HTTP requests (JSON array, 0-based indices). Pick the ONE request that best matches the description. Output ONLY a JSON object with matchedIndex, confidence, and explanationBullets.\n\n${payload}`;
+Here are the HTTP requests (JSON array, 0-based indices). Rank the requests that best match the description. Output ONLY a JSON object with a candidates array.\n\n${payload}`;
 
-    let completion: OpenAI.Chat.ChatCompletion;
+    const content = await this.completeChat(systemPrompt, userMessage);
+    return this.parseRankedResult(content, minimal.length);
+  }
+
+  /** Prompt the configured provider. HTTP errors (e.g. missing configuration) pass through; anything else is a 502. */
+  private async completeChat(systemPrompt: string, userMessage: string): Promise<string> {
     try {
-      completion = await client.chat.completions.create({
-        model: OPENAI_MODEL,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userMessage },
-        ],
-        temperature: 1,
-      });
+      return await this.llm.complete([
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userMessage },
+      ]);
     } catch (err: unknown) {
+      if (err instanceof HttpException) throw err;
       throw new BadGatewayException(
-        'OpenAI request failed. Please try again: ' + (err instanceof Error ? err.message : String(err)),
+        `LLM request failed (${this.llm.name}). Please try again: ` + (err instanceof Error ? err.message : String(err)),
       );
     }
-
-    const content = completion.choices[0]?.message?.content;
-    if (content == null || typeof content !== 'string') {
-      throw new BadGatewayException('OpenAI returned no content.');
-    }
-
-    return this.parseMatchOnlyResult(content, minimal.length);
   }
 
-  private requestToCurl(request: RequestSummary): string {
-    const entry = {
-      request: {
-        method: request.method,
-        url: request.url,
-        headers: request.headers ?? [],
-        cookies: [] as Array<{ name: string; value: string }>,
-        postData: request.postData,
-      },
-    };
-    const curl = harToCurl(entry);
-    return typeof curl === 'string' ? curl : '';
-  }
-
-  private parseMatchOnlyResult(
-    raw: string,
-    maxIndex: number,
-  ): {
-    matchedIndex?: number;
-    confidence?: 'high' | 'medium' | 'low';
-    explanationBullets?: string[];
-  } {
+  private parseJsonObject(raw: string): Record<string, unknown> | null {
     const trimmed = raw.trim();
     let jsonStr = trimmed;
     const codeBlock = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
@@ -411,26 +699,62 @@ Here are the HTTP requests (JSON array, 0-based indices). Pick the ONE request t
       jsonStr = codeBlock[1].trim();
     }
     try {
-      const obj = JSON.parse(jsonStr) as Record<string, unknown>;
-      let matchedIndex: number | undefined;
-      if (typeof obj.matchedIndex === 'number' && Number.isInteger(obj.matchedIndex)) {
-        if (obj.matchedIndex === -1) {
-          matchedIndex = -1;
-        } else {
-          matchedIndex = Math.max(0, Math.min(obj.matchedIndex, maxIndex - 1));
-        }
+      const obj = JSON.parse(jsonStr) as unknown;
+      return obj != null && typeof obj === 'object' && !Array.isArray(obj)
+        ? (obj as Record<string, unknown>)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private clampScore(score: number): number {
+    return Math.max(0, Math.min(100, Math.round(score)));
+  }
+
+  /**
+   * Read the model's candidate list, dropping out-of-range or repeated indices.
+   * Also accepts the older single-pick shape (`matchedIndex`, -1 for no match).
+   */
+  private parseRankedResult(raw: string, maxIndex: number): RankedMatch[] {
+    const obj = this.parseJsonObject(raw);
+    if (!obj) return [];
+    const items: unknown[] = Array.isArray(obj.candidates)
+      ? obj.candidates
+      : typeof obj.matchedIndex === 'number'
+        ? [{ ...obj, index: obj.matchedIndex }]
+        : [];
+
+    const ranked: RankedMatch[] = [];
+    for (const [position, item] of items.entries()) {
+      if (item == null || typeof item !== 'object') continue;
+      const c = item as Record<string, unknown>;
+      if (
+        typeof c.index !== 'number' ||
+        !Number.isInteger(c.index) ||
+        c.index < 0 ||
+        c.index >= maxIndex ||
+        ranked.some((r) => r.index === c.index)
+      ) {
+        continue;
       }
-      let confidence: 'high' | 'medium' | 'low' | undefined;
-      if (typeof obj.confidence === 'string' && ['high', 'medium', 'low'].includes(obj.confidence)) {
-        confidence = obj.confidence as 'high' | 'medium' | 'low';
+      const match: RankedMatch = {
+        index: c.index,
+        score:
+          typeof c.score === 'number'
+            ? this.clampScore(c.score)
+            : Math.max(0, 100 - position * 10),
+      };
+      if (typeof c.confidence === 'string' && ['high', 'medium', 'low'].includes(c.confidence)) {
+        match.confidence = c.confidence as Confidence;
       }
-      let explanationBullets: string[] | undefined;
-      if (Array.isArray(obj.explanationBullets)) {
-        explanationBullets = obj.explanationBullets.filter((x): x is string => typeof x === 'string');
+      if (Array.isArray(c.explanationBullets)) {
+        match.explanationBullets = c.explanationBullets.filter((x): x is string => typeof x === 'string');
       }
-      return { matchedIndex, confidence, explanationBullets };
-    } catch {
-      return {};
+      ranked.push(match);
     }
+    return ranked
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_MATCH_CANDIDATES);
   }
 }
@@ -0,0 +1,175 @@
+import type {
+  GraphqlOperationInfo,
+  GraphqlOperationType,
+  HarPostData,
+  RequestSummary,
+} from './har.types';
+
+/** One operation from a request body or URL, with the raw object it came from. */
+export interface GraphqlOperation extends GraphqlOperationInfo {
+  query?: string;
+  /** The operation exactly as sent (one element of a batched array, or the whole body). */
+  raw?: Record<string, unknown>;
+}
+
+const DOCUMENT_START_RE =
+  /^\s*(?:#[^\n]*\n\s*)*(?:\{|query\b|mutation\b|subscription\b|fragment\b)/;
+const NAME_RE = /[_A-Za-z][_0-9A-Za-z]*/y;
+
+/**
+ * Find the first executable operation in a document, skipping comments,
+ * strings and fragment definitions. A bare selection set is a query.
+ */
+function readOperationDocument(query: string): {
+  operationType: GraphqlOperationType;
+  operationName?: string;
+} {
+  let depth = 0;
+  let inFragment = false;
+  for (let i = 0; i < query.length; i++) {
+    const c = query[i]!;
+    if (c === '#') {
+      const nl = query.indexOf('\n', i);
+      i = nl === -1 ? query.length : nl;
+    } else if (c === '"') {
+      for (i++; i < query.length && query[i] !== '"'; i++) {
+        if (query[i] === '\\') i++;
+      }
+    } else if (c === '{') {
+      if (depth === 0 && !inFragment) return { operationType: 'query' };
+      depth++;
+    } else if (c === '}') {
+      depth--;
+      if (depth === 0) inFragment = false;
+    } else if (depth === 0) {
+      NAME_RE.lastIndex = i;
+      const word = NAME_RE.exec(query)?.[0];
+      if (!word) continue;
+      if (word === 'query' || word === 'mutation' || word === 'subscription') {
+        const rest = query.slice(i + word.length).match(/^\s*([_A-Za-z][_0-9A-Za-z]*)/);
+        return { operationType: word, operationName: rest?.[1] };
+      }
+      if (word === 'fragment') inFragment = true;
+      i += word.length - 1;
+    }
+  }
+  return { operationType: 'query' };
+}
+
+function persistedHash(extensions: unknown): string | undefined {
+  if (extensions == null || typeof extensions !== 'object') return undefined;
+  const pq = (extensions as Record<string, unknown>).persistedQuery;
+  if (pq == null || typeof pq !== 'object') return undefined;
+  const hash = (pq as Record<string, unknown>).sha256Hash;
+  return typeof hash === 'string' ? hash : undefined;
+}
+
+function parseMaybeJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function toOperation(obj: Record<string, unknown>): GraphqlOperation | null {
+  const query = typeof obj.query === 'string' ? obj.query : undefined;
+  const hash = persistedHash(parseMaybeJson(obj.extensions));
+  if (query == null && hash == null) return null;
+  if (query != null && !DOCUMENT_START_RE.test(query)) return null;
+
+  const op: GraphqlOperation = { query, raw: obj };
+  if (query != null) {
+    const doc = readOperationDocument(query);
+    op.operationType = doc.operationType;
+    op.operationName = doc.operationName;
+  }
+  if (typeof obj.operationName === 'string' && obj.operationName) {
+    op.operationName = obj.operationName;
+  }
+  if (hash) op.persistedQueryHash = hash;
+  return op;
+}
+
+function operationsFromBody(postData: HarPostData | undefined): GraphqlOperation[] | null {
+  const text = postData?.text;
+  if (!text) return null;
+  const mime = (postData?.mimeType ?? '').toLowerCase();
+  if (mime.includes('application/graphql')) {
+    if (!DOCUMENT_START_RE.test(text)) return null;
+    return [{ query: text, ...readOperationDocument(text) }];
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const items = Array.isArray(body) ? body : [body];
+  const ops: GraphqlOperation[] = [];
+  for (const item of items) {
+    if (item == null || typeof item !== 'object') return null;
+    const op = toOperation(item as Record<string, unknown>);
+    if (!op) return null;
+    ops.push(op);
+  }
+  return ops.length ? ops : null;
+}
+
+function operationFromUrl(url: string): GraphqlOperation | null {
+  let params: URLSearchParams;
+  try {
+    params = new URL(url).searchParams;
+  } catch {
+    return null;
+  }
+  const op = toOperation({
+    query: params.get('query') ?? undefined,
+    operationName: params.get('operationName') ?? undefined,
+    extensions: params.get('extensions') ?? undefined,
+  });
+  if (op) delete op.raw;
+  return op;
+}
+
+/**
+ * Read the GraphQL operations a request carries: JSON bodies (single or
+ * batched), `application/graphql` bodies, and GET requests with query or
+ * persisted-query parameters. Returns null for non-GraphQL requests.
+ */
+export function parseGraphqlOperations(
+  request: Pick<RequestSummary, 'method' | 'url' | 'postData'>,
+): GraphqlOperation[] | null {
+  const fromBody = operationsFromBody(request.postData);
+  if (fromBody) return fromBody;
+  const fromUrl = operationFromUrl(request.url);
+  return fromUrl ? [fromUrl] : null;
+}
+
+export function toGraphqlInfo(op: GraphqlOperation): GraphqlOperationInfo {
+  const info: GraphqlOperationInfo = {};
+  if (op.operationName) info.operationName = op.operationName;
+  if (op.operationType) info.operationType = op.operationType;
+  if (op.persistedQueryHash) info.persistedQueryHash = op.persistedQueryHash;
+  return info;
+}
+
+/** Identity used for dedupe: name, else persisted hash, else the request body. */
+export function graphqlOperationKey(info: GraphqlOperationInfo, body?: string): string {
+  return (
+    info.operationName ??
+    (info.persistedQueryHash ? `sha256:${info.persistedQueryHash}` : undefined) ??
+    (body ?? '').replace(/\s+/g, ' ').trim()
+  );
+}
+
+/** Short label, e.g. `mutation CreateUser`. */
+export function formatGraphqlOperation(info: GraphqlOperationInfo): string {
+  const name =
+    info.operationName ??
+    (info.persistedQueryHash
+      ? `persisted ${info.persistedQueryHash.slice(0, 8)}`
+      : 'anonymous');
+  return info.operationType ? `${info.operationType} ${name}` : name;
+}
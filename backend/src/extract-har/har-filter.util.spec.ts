@@ -0,0 +1,57 @@
+import type { HarEntry } from './har.types';
+import { collectParseEntries, ParseEntryCollector } from './har-filter.util';
+
+const entry = (at: string, method: string, url: string, setCookie?: string): HarEntry => ({
+  startedDateTime: `2024-05-01T10:00:0${at}Z`,
+  request: { method, url, headers: [] },
+  response: {
+    status: 200,
+    headers: setCookie ? [{ name: 'Set-Cookie', value: setCookie }] : [],
+    content: { mimeType: 'application/json', text: '{"ok":true}' },
+  },
+});
+
+const file = (name: string, ...entries: HarEntry[]) => ({
+  name,
+  collector: collectParseEntries({ entries }),
+});
+
+describe('ParseEntryCollector.merge', () => {
+  const login = entry('1', 'POST', 'https://api.example.com/login', 'sid=abc; Path=/');
+
+  it('resolves cookies across files in timestamp order', () => {
+    const merged = ParseEntryCollector.merge([
+      file('auth.har', login),
+      file('app.har', entry('2', 'GET', 'https://api.example.com/me')),
+    ]);
+    const me = merged.entries.find((e) => e.url.endsWith('/me'))!;
+    expect(me.sourceFile).toBe('app.har');
+    expect(me.cookies).toEqual([
+      { name: 'sid', value: 'abc', source: 'jar', needed: true, reason: 'set by api.example.com' },
+    ]);
+  });
+
+  it('does not send a cookie set after the request', () => {
+    const merged = ParseEntryCollector.merge([
+      file('auth.har', login),
+      file('app.har', entry('0', 'GET', 'https://api.example.com/me')),
+    ]);
+    expect(merged.entries.map((e) => e.url)).toEqual([
+      'https://api.example.com/me',
+      'https://api.example.com/login',
+    ]);
+    expect(merged.entries[0]!.cookies).toBeUndefined();
+  });
+
+  it('keeps the merged jar when merged again', () => {
+    const inner = ParseEntryCollector.merge([file('auth.har', login)]);
+    const merged = ParseEntryCollector.merge([
+      { name: 'capture.zip', collector: inner },
+      file('app.har', entry('2', 'GET', 'https://api.example.com/me')),
+    ]);
+    expect(merged.entries.map((e) => [e.sourceFile, e.cookies?.length ?? 0])).toEqual([
+      ['auth.har', 0],
+      ['app.har', 1],
+    ]);
+  });
+});
@@ -2,36 +2,31 @@ import {
   CURL_DROP_HEADERS,
   HTTP2_PSEUDO_HEADERS,
   MAX_POSTDATA_CHARS,
+  MAX_RESPONSE_BODY_CHARS,
+  MAX_RESPONSE_EXCERPT_CHARS,
 } from '../constants';
+import { CookieJar, parseTime, responseCookies } from './cookie.util';
+import { formatEndpoint, type EndpointGroup } from './endpoint-group.util';
+import {
+  formatGraphqlOperation,
+  graphqlOperationKey,
+  parseGraphqlOperations,
+  toGraphqlInfo,
+} from './graphql.util';
+import { NoiseFilter, type FilterReport } from './noise-filter.util';
+import { inferBodyShape } from './response-shape.util';
 import type {
   HarEntry,
   HarHeader,
   HarLog,
   HarRequest,
+  HarResponse,
   RequestSummary,
   MinimalRequestSummary,
   ParseEntry,
+  ResponseSummary,
 } from './har.types';
 
-function isHtmlResponse(entry: HarEntry): boolean {
-  const res = entry.response;
-  if (res.content?.mimeType) {
-    const type = res.content.mimeType.split(';')[0].trim().toLowerCase();
-    return type === 'text/html';
-  }
-  const ct = res.headers?.find(
-    (h) => h.name.toLowerCase() === 'content-type',
-  );
-  if (!ct) return false;
-  const type = ct.value.split(';')[0].trim().toLowerCase();
-  return type === 'text/html';
-}
-
-export function filterNonHtmlEntries(log: HarLog): HarEntry[] {
-  if (!log.entries || !Array.isArray(log.entries)) return [];
-  return log.entries.filter((entry) => !isHtmlResponse(entry));
-}
-
 function stripPseudoHeaders(headers: HarHeader[]): HarHeader[] {
   if (!headers || !Array.isArray(headers)) return [];
   return headers.filter(
@@ -51,29 +46,249 @@ export function toRequestSummary(request: HarRequest): RequestSummary {
   };
 }
 
-export function dedupeByUrlAndMethod<T extends { url: string; method: string }>(
-  items: T[],
-): T[] {
-  const seen = new Set<string>();
-  return items.filter((item) => {
-    const key = `${item.method} ${item.url}`;
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+function dedupeKey(item: RequestSummary): string {
+  const key = `${item.method} ${item.url}`;
+  return item.graphql
+    ? `${key} ${graphqlOperationKey(item.graphql, item.postData?.text)}`
+    : key;
 }
 
-export function filterAndReduceHarWithStatus(log: HarLog): ParseEntry[] {
-  const entries = filterNonHtmlEntries(log);
-  const reduced = entries.map((e) => ({
-    ...toRequestSummary(e.request),
-    status: e.response?.status ?? 0,
+function isTextMimeType(mimeType: string): boolean {
+  const type = mimeType.split(';')[0]!.trim().toLowerCase();
+  return (
+    type.startsWith('text/') ||
+    type.includes('json') ||
+    type.includes('xml') ||
+    type.includes('javascript') ||
+    type.includes('graphql') ||
+    type === 'application/x-www-form-urlencoded'
+  );
+}
+
+/**
+ * Decode the response body (base64 or plain text) and cap it at MAX_RESPONSE_BODY_CHARS.
+ * `at` (epoch ms of the response) anchors `Max-Age` cookie expiry.
+ */
+export function toResponseSummary(response: HarResponse, at?: number): ResponseSummary {
+  const out: ResponseSummary = {
+    headers: stripPseudoHeaders(response.headers ?? []),
+  };
+  if (response.statusText) out.statusText = response.statusText;
+  const cookies = responseCookies(response, at);
+  if (cookies.length) out.cookies = cookies;
+  const content = response.content;
+  if (content?.mimeType) out.mimeType = content.mimeType;
+  if (typeof content?.size === 'number' && content.size >= 0) {
+    out.bodySize = content.size;
+  }
+  const text = content?.text;
+  if (!text) return out;
+
+  let body: string;
+  if (content.encoding === 'base64') {
+    const bytes = Buffer.from(text, 'base64');
+    out.bodySize = bytes.length;
+    if (content.mimeType && !isTextMimeType(content.mimeType)) return out;
+    body = bytes.toString('utf-8');
+  } else {
+    body = text;
+    out.bodySize ??= Buffer.byteLength(text, 'utf-8');
+  }
+  const shape = inferBodyShape(body, content.mimeType);
+  if (shape) out.shape = shape;
+  if (body.length > MAX_RESPONSE_BODY_CHARS) {
+    out.body = body.slice(0, MAX_RESPONSE_BODY_CHARS);
+    out.bodyTruncated = true;
+  } else {
+    out.body = body;
+  }
+  return out;
+}
+
+export function toParseEntry(entry: HarEntry): ParseEntry {
+  const parsed: ParseEntry = {
+    ...toRequestSummary(entry.request),
+    status: entry.response?.status ?? 0,
+  };
+  if (entry.response) {
+    parsed.response = toResponseSummary(entry.response, parseTime(entry.startedDateTime));
+  }
+  if (entry.startedDateTime) parsed.startedDateTime = entry.startedDateTime;
+  if (typeof entry.time === 'number') parsed.time = entry.time;
+  if (entry.timings) parsed.timings = entry.timings;
+  return parsed;
+}
+
+/**
+ * Reduce an entry to one ParseEntry per GraphQL operation it carries (batched
+ * bodies are split, keeping each operation object verbatim), or one plain entry.
+ */
+export function toParseEntries(entry: HarEntry): ParseEntry[] {
+  const base = toParseEntry(entry);
+  const ops = parseGraphqlOperations(base);
+  if (!ops) return [base];
+  if (ops.length === 1) return [{ ...base, graphql: toGraphqlInfo(ops[0]!) }];
+  return ops.map((op) => ({
+    ...base,
+    postData: op.raw
+      ? { ...base.postData, text: JSON.stringify(op.raw) }
+      : base.postData,
+    graphql: toGraphqlInfo(op),
   }));
-  return dedupeByUrlAndMethod(reduced);
+}
+
+export function filterAndReduceHarWithStatus(
+  log: HarLog,
+  filter: NoiseFilter = new NoiseFilter(),
+): ParseEntry[] {
+  return collectParseEntries(log, filter).entries;
+}
+
+export function collectParseEntries(
+  log: HarLog,
+  filter: NoiseFilter = new NoiseFilter(),
+): ParseEntryCollector {
+  const collector = new ParseEntryCollector(filter);
+  if (Array.isArray(log.entries)) {
+    for (const entry of log.entries) collector.add(entry);
+  }
+  return collector;
+}
+
+/** An entry as the cookie jar sees it, and the session entries it produced. */
+interface CookieStep {
+  /** URL, time, and the request and response cookies; nothing else is kept. */
+  entry: HarEntry;
+  parsed: ParseEntry[];
+}
+
+function cookieView(entry: HarEntry): HarEntry {
+  const only = (headers: HarHeader[] | undefined, name: string) =>
+    (headers ?? []).filter((h) => h.name.toLowerCase() === name);
+  const { request, response } = entry;
+  return {
+    startedDateTime: entry.startedDateTime,
+    request: {
+      method: request.method,
+      url: request.url,
+      headers: only(request.headers, 'cookie'),
+      cookies: request.cookies,
+    },
+    response: {
+      status: response.status,
+      headers: only(response.headers, 'set-cookie'),
+      cookies: response.cookies,
+    },
+  };
+}
+
+/**
+ * Runs entries through the noise filter, reduces them to ParseEntry and
+ * dedupes by method + URL (+ GraphQL operation), one entry at a time so it
+ * also works for streams. A cookie jar follows every entry, filtered or not,
+ * so each kept request lists the cookies in effect when it was sent.
+ */
+export class ParseEntryCollector {
+  readonly entries: ParseEntry[] = [];
+  private readonly seen = new Set<string>();
+  private readonly jar = new CookieJar();
+  /** Every entry in order, for merge to replay through a jar shared by all files. */
+  private readonly steps: CookieStep[] = [];
+  private readonly removed = new Map<string, number>();
+  private total = 0;
+
+  constructor(private readonly filter: NoiseFilter = new NoiseFilter()) {}
+
+  add(entry: HarEntry): void {
+    if (!entry?.request || !entry.response) return;
+    this.total++;
+    const step: CookieStep = { entry: cookieView(entry), parsed: [] };
+    this.steps.push(step);
+    const removedBy = this.filter.evaluate(entry);
+    if (removedBy) {
+      this.countRemoved(removedBy);
+      this.jar.record(entry);
+      return;
+    }
+    const cookies = this.jar.resolveRequestCookies(entry);
+    this.jar.record(entry);
+    for (const parsed of toParseEntries(entry)) {
+      const key = dedupeKey(parsed);
+      if (this.seen.has(key)) {
+        this.countRemoved('duplicate');
+        continue;
+      }
+      this.seen.add(key);
+      if (cookies.length) parsed.cookies = cookies;
+      this.entries.push(parsed);
+      step.parsed.push(parsed);
+    }
+  }
+
+  /**
+   * Combine the collectors of several uploaded files into one session. Entries
+   * are tagged with their file, ordered by startedDateTime and deduped across
+   * files as they are within one; entries without a timestamp follow the
+   * timed ones in upload order. Cookies are resolved again by one jar over
+   * that order, so a cookie set by a response in one file reaches requests
+   * in the others.
+   */
+  static merge(files: { name: string; collector: ParseEntryCollector }[]): ParseEntryCollector {
+    const merged = new ParseEntryCollector(files[0]?.collector.filter);
+    const tagged = new Map<ParseEntry, ParseEntry>();
+    for (const { name, collector } of files) {
+      merged.total += collector.total;
+      for (const [rule, count] of collector.removed) merged.countRemoved(rule, count);
+      for (const entry of collector.entries) {
+        tagged.set(entry, { ...entry, sourceFile: entry.sourceFile ?? name });
+      }
+    }
+    const timeOf = (step: CookieStep) => parseTime(step.entry.startedDateTime) ?? Infinity;
+    const steps = files
+      .flatMap(({ collector }) => collector.steps)
+      .sort((a, b) => {
+        const ta = timeOf(a);
+        const tb = timeOf(b);
+        return ta === tb ? 0 : ta - tb;
+      });
+    for (const step of steps) {
+      const cookies = merged.jar.resolveRequestCookies(step.entry);
+      merged.jar.record(step.entry);
+      const parsed: ParseEntry[] = [];
+      for (const original of step.parsed) {
+        const entry = tagged.get(original)!;
+        if (cookies.length) entry.cookies = cookies;
+        else delete entry.cookies;
+        const key = dedupeKey(entry);
+        if (merged.seen.has(key)) {
+          merged.countRemoved('duplicate');
+          continue;
+        }
+        merged.seen.add(key);
+        merged.entries.push(entry);
+        parsed.push(entry);
+      }
+      merged.steps.push({ entry: step.entry, parsed });
+    }
+    return merged;
+  }
+
+  report(): FilterReport {
+    return {
+      profile: this.filter.profile,
+      total: this.total,
+      removedByRule: [...this.removed].map(([rule, count]) => ({ rule, count })),
+    };
+  }
+
+  private countRemoved(rule: string, count = 1): void {
+    this.removed.set(rule, (this.removed.get(rule) ?? 0) + count);
+  }
 }
 
 export function toMinimalRequestSummary(
-  summary: RequestSummary,
+  summary: RequestSummary & { status?: number; response?: ResponseSummary },
+  group?: EndpointGroup,
 ): MinimalRequestSummary {
   const headers: Record<string, string> = {};
   for (const h of summary.headers ?? []) {
@@ -96,5 +311,32 @@ export function toMinimalRequestSummary(
           : text,
     };
   }
+  if (summary.status != null || summary.response) {
+    const response: NonNullable<MinimalRequestSummary['response']> = {
+      status: summary.status ?? 0,
+    };
+    const res = summary.response;
+    if (res?.mimeType) response.mimeType = res.mimeType;
+    const shape =
+      res?.shape ??
+      (res?.body && !res.bodyTruncated
+        ? inferBodyShape(res.body, res.mimeType)
+        : undefined);
+    if (shape) response.shape = shape;
+    if (res?.body) {
+      response.bodyExcerpt =
+        res.body.length > MAX_RESPONSE_EXCERPT_CHARS
+          ? res.body.slice(0, MAX_RESPONSE_EXCERPT_CHARS) + '...'
+          : res.body;
+    }
+    out.response = response;
+  }
+  if (summary.graphql) {
+    out.graphqlOperation = formatGraphqlOperation(summary.graphql);
+  }
+  if (group) {
+    out.endpoint = formatEndpoint(group);
+    out.sampleCount = group.entryIndices.length;
+  }
   return out;
 }
@@ -0,0 +1,265 @@
+import {
+  BadRequestException,
+  HttpException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import type { StorageEngine } from 'multer';
+import { PassThrough, type Readable, type Transform } from 'stream';
+import { createBrotliDecompress, createGunzip } from 'node:zlib';
+import type { CaptureSource } from '../capture-import/capture-import.types';
+import {
+  importCapture,
+  isHarFileName,
+  mergeCaptureSources,
+} from '../capture-import/capture-import.util';
+import { openZipEntry, readZipDirectory } from '../capture-import/zip.util';
+import {
+  MAX_BODY_SIZE_BYTES,
+  MAX_IMPORTED_CAPTURE_BYTES,
+  MAX_STREAMED_HAR_BYTES,
+} from '../constants';
+import { ParseEntryCollector } from './har-filter.util';
+import { streamHarEntries } from './har-stream.util';
+import { NoiseFilter, parseFilterOptions } from './noise-filter.util';
+
+/** What harStreamStorage attaches to the uploaded file instead of a buffer. */
+export interface StreamedHarFile {
+  parsed?: ParseEntryCollector;
+  source?: CaptureSource;
+  parseError?: HttpException;
+}
+
+type ParsedUpload = { size: number; source: CaptureSource };
+type ParsedFile = ParsedUpload & { parsed: ParseEntryCollector };
+
+/**
+ * Read a whole upload into memory. Rejects as soon as the size limit is
+ * passed, but the stream is still consumed to the end so multipart parsing
+ * can continue.
+ */
+function readUpload(stream: Readable, maxBytes: number, tooLarge: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let chunks: Buffer[] | undefined = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      if (!chunks) return;
+      size += chunk.length;
+      if (size <= maxBytes) {
+        chunks.push(chunk);
+      } else {
+        chunks = undefined;
+        reject(new PayloadTooLargeException(tooLarge));
+      }
+    });
+    stream.on('end', () => chunks && resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Pipe an upload through a decompressor. The compressed upload is held to the
+ * JSON body limit; the caller limits the decompressed output. `cancel` stops
+ * decompressing and drains the upload once the output is no longer wanted.
+ */
+function decompressUpload(
+  stream: Readable,
+  decompressor: Transform,
+  description: string,
+): { output: Readable; cancel: () => void } {
+  const output = new PassThrough();
+  let size = 0;
+  const cancel = (err?: Error) => {
+    stream.unpipe(decompressor);
+    stream.resume();
+    decompressor.destroy();
+    output.destroy(err);
+  };
+  stream.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE_BYTES) {
+      cancel(
+        new PayloadTooLargeException(
+          `Compressed uploads must be smaller than ${MAX_BODY_SIZE_BYTES / 1024 / 1024} MB`,
+        ),
+      );
+    }
+  });
+  decompressor.on('error', () =>
+    cancel(new BadRequestException(`Uploaded file is not valid ${description}`)),
+  );
+  stream.pipe(decompressor).pipe(output);
+  return { output, cancel: () => cancel() };
+}
+
+/** Convert a Charles, Burp, mitmproxy or Postman capture and feed its entries to the collector. */
+async function importUpload(
+  stream: Readable,
+  collector: ParseEntryCollector,
+): Promise<ParsedUpload> {
+  const data = await readUpload(
+    stream,
+    MAX_IMPORTED_CAPTURE_BYTES,
+    `Capture files other than .har must be smaller than ${MAX_IMPORTED_CAPTURE_BYTES / 1024 / 1024} MB`,
+  );
+  try {
+    const { source, entries } = importCapture(data);
+    for (const entry of entries) collector.add(entry);
+    return { size: data.length, source };
+  } catch (err: unknown) {
+    if (err instanceof HttpException) throw err;
+    throw new BadRequestException('Uploaded capture could not be converted');
+  }
+}
+
+/** Parse an uncompressed upload: `.har` files as a stream, other captures whole. */
+function parseCapture(
+  stream: Readable,
+  name: string,
+  collector: ParseEntryCollector,
+): Promise<ParsedUpload> {
+  if (!isHarFileName(name)) return importUpload(stream, collector);
+  return streamHarEntries(stream, (entry) => collector.add(entry), MAX_STREAMED_HAR_BYTES).then(
+    (size) => ({ size, source: { format: 'har', warnings: [] } }),
+  );
+}
+
+/**
+ * Parse every `.har` file in a zip archive and merge them into one session.
+ * The archive is read whole, within the JSON body limit, to find its central
+ * directory; each entry is then inflated as a stream. The decompressed size
+ * is limited across all entries, so a small archive cannot expand without
+ * bound.
+ */
+async function importZip(
+  stream: Readable,
+  newCollector: () => ParseEntryCollector,
+): Promise<ParsedFile> {
+  const data = await readUpload(
+    stream,
+    MAX_BODY_SIZE_BYTES,
+    `Zip archives must be smaller than ${MAX_BODY_SIZE_BYTES / 1024 / 1024} MB`,
+  );
+  const entries = readZipDirectory(data).filter(
+    (entry) =>
+      isHarFileName(entry.name) &&
+      !entry.name.startsWith('__MACOSX/') &&
+      !entry.name.split('/').pop()!.startsWith('._'),
+  );
+  if (!entries.length) {
+    throw new BadRequestException('Uploaded zip archive contains no .har files');
+  }
+  let size = 0;
+  const files: { name: string; collector: ParseEntryCollector; source: CaptureSource }[] = [];
+  for (const entry of entries) {
+    const collector = newCollector();
+    const content = openZipEntry(data, entry);
+    try {
+      size += await streamHarEntries(
+        content,
+        (harEntry) => collector.add(harEntry),
+        MAX_STREAMED_HAR_BYTES - size,
+      );
+    } catch (err: unknown) {
+      content.destroy();
+      if (err instanceof PayloadTooLargeException) {
+        throw new PayloadTooLargeException(
+          `HAR files in a zip archive must total less than ${MAX_STREAMED_HAR_BYTES / 1024 / 1024} MB`,
+        );
+      }
+      if (err instanceof HttpException) throw err;
+      throw new BadRequestException(`${entry.name} in the zip archive is not valid JSON`);
+    }
+    files.push({ name: entry.name, collector, source: { format: 'har', warnings: [] } });
+  }
+  if (files.length === 1) return { size, source: files[0]!.source, parsed: files[0]!.collector };
+  return { size, source: mergeCaptureSources(files), parsed: ParseEntryCollector.merge(files) };
+}
+
+/**
+ * Parse an upload by its file name: `.zip` archives of HAR files, `.gz` and
+ * `.br` files decompressed on the way in, and anything else as is.
+ */
+async function parseUpload(
+  stream: Readable,
+  name: string,
+  newCollector: () => ParseEntryCollector,
+): Promise<ParsedFile> {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.zip')) return importZip(stream, newCollector);
+  const collector = newCollector();
+  const compression = lower.endsWith('.gz')
+    ? { decompressor: createGunzip(), description: 'gzip' }
+    : lower.endsWith('.br')
+      ? { decompressor: createBrotliDecompress(), description: 'brotli' }
+      : undefined;
+  if (!compression) {
+    return { ...(await parseCapture(stream, name, collector)), parsed: collector };
+  }
+
+  const { output, cancel } = decompressUpload(
+    stream,
+    compression.decompressor,
+    compression.description,
+  );
+  try {
+    const parsed = await parseCapture(output, name.slice(0, name.lastIndexOf('.')), collector);
+    return { ...parsed, parsed: collector };
+  } catch (err: unknown) {
+    cancel();
+    throw err;
+  }
+}
+
+/**
+ * Multer storage engine that parses the uploaded HAR while it is still being
+ * received, so only the reduced entries are kept in memory. Gzip and brotli
+ * uploads are decompressed on the fly, zip archives may hold several HAR
+ * files, and other capture formats are read whole and converted to HAR
+ * entries. Parse failures are attached to the file rather than passed to
+ * multer, so the controller can surface them as regular Nest HTTP errors.
+ * Filter fields (`profile`, `rules`) must precede the file in the form to
+ * take effect.
+ */
+export function harStreamStorage(): StorageEngine {
+  return {
+    _handleFile(req, file, callback) {
+      let filter: NoiseFilter;
+      try {
+        const fields = (req.body ?? {}) as Record<string, unknown>;
+        filter = new NoiseFilter(
+          parseFilterOptions({ profile: fields.profile, rules: fields.rules }),
+        );
+      } catch (err: unknown) {
+        file.stream.resume();
+        const info: Partial<Express.Multer.File> & StreamedHarFile = {
+          parseError: err as HttpException,
+        };
+        callback(null, info);
+        return;
+      }
+      const newCollector = () => new ParseEntryCollector(filter);
+      parseUpload(file.stream, file.originalname ?? '', newCollector).then(
+        ({ size, source, parsed }) => {
+          const info: Partial<Express.Multer.File> & StreamedHarFile = {
+            size,
+            parsed,
+            source,
+          };
+          callback(null, info);
+        },
+        (err: unknown) => {
+          const info: Partial<Express.Multer.File> & StreamedHarFile = {
+            parseError:
+              err instanceof HttpException
+                ? err
+                : new BadRequestException('Uploaded file is not valid JSON'),
+          };
+          callback(null, info);
+        },
+      );
+    },
+    _removeFile(_req, _file, callback) {
+      callback(null);
+    },
+  };
+}
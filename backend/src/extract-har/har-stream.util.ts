@@ -0,0 +1,208 @@
+import {
+  BadRequestException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { StringDecoder } from 'string_decoder';
+import type { Readable } from 'stream';
+import type { HarEntry } from './har.types';
+
+interface Frame {
+  kind: 'object' | 'array';
+  key: string | null;
+  expectKey: boolean;
+  isEntries: boolean;
+}
+
+/**
+ * Incremental scanner that walks a HAR document and emits each element of
+ * `log.entries` as soon as it is complete. Only the entry currently being read
+ * is held in memory; everything outside `log.entries` is skipped.
+ */
+export class HarEntryStreamParser {
+  private readonly stack: Frame[] = [];
+  private inString = false;
+  private escaped = false;
+  private keyBuffer: string | null = null;
+  private capture: string[] | null = null;
+  private captureDepth = 0;
+  private started = false;
+  private sawEntries = false;
+  private done = false;
+
+  constructor(private readonly onEntry: (entry: HarEntry) => void) {}
+
+  write(chunk: string): void {
+    let captureStart = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i]!;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === '\\') {
+          this.escaped = true;
+        } else if (c === '"') {
+          this.inString = false;
+          if (this.keyBuffer != null) {
+            this.top()!.key = this.keyBuffer;
+            this.keyBuffer = null;
+          }
+          continue;
+        }
+        if (this.keyBuffer != null) this.keyBuffer += c;
+        continue;
+      }
+
+      if (c === ' ' || c === '\n' || c === '\r' || c === '\t') continue;
+
+      if (!this.started) {
+        if (c !== '{') {
+          throw new BadRequestException(
+            'HAR JSON must be an object with a log property',
+          );
+        }
+        this.started = true;
+      } else if (this.done) {
+        throw new BadRequestException('Uploaded file is not valid JSON');
+      }
+
+      const top = this.top();
+      switch (c) {
+        case '"':
+          this.inString = true;
+          this.keyBuffer =
+            this.capture == null && top?.kind === 'object' && top.expectKey
+              ? ''
+              : null;
+          break;
+        case '{':
+        case '[':
+          if (top?.isEntries && this.capture == null) {
+            if (c === '{') {
+              this.capture = [];
+              this.captureDepth = this.stack.length;
+              captureStart = i;
+            }
+          }
+          this.stack.push({
+            kind: c === '{' ? 'object' : 'array',
+            key: null,
+            expectKey: c === '{',
+            isEntries: c === '[' && this.isEntriesPosition(),
+          });
+          if (this.top()!.isEntries) this.sawEntries = true;
+          break;
+        case '}':
+        case ']': {
+          const closed = this.stack.pop();
+          if (!closed || (closed.kind === 'object') !== (c === '}')) {
+            throw new BadRequestException('Uploaded file is not valid JSON');
+          }
+          if (this.capture != null && this.stack.length === this.captureDepth) {
+            this.capture.push(chunk.slice(captureStart, i + 1));
+            this.emitCapture();
+          }
+          if (this.stack.length === 0) this.done = true;
+          break;
+        }
+        case ',':
+          if (top?.kind === 'object') top.expectKey = true;
+          break;
+        case ':':
+          if (top?.kind === 'object') top.expectKey = false;
+          break;
+        default:
+          break;
+      }
+    }
+    if (this.capture != null) {
+      this.capture.push(chunk.slice(captureStart));
+    }
+  }
+
+  end(): void {
+    if (!this.started || !this.done || this.inString) {
+      throw new BadRequestException('Uploaded file is not valid JSON');
+    }
+    if (!this.sawEntries) {
+      throw new BadRequestException('HAR must contain log with entries array');
+    }
+  }
+
+  private top(): Frame | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /** True when the next array opens at `log.entries` of the root object. */
+  private isEntriesPosition(): boolean {
+    return (
+      this.stack.length === 2 &&
+      this.stack[0]!.key === 'log' &&
+      this.stack[1]!.kind === 'object' &&
+      this.stack[1]!.key === 'entries'
+    );
+  }
+
+  private emitCapture(): void {
+    const text = this.capture!.join('');
+    this.capture = null;
+    let entry: unknown;
+    try {
+      entry = JSON.parse(text);
+    } catch {
+      throw new BadRequestException('Uploaded file is not valid JSON');
+    }
+    this.onEntry(entry as HarEntry);
+  }
+}
+
+/**
+ * Feed a byte stream through HarEntryStreamParser. Resolves with the number of
+ * bytes read. The stream is always consumed to the end, even after a failure,
+ * so multipart parsing can continue with the remaining fields.
+ */
+export function streamHarEntries(
+  stream: Readable,
+  onEntry: (entry: HarEntry) => void,
+  maxBytes: number,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const parser = new HarEntryStreamParser(onEntry);
+    const decoder = new StringDecoder('utf8');
+    let size = 0;
+    let failed = false;
+
+    const fail = (err: unknown) => {
+      failed = true;
+      reject(err);
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      if (failed) return;
+      size += chunk.length;
+      try {
+        if (size > maxBytes) {
+          throw new PayloadTooLargeException(
+            `HAR file must be smaller than ${maxBytes / 1024 / 1024} MB`,
+          );
+        }
+        parser.write(decoder.write(chunk));
+      } catch (err) {
+        fail(err);
+      }
+    });
+    stream.on('end', () => {
+      if (failed) return;
+      try {
+        parser.write(decoder.end());
+        parser.end();
+        resolve(size);
+      } catch (err) {
+        fail(err);
+      }
+    });
+    stream.on('error', (err) => {
+      if (!failed) fail(err);
+    });
+  });
+}
@@ -16,15 +16,28 @@ export interface HarPostData {
   params?: Array<{ name: string; value: string }>;
 }
 
+export interface HarCookie {
+  name: string;
+  value: string;
+  path?: string;
+  domain?: string;
+  expires?: string | null;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: string;
+}
+
 export interface HarRequest {
   method: string;
   url: string;
   headers: HarHeader[];
+  cookies?: HarCookie[];
   queryString?: HarQueryString[];
   postData?: HarPostData;
 }
 
 export interface HarContent {
+  size?: number;
   mimeType?: string;
   text?: string;
   encoding?: string;
@@ -34,12 +47,26 @@ export interface HarResponse {
   status: number;
   statusText?: string;
   headers: HarHeader[];
+  cookies?: HarCookie[];
   content?: HarContent;
 }
 
+export interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
 export interface HarEntry {
+  startedDateTime?: string;
+  time?: number;
   request: HarRequest;
   response: HarResponse;
+  timings?: HarTimings;
 }
 
 export interface HarLog {
@@ -51,12 +78,35 @@ export interface HarRoot {
   log: HarLog;
 }
 
+export type GraphqlOperationType = 'query' | 'mutation' | 'subscription';
+
+/** GraphQL operation carried by a request entry. */
+export interface GraphqlOperationInfo {
+  operationName?: string;
+  operationType?: GraphqlOperationType;
+  persistedQueryHash?: string;
+}
+
+/** A cookie sent with a request, and whether replaying the request is likely to need it. */
+export interface RequestCookie {
+  name: string;
+  value: string;
+  /** `request`: captured on the request; `jar`: set by an earlier response but missing from the capture. */
+  source: 'request' | 'jar';
+  needed: boolean;
+  /** Why `needed` was decided, e.g. `set by api.example.com` or `analytics cookie`. */
+  reason: string;
+}
+
 export interface RequestSummary {
   method: string;
   url: string;
   headers: HarHeader[];
   queryString?: HarQueryString[];
   postData?: HarPostData;
+  graphql?: GraphqlOperationInfo;
+  /** Cookies in effect for this request; when present, generated code sends only the needed ones. */
+  cookies?: RequestCookie[];
 }
 
 export interface MinimalRequestSummary {
@@ -64,8 +114,56 @@ export interface MinimalRequestSummary {
   url: string;
   headers: Record<string, string>;
   postData?: { mimeType?: string; text: string };
+  /** Templated endpoint this request stands in for, e.g. `GET /users/{id}`. */
+  endpoint?: string;
+  sampleCount?: number;
+  /** e.g. `mutation CreateUser` for GraphQL requests. */
+  graphqlOperation?: string;
+  response?: {
+    status: number;
+    mimeType?: string;
+    /** Structure of a JSON body: keys, nested shapes and array lengths. */
+    shape?: string;
+    bodyExcerpt?: string;
+  };
+}
+
+export interface ResponseSummary {
+  statusText?: string;
+  headers: HarHeader[];
+  mimeType?: string;
+  /** Decoded text body, cut to MAX_RESPONSE_BODY_CHARS. Absent for binary or empty bodies. */
+  body?: string;
+  /** Size in bytes of the full decoded body (or as reported by the HAR). */
+  bodySize?: number;
+  bodyTruncated?: boolean;
+  /** Structure of the full JSON body (see describeJsonShape), computed before truncation. */
+  shape?: string;
+  /** Cookies set by this response (HAR `cookies`, else parsed `Set-Cookie` headers). */
+  cookies?: HarCookie[];
+}
+
+/** A request value that first appeared in the response of an earlier entry. */
+export interface ValueDependency {
+  /** Where the request uses it: `header:X-CSRF-Token`, `cookie:sid`, `path[2]`, `query:id` or `body:$.user.id`. */
+  location: string;
+  value: string;
+  /** Index in the entry list of the request whose response carried the value. */
+  sourceIndex: number;
+  /** JSONPath into that response's body (`$.data.token`), `header:Name`, `set-cookie:name`, or `body` for a non-JSON body. */
+  sourcePath: string;
+  /** `contains` when only a token of the request value matched, e.g. the token after `Bearer `. */
+  match: 'exact' | 'contains';
 }
 
 export interface ParseEntry extends RequestSummary {
   status: number;
+  response?: ResponseSummary;
+  startedDateTime?: string;
+  /** Total elapsed time in ms. */
+  time?: number;
+  timings?: HarTimings;
+  dependencies?: ValueDependency[];
+  /** The uploaded file the entry came from, when several were merged into one session. */
+  sourceFile?: string;
 }
@@ -0,0 +1,188 @@
+import { classifyPathSegment } from './endpoint-group.util';
+import type { RequestSummary, ResponseSummary } from './har.types';
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Path and operation-name terms are counted this many times; they say the most about what an endpoint does. */
+const PRIMARY_FIELD_WEIGHT = 2;
+
+const STOPWORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'api',
+  'by',
+  'for',
+  'from',
+  'get',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'with',
+  // Type names that appear in response shapes.
+  'array',
+  'boolean',
+  'null',
+  'number',
+  'object',
+  'string',
+  'undefined',
+]);
+
+export interface LexicalMatch {
+  /** Index into the list that was ranked. */
+  index: number;
+  /** BM25 score; only comparable within one ranking. */
+  score: number;
+  /** Share (0-1) of the description's IDF weight this request contains. */
+  coverage: number;
+  matchedTerms: string[];
+}
+
+type RankableRequest = Pick<RequestSummary, 'method' | 'url' | 'headers' | 'postData' | 'graphql'> & {
+  response?: ResponseSummary;
+};
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/** Split camelCase, snake_case, kebab-case and punctuation into lowercase, plural-stemmed terms. */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !/^\d+$/.test(t) && !STOPWORDS.has(t))
+    .map(stem);
+}
+
+/** Every object key in a JSON document, at any depth. Empty when the text is not JSON. */
+function jsonKeys(text: string | undefined): string[] {
+  if (!text) return [];
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  const keys: string[] = [];
+  const visit = (v: unknown): void => {
+    if (Array.isArray(v)) {
+      v.forEach(visit);
+    } else if (v != null && typeof v === 'object') {
+      for (const [k, child] of Object.entries(v)) {
+        keys.push(k);
+        visit(child);
+      }
+    }
+  };
+  visit(value);
+  return keys;
+}
+
+function formKeys(text: string | undefined): string[] {
+  if (!text || !text.includes('=')) return [];
+  return [...new URLSearchParams(text).keys()];
+}
+
+/**
+ * Terms describing a request: URL path segments (ID-like ones dropped), query
+ * keys, header names, request and response body keys, the response MIME type
+ * and the GraphQL operation name.
+ */
+export function requestTerms(request: RankableRequest): string[] {
+  const primary: string[] = [];
+  const secondary: string[] = [];
+  try {
+    const url = new URL(request.url);
+    for (const segment of url.pathname.split('/')) {
+      if (segment && !classifyPathSegment(segment)) primary.push(segment);
+    }
+    secondary.push(...url.searchParams.keys());
+  } catch {
+    primary.push(request.url);
+  }
+  if (request.graphql?.operationName) primary.push(request.graphql.operationName);
+  for (const h of request.headers ?? []) secondary.push(h.name);
+
+  const postText = request.postData?.text;
+  const mime = (request.postData?.mimeType ?? '').toLowerCase();
+  secondary.push(
+    ...(mime.includes('x-www-form-urlencoded') ? formKeys(postText) : jsonKeys(postText)),
+  );
+
+  const res = request.response;
+  if (res) {
+    if (res.mimeType) secondary.push(res.mimeType);
+    const keys = res.bodyTruncated ? [] : jsonKeys(res.body);
+    // A truncated body no longer parses; its precomputed shape still names the keys.
+    secondary.push(...(keys.length ? keys : res.shape ? [res.shape] : []));
+  }
+
+  const terms = tokenize(primary.join(' '));
+  const weighted: string[] = [];
+  for (let i = 0; i < PRIMARY_FIELD_WEIGHT; i++) weighted.push(...terms);
+  return weighted.concat(tokenize(secondary.join(' ')));
+}
+
+/**
+ * Rank requests against a free-text description with Okapi BM25, entirely
+ * locally. Returns every request with a non-zero score, best first; ties keep
+ * input order.
+ */
+export function rankLexically(
+  description: string,
+  requests: RankableRequest[],
+): LexicalMatch[] {
+  const queryTerms = [...new Set(tokenize(description))];
+  if (queryTerms.length === 0 || requests.length === 0) return [];
+
+  const docs = requests.map((r) => {
+    const terms = requestTerms(r);
+    const tf = new Map<string, number>();
+    for (const t of terms) tf.set(t, (tf.get(t) ?? 0) + 1);
+    return { length: terms.length, tf };
+  });
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = docs.filter((d) => d.tf.has(term)).length;
+    idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+  }
+  const totalIdf = queryTerms.reduce((sum, t) => sum + idf.get(t)!, 0);
+
+  const matches: LexicalMatch[] = [];
+  docs.forEach((doc, index) => {
+    let score = 0;
+    let matchedIdf = 0;
+    const matchedTerms: string[] = [];
+    for (const term of queryTerms) {
+      const f = doc.tf.get(term);
+      if (!f) continue;
+      const termIdf = idf.get(term)!;
+      score +=
+        (termIdf * f * (BM25_K1 + 1)) /
+        (f + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength));
+      matchedIdf += termIdf;
+      matchedTerms.push(term);
+    }
+    if (score > 0) {
+      matches.push({ index, score, coverage: matchedIdf / totalIdf, matchedTerms });
+    }
+  });
+  return matches.sort((a, b) => b.score - a.score || a.index - b.index);
+}
@@ -0,0 +1,340 @@
+import { BadRequestException } from '@nestjs/common';
+import { TRACKER_DOMAINS } from '../constants';
+import type { HarEntry } from './har.types';
+
+export type ResourceType =
+  | 'document'
+  | 'api'
+  | 'script'
+  | 'stylesheet'
+  | 'image'
+  | 'font'
+  | 'media'
+  | 'sourcemap'
+  | 'other';
+
+export type FilterProfileName = 'minimal' | 'api' | 'none';
+
+/**
+ * User-defined rule. All given conditions must match. Include rules form an
+ * allowlist: once any exist, entries matching none of them are removed.
+ */
+export interface FilterRule {
+  action: 'include' | 'exclude';
+  /** Exact host, or `*.example.com` for the domain and its subdomains. */
+  host?: string;
+  /** Glob over the URL path: `*` stays within a segment, `**` spans segments. */
+  pathGlob?: string;
+  method?: string;
+}
+
+export interface FilterOptions {
+  profile?: FilterProfileName;
+  rules?: FilterRule[];
+}
+
+export interface FilterReport {
+  profile: FilterProfileName;
+  total: number;
+  removedByRule: Array<{ rule: string; count: number }>;
+}
+
+interface ProfileDefinition {
+  excludeResourceTypes: ResourceType[];
+  excludeTrackers: boolean;
+}
+
+export const FILTER_PROFILES: Record<FilterProfileName, ProfileDefinition> = {
+  minimal: { excludeResourceTypes: ['document'], excludeTrackers: false },
+  api: {
+    excludeResourceTypes: [
+      'document',
+      'script',
+      'stylesheet',
+      'image',
+      'font',
+      'media',
+      'sourcemap',
+    ],
+    excludeTrackers: true,
+  },
+  none: { excludeResourceTypes: [], excludeTrackers: false },
+};
+
+export const DEFAULT_FILTER_PROFILE: FilterProfileName = 'minimal';
+
+const EXTENSION_TYPES: Record<string, ResourceType> = {
+  html: 'document',
+  htm: 'document',
+  js: 'script',
+  mjs: 'script',
+  cjs: 'script',
+  css: 'stylesheet',
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  avif: 'image',
+  svg: 'image',
+  ico: 'image',
+  bmp: 'image',
+  woff: 'font',
+  woff2: 'font',
+  ttf: 'font',
+  otf: 'font',
+  eot: 'font',
+  mp3: 'media',
+  mp4: 'media',
+  m4a: 'media',
+  webm: 'media',
+  ogg: 'media',
+  wav: 'media',
+  m3u8: 'media',
+  map: 'sourcemap',
+};
+
+function responseMimeType(entry: HarEntry): string {
+  const res = entry.response;
+  const raw =
+    res?.content?.mimeType ||
+    res?.headers?.find((h) => h.name.toLowerCase() === 'content-type')?.value ||
+    '';
+  return raw.split(';')[0]!.trim().toLowerCase();
+}
+
+function urlExtension(url: string): string {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    path = url.split(/[?#]/)[0] ?? '';
+  }
+  const last = path.slice(path.lastIndexOf('/') + 1);
+  const dot = last.lastIndexOf('.');
+  return dot === -1 ? '' : last.slice(dot + 1).toLowerCase();
+}
+
+function mimeToResourceType(mime: string): ResourceType | null {
+  if (!mime) return null;
+  if (mime === 'text/html' || mime === 'application/xhtml+xml') return 'document';
+  if (mime === 'text/css') return 'stylesheet';
+  if (mime.includes('javascript') || mime.includes('ecmascript')) return 'script';
+  if (mime.startsWith('image/')) return 'image';
+  if (
+    mime.startsWith('font/') ||
+    mime.startsWith('application/font-') ||
+    mime.startsWith('application/x-font-') ||
+    mime === 'application/vnd.ms-fontobject'
+  ) {
+    return 'font';
+  }
+  if (mime.startsWith('audio/') || mime.startsWith('video/')) return 'media';
+  if (
+    mime.includes('json') ||
+    mime.includes('xml') ||
+    mime.includes('graphql') ||
+    mime.includes('protobuf') ||
+    mime === 'text/plain' ||
+    mime === 'application/x-www-form-urlencoded'
+  ) {
+    return 'api';
+  }
+  return null;
+}
+
+/** Classify an entry by response MIME type, falling back to the URL extension. */
+export function classifyResourceType(entry: HarEntry): ResourceType {
+  const ext = urlExtension(entry.request.url);
+  if (ext === 'map') return 'sourcemap';
+  return (
+    mimeToResourceType(responseMimeType(entry)) ?? EXTENSION_TYPES[ext] ?? 'other'
+  );
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+function pathOf(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+export function isTrackerHost(host: string): boolean {
+  return TRACKER_DOMAINS.some(
+    (domain) => host === domain || host.endsWith('.' + domain),
+  );
+}
+
+function globToRegExp(glob: string): RegExp {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        out += '.*';
+        i++;
+      } else {
+        out += '[^/]*';
+      }
+    } else if (c === '?') {
+      out += '[^/]';
+    } else {
+      out += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${out}$`);
+}
+
+function hostMatches(pattern: string, host: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.startsWith('*.')) {
+    const domain = p.slice(2);
+    return host === domain || host.endsWith('.' + domain);
+  }
+  return host === p;
+}
+
+interface CompiledRule {
+  id: string;
+  rule: FilterRule;
+  path: RegExp | null;
+}
+
+function describeRule(rule: FilterRule, index: number): string {
+  const parts = [rule.method?.toUpperCase(), rule.host, rule.pathGlob].filter(
+    Boolean,
+  );
+  return `${rule.action}[${index}]${parts.length ? ': ' + parts.join(' ') : ''}`;
+}
+
+/**
+ * Ordered filter pipeline. Each entry is checked against user exclude rules,
+ * the include allowlist, the tracker domain list and the profile's resource
+ * types; the first rule that removes an entry is the one it is counted under.
+ */
+export class NoiseFilter {
+  readonly profile: FilterProfileName;
+  private readonly definition: ProfileDefinition;
+  private readonly includes: CompiledRule[];
+  private readonly excludes: CompiledRule[];
+
+  constructor(options: FilterOptions = {}) {
+    this.profile = options.profile ?? DEFAULT_FILTER_PROFILE;
+    this.definition = FILTER_PROFILES[this.profile];
+    const compiled = (options.rules ?? []).map((rule, i) => ({
+      id: describeRule(rule, i),
+      rule,
+      path: rule.pathGlob ? globToRegExp(rule.pathGlob) : null,
+    }));
+    this.includes = compiled.filter((c) => c.rule.action === 'include');
+    this.excludes = compiled.filter((c) => c.rule.action === 'exclude');
+  }
+
+  /** Returns the id of the rule that removes this entry, or null to keep it. */
+  evaluate(entry: HarEntry): string | null {
+    const host = hostOf(entry.request.url);
+    const path = pathOf(entry.request.url);
+    const method = entry.request.method.toUpperCase();
+
+    for (const c of this.excludes) {
+      if (this.ruleMatches(c, host, path, method)) return c.id;
+    }
+    if (
+      this.includes.length > 0 &&
+      !this.includes.some((c) => this.ruleMatches(c, host, path, method))
+    ) {
+      return 'include-rules';
+    }
+    if (this.definition.excludeTrackers && isTrackerHost(host)) {
+      return 'tracker-domain';
+    }
+    const type = classifyResourceType(entry);
+    if (this.definition.excludeResourceTypes.includes(type)) {
+      return `resource-type:${type}`;
+    }
+    return null;
+  }
+
+  private ruleMatches(
+    c: CompiledRule,
+    host: string,
+    path: string,
+    method: string,
+  ): boolean {
+    if (c.rule.method && c.rule.method.toUpperCase() !== method) return false;
+    if (c.rule.host && !hostMatches(c.rule.host, host)) return false;
+    if (c.path && !c.path.test(path)) return false;
+    return true;
+  }
+}
+
+/**
+ * Validate filter options from a request. `rules` may be an array or a JSON
+ * string (as sent in multipart form fields).
+ */
+export function parseFilterOptions(raw: {
+  profile?: unknown;
+  rules?: unknown;
+}): FilterOptions {
+  const options: FilterOptions = {};
+  if (raw.profile != null && raw.profile !== '') {
+    if (
+      typeof raw.profile !== 'string' ||
+      !Object.prototype.hasOwnProperty.call(FILTER_PROFILES, raw.profile)
+    ) {
+      throw new BadRequestException(
+        `profile must be one of: ${Object.keys(FILTER_PROFILES).join(', ')}`,
+      );
+    }
+    options.profile = raw.profile as FilterProfileName;
+  }
+
+  let rules = raw.rules;
+  if (typeof rules === 'string') {
+    if (!rules.trim()) rules = undefined;
+    else {
+      try {
+        rules = JSON.parse(rules);
+      } catch {
+        throw new BadRequestException('rules must be a JSON array');
+      }
+    }
+  }
+  if (rules == null) return options;
+  if (!Array.isArray(rules)) {
+    throw new BadRequestException('rules must be an array');
+  }
+  options.rules = rules.map((r, i) => {
+    if (r == null || typeof r !== 'object') {
+      throw new BadRequestException(`rules[${i}] must be an object`);
+    }
+    const obj = r as Record<string, unknown>;
+    if (obj.action !== 'include' && obj.action !== 'exclude') {
+      throw new BadRequestException(
+        `rules[${i}].action must be "include" or "exclude"`,
+      );
+    }
+    const rule: FilterRule = { action: obj.action };
+    for (const key of ['host', 'pathGlob', 'method'] as const) {
+      const value = obj[key];
+      if (value == null) continue;
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new BadRequestException(
+          `rules[${i}].${key} must be a non-empty string`,
+        );
+      }
+      rule[key] = value.trim();
+    }
+    return rule;
+  });
+  return options;
+}
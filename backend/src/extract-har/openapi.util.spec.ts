@@ -0,0 +1,19 @@
+import type { ParseEntry } from './har.types';
+import { buildOpenApiDocument } from './openapi.util';
+
+const entry = (method: string, url: string): ParseEntry => ({ method, url, headers: [], status: 200 });
+
+describe('buildOpenApiDocument', () => {
+  it('gives an operation the server of the origin it was captured on', () => {
+    const doc = buildOpenApiDocument([
+      entry('GET', 'https://a.example.com/users/1'),
+      entry('GET', 'https://b.example.com/users/2'),
+      entry('DELETE', 'https://b.example.com/users/3'),
+    ]);
+    expect(doc.servers).toEqual([{ url: 'https://a.example.com' }, { url: 'https://b.example.com' }]);
+    const item = doc.paths['/users/{id}']!;
+    expect(Object.keys(item)).toEqual(['get', 'delete']);
+    expect(item.get!.servers).toBeUndefined();
+    expect(item.delete!.servers).toEqual([{ url: 'https://b.example.com' }]);
+  });
+});
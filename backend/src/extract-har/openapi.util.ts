@@ -0,0 +1,288 @@
+import { STATUS_CODES } from 'node:http';
+import { endpointKeyParts } from './endpoint-group.util';
+import type { ParseEntry } from './har.types';
+import { isSecretHeader, isSecretKey } from './redaction.util';
+import {
+  endpointTypeName,
+  inferJsonSchema,
+  parseJsonBody,
+  type JsonSchema,
+} from './schema.util';
+
+export type SecurityScheme =
+  | { type: 'http'; scheme: 'bearer' | 'basic'; bearerFormat?: string }
+  | { type: 'apiKey'; in: 'header' | 'query' | 'cookie'; name: string };
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+  example?: string | number;
+}
+
+export interface OpenApiMediaType {
+  schema: JsonSchema;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, OpenApiMediaType> };
+  responses: Record<string, { description: string; content?: Record<string, OpenApiMediaType> }>;
+  security?: Array<Record<string, string[]>>;
+  /** Set when the operation was captured on another origin than the document's first server. */
+  servers?: Array<{ url: string }>;
+  /** Number of captured requests the operation was built from. */
+  'x-samples': number;
+}
+
+/** The parts of an OpenAPI 3.1 document the export fills in. */
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: { securitySchemes?: Record<string, SecurityScheme> };
+}
+
+const JWT_RE = /^eyJ[\w-]+\.eyJ[\w-]+\.[\w-]*$/;
+const INTEGER_RE = /^-?\d+$/;
+
+function mediaType(mimeType: string | undefined): string | undefined {
+  return mimeType?.split(';')[0]!.trim().toLowerCase() || undefined;
+}
+
+/** Schema for captured string values of a path or query parameter; numeric IDs become integers. */
+function parameterSchema(values: string[]): JsonSchema {
+  if (values.length > 0 && values.every((v) => INTEGER_RE.test(v) && v.length < 16)) {
+    return { type: 'integer' };
+  }
+  return inferJsonSchema(values);
+}
+
+function queryParams(entry: ParseEntry): Array<{ name: string; value: string }> {
+  if (entry.queryString) return entry.queryString;
+  try {
+    return [...new URL(entry.url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function pathSegments(url: string): string[] {
+  try {
+    return new URL(url).pathname.split('/').map((s) => {
+      try {
+        return decodeURIComponent(s);
+      } catch {
+        return s;
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+/** Security schemes a request uses, keyed by the name they get under components.securitySchemes. */
+function detectSecurity(entry: ParseEntry): Map<string, SecurityScheme> {
+  const found = new Map<string, SecurityScheme>();
+  for (const h of entry.headers ?? []) {
+    const name = h.name.toLowerCase();
+    if (name === 'cookie' || name.startsWith(':')) continue;
+    if (name === 'authorization') {
+      const [kind, token = ''] = h.value.trim().split(/\s+/, 2);
+      if (/^bearer$/i.test(kind!)) {
+        found.set('bearerAuth', {
+          type: 'http',
+          scheme: 'bearer',
+          ...(JWT_RE.test(token) ? { bearerFormat: 'JWT' } : {}),
+        });
+      } else if (/^basic$/i.test(kind!)) {
+        found.set('basicAuth', { type: 'http', scheme: 'basic' });
+      } else {
+        found.set('header.Authorization', { type: 'apiKey', in: 'header', name: 'Authorization' });
+      }
+    } else if (isSecretHeader(name)) {
+      found.set(`header.${h.name}`, { type: 'apiKey', in: 'header', name: h.name });
+    }
+  }
+  for (const q of queryParams(entry)) {
+    if (isSecretKey(q.name)) found.set(`query.${q.name}`, { type: 'apiKey', in: 'query', name: q.name });
+  }
+  for (const c of entry.cookies ?? []) {
+    if (c.needed && isSecretKey(c.name)) {
+      found.set(`cookie.${c.name.replace(/[^\w.-]/g, '_')}`, { type: 'apiKey', in: 'cookie', name: c.name });
+    }
+  }
+  return found;
+}
+
+/** Path and query parameters, with a query parameter required when every sample sent it. */
+function operationParameters(pathTemplate: string, samples: ParseEntry[]): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = [];
+  pathTemplate.split('/').forEach((segment, position) => {
+    const name = segment.match(/^\{(.+)\}$/)?.[1];
+    if (!name) return;
+    const values = samples.map((e) => pathSegments(e.url)[position] ?? '').filter(Boolean);
+    const schema = parameterSchema(values);
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      schema,
+      ...(values[0] != null ? { example: schema.type === 'integer' ? Number(values[0]) : values[0] } : {}),
+    });
+  });
+
+  const query = new Map<string, { values: string[]; samples: number }>();
+  for (const entry of samples) {
+    const seen = new Set<string>();
+    for (const q of queryParams(entry)) {
+      if (isSecretKey(q.name)) continue;
+      const param = query.get(q.name) ?? { values: [], samples: 0 };
+      param.values.push(q.value);
+      if (!seen.has(q.name)) param.samples++;
+      seen.add(q.name);
+      query.set(q.name, param);
+    }
+  }
+  for (const [name, { values, samples: count }] of query) {
+    const schema = parameterSchema(values);
+    parameters.push({
+      name,
+      in: 'query',
+      required: count === samples.length,
+      schema,
+      example: schema.type === 'integer' ? Number(values[0]) : values[0],
+    });
+  }
+  return parameters;
+}
+
+function requestBody(samples: ParseEntry[]): OpenApiOperation['requestBody'] {
+  const withBody = samples.filter((e) => e.postData?.text);
+  if (withBody.length === 0) return undefined;
+  const byType = new Map<string, unknown[]>();
+  for (const e of withBody) {
+    const type = mediaType(e.postData!.mimeType) ?? 'application/octet-stream';
+    const bodies = byType.get(type) ?? [];
+    if (type === 'application/x-www-form-urlencoded') {
+      bodies.push(Object.fromEntries(new URLSearchParams(e.postData!.text)));
+    } else {
+      const parsed = parseJsonBody(e.postData!.text);
+      if (parsed) bodies.push(parsed.value);
+    }
+    byType.set(type, bodies);
+  }
+  const content: Record<string, OpenApiMediaType> = {};
+  for (const [type, bodies] of byType) {
+    content[type] = { schema: bodies.length ? inferJsonSchema(bodies) : { type: 'string' } };
+  }
+  return { required: withBody.length === samples.length, content };
+}
+
+function responses(samples: ParseEntry[]): OpenApiOperation['responses'] {
+  const byStatus = new Map<number, ParseEntry[]>();
+  for (const e of samples) {
+    // Status 0 means the request never got an answer.
+    if (!e.status) continue;
+    byStatus.set(e.status, [...(byStatus.get(e.status) ?? []), e]);
+  }
+  const out: OpenApiOperation['responses'] = {};
+  for (const [status, entries] of [...byStatus].sort(([a], [b]) => a - b)) {
+    const content: Record<string, OpenApiMediaType> = {};
+    const bodies = new Map<string, unknown[]>();
+    for (const e of entries) {
+      const type = mediaType(e.response?.mimeType);
+      if (!type) continue;
+      const list = bodies.get(type) ?? [];
+      const parsed = e.response?.bodyTruncated ? undefined : parseJsonBody(e.response?.body);
+      if (parsed) list.push(parsed.value);
+      bodies.set(type, list);
+    }
+    for (const [type, list] of bodies) {
+      content[type] = { schema: list.length ? inferJsonSchema(list) : {} };
+    }
+    out[String(status)] = {
+      description: entries[0]!.response?.statusText || STATUS_CODES[status] || `Status ${status}`,
+      ...(Object.keys(content).length ? { content } : {}),
+    };
+  }
+  if (Object.keys(out).length === 0) out.default = { description: 'No response captured' };
+  return out;
+}
+
+function camelCase(name: string): string {
+  return name[0]!.toLowerCase() + name.slice(1);
+}
+
+/**
+ * Starting OpenAPI 3.1 document for the captured requests. Requests to the
+ * same method and templated path (`/users/{id}`) become one operation whose
+ * parameters, request body and per-status responses are merged from every
+ * sample. Credentials found in headers, query parameters and cookies become
+ * security schemes; their values are not included.
+ */
+export function buildOpenApiDocument(entries: ParseEntry[], title = 'Captured API'): OpenApiDocument {
+  const operations = new Map<
+    string,
+    { method: string; origin: string; pathTemplate: string; samples: ParseEntry[] }
+  >();
+  for (const entry of entries) {
+    const parts = endpointKeyParts(entry);
+    const key = `${parts.origin} ${parts.method} ${parts.pathTemplate}`;
+    const op = operations.get(key);
+    if (op) op.samples.push(entry);
+    else operations.set(key, { ...parts, samples: [entry] });
+  }
+
+  const origins = [...new Set([...operations.values()].map((o) => o.origin).filter(Boolean))];
+  const doc: OpenApiDocument = {
+    openapi: '3.1.0',
+    info: {
+      title,
+      version: '0.1.0',
+      description: `Generated from ${entries.length} captured request${entries.length === 1 ? '' : 's'}. Schemas are inferred from the samples; review before publishing.`,
+    },
+    servers: origins.map((url) => ({ url })),
+    paths: {},
+    components: {},
+  };
+  const schemes: Record<string, SecurityScheme> = {};
+  const usedIds = new Set<string>();
+
+  for (const { method, origin, pathTemplate, samples } of operations.values()) {
+    const path = pathTemplate.startsWith('/') ? pathTemplate : `/${pathTemplate}`;
+    const item = (doc.paths[path] ??= {});
+    const verb = method.toLowerCase();
+    // Same path and method on another origin: the first capture wins.
+    if (item[verb]) continue;
+
+    const baseId = camelCase(endpointTypeName({ method, pathTemplate }));
+    let operationId = baseId;
+    for (let n = 2; usedIds.has(operationId); n++) operationId = `${baseId}${n}`;
+    usedIds.add(operationId);
+
+    const security = new Map<string, SecurityScheme>();
+    for (const e of samples) for (const [name, scheme] of detectSecurity(e)) security.set(name, scheme);
+    for (const [name, scheme] of security) schemes[name] = scheme;
+
+    const parameters = operationParameters(path, samples);
+    const body = requestBody(samples);
+    const operation: OpenApiOperation = {
+      operationId,
+      summary: `${method} ${path}`,
+      ...(parameters.length ? { parameters } : {}),
+      ...(body ? { requestBody: body } : {}),
+      responses: responses(samples),
+      ...(security.size ? { security: [Object.fromEntries([...security.keys()].map((k) => [k, []]))] } : {}),
+      ...(origin && origin !== origins[0] ? { servers: [{ url: origin }] } : {}),
+      'x-samples': samples.length,
+    };
+    item[verb] = operation;
+  }
+  if (Object.keys(schemes).length) doc.components.securitySchemes = schemes;
+  return doc;
+}
@@ -0,0 +1,211 @@
+import { classifyPathSegment } from './endpoint-group.util';
+import type { ParseEntry, ValueDependency } from './har.types';
+
+/** Request headers whose values are fixed by the client, not taken from responses. */
+const STATIC_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'cache-control',
+  'connection',
+  'content-length',
+  'content-type',
+  'cookie',
+  'dnt',
+  'host',
+  'origin',
+  'pragma',
+  'priority',
+  'referer',
+  'upgrade-insecure-requests',
+  'user-agent',
+]);
+
+/** Response headers that never carry values a later request reuses. */
+const IGNORED_RESPONSE_HEADERS = new Set([
+  'content-length',
+  'content-type',
+  'date',
+  'expires',
+  'last-modified',
+  'server',
+  'set-cookie',
+  'vary',
+]);
+
+/** Only the most recent text (non-JSON) bodies are searched; they cannot be indexed by value. */
+const MAX_TEXT_BODIES_SCANNED = 50;
+const MIN_CONTAINED_TOKEN_CHARS = 8;
+const MAX_VALUE_CHARS = 4096;
+
+interface ValueSource {
+  index: number;
+  path: string;
+}
+
+interface RequestValue {
+  location: string;
+  value: string;
+}
+
+/**
+ * Values worth tracing: strings of at least 6 characters or numbers of at
+ * least 4 digits. Shorter values (page sizes, flags) match by coincidence.
+ */
+function isDynamicValue(value: string): boolean {
+  if (value.length > MAX_VALUE_CHARS) return false;
+  if (/^\d+$/.test(value)) return value.length >= 4;
+  if (value === 'true' || value === 'false' || value === 'null') return false;
+  return value.length >= 6;
+}
+
+function jsonPathKey(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/** Every string and number leaf of a JSON value with its JSONPath. */
+function jsonLeaves(value: unknown, path = '$', out: RequestValue[] = []): RequestValue[] {
+  if (typeof value === 'string') {
+    out.push({ location: path, value });
+  } else if (typeof value === 'number') {
+    out.push({ location: path, value: String(value) });
+  } else if (Array.isArray(value)) {
+    value.forEach((v, i) => jsonLeaves(v, `${path}[${i}]`, out));
+  } else if (value != null && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) jsonLeaves(v, jsonPathKey(path, k), out);
+  }
+  return out;
+}
+
+function parseJson(text: string | undefined): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Header, cookie, query, path and body values of a request that may have come from a response. */
+function requestValues(entry: ParseEntry): RequestValue[] {
+  const values: RequestValue[] = [];
+  for (const h of entry.headers ?? []) {
+    const name = h.name.toLowerCase();
+    if (STATIC_HEADERS.has(name) || name.startsWith('sec-')) continue;
+    values.push({ location: `header:${h.name}`, value: h.value });
+  }
+  for (const c of entry.cookies ?? []) {
+    values.push({ location: `cookie:${c.name}`, value: c.value });
+  }
+  try {
+    const url = new URL(entry.url);
+    url.pathname.split('/').forEach((segment, i) => {
+      if (segment && classifyPathSegment(segment)) {
+        values.push({ location: `path[${i}]`, value: decodeURIComponent(segment) });
+      }
+    });
+    for (const [k, v] of url.searchParams) values.push({ location: `query:${k}`, value: v });
+  } catch {
+    // Unparseable URL: nothing to trace in it.
+  }
+
+  const text = entry.postData?.text;
+  const mime = (entry.postData?.mimeType ?? '').toLowerCase();
+  if (text && mime.includes('x-www-form-urlencoded')) {
+    for (const [k, v] of new URLSearchParams(text)) {
+      values.push({ location: `body:${k}`, value: v });
+    }
+  } else {
+    const json = parseJson(text);
+    if (json !== undefined) {
+      for (const leaf of jsonLeaves(json)) {
+        values.push({ location: `body:${leaf.location}`, value: leaf.value });
+      }
+    }
+  }
+  return values.filter((v) => isDynamicValue(v.value));
+}
+
+/** Index of response values by exact value, most recent response winning. */
+class ResponseValueIndex {
+  private readonly byValue = new Map<string, ValueSource>();
+  private readonly textBodies: Array<{ index: number; body: string }> = [];
+
+  add(entry: ParseEntry, index: number): void {
+    const res = entry.response;
+    if (!res) return;
+    for (const h of res.headers ?? []) {
+      if (IGNORED_RESPONSE_HEADERS.has(h.name.toLowerCase())) continue;
+      this.set(h.value, { index, path: `header:${h.name}` });
+    }
+    for (const c of res.cookies ?? []) {
+      this.set(c.value, { index, path: `set-cookie:${c.name}` });
+    }
+    const json = res.bodyTruncated ? undefined : parseJson(res.body);
+    if (json !== undefined) {
+      for (const leaf of jsonLeaves(json)) {
+        this.set(leaf.value, { index, path: leaf.location });
+      }
+    } else if (res.body) {
+      this.textBodies.push({ index, body: res.body });
+      if (this.textBodies.length > MAX_TEXT_BODIES_SCANNED) this.textBodies.shift();
+    }
+  }
+
+  /** Where a value was last seen: exact JSON/header/cookie value first, then inside a text body. */
+  find(value: string): ValueSource | undefined {
+    const exact = this.byValue.get(value);
+    if (exact) return exact;
+    if (value.length < MIN_CONTAINED_TOKEN_CHARS) return undefined;
+    for (let i = this.textBodies.length - 1; i >= 0; i--) {
+      const { index, body } = this.textBodies[i]!;
+      if (body.includes(value)) return { index, path: 'body' };
+    }
+    return undefined;
+  }
+
+  private set(value: string, source: ValueSource): void {
+    if (isDynamicValue(value)) this.byValue.set(value, source);
+  }
+}
+
+/**
+ * For each entry, find which of its dynamic values (non-static headers,
+ * cookies, ID-like path segments, query and body values) appeared in the
+ * response of an earlier entry. A value that does not match whole is split
+ * into tokens, so `Bearer <token>` still traces to the response that issued
+ * `<token>`. Entries are taken to be in capture order.
+ */
+export function analyzeDependencies(entries: ParseEntry[]): ValueDependency[][] {
+  const index = new ResponseValueIndex();
+  return entries.map((entry, i) => {
+    const deps: ValueDependency[] = [];
+    for (const { location, value } of requestValues(entry)) {
+      let source = index.find(value);
+      let match: ValueDependency['match'] = 'exact';
+      let matched = value;
+      if (!source) {
+        for (const token of value.split(/[\s,;&=:"'<>()[\]{}]+/)) {
+          if (token.length < MIN_CONTAINED_TOKEN_CHARS || token === value) continue;
+          source = index.find(token);
+          if (source) {
+            match = 'contains';
+            matched = token;
+            break;
+          }
+        }
+      }
+      if (source) {
+        deps.push({
+          location,
+          value: matched,
+          sourceIndex: source.index,
+          sourcePath: source.path,
+          match,
+        });
+      }
+    }
+    index.add(entry, i);
+    return deps;
+  });
+}
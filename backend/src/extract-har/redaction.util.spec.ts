@@ -0,0 +1,59 @@
+import { parseRedactPatterns, Redactor } from './redaction.util';
+
+const request = (body: string) => ({
+  method: 'POST',
+  url: 'https://api.example.com/login',
+  headers: [],
+  response: { headers: [], mimeType: 'application/json', body },
+});
+
+describe('Redactor', () => {
+  it('redacts opaque tokens under secret-named keys in JSON responses', () => {
+    const redactor = new Redactor();
+    const out = redactor.redactRequest(
+      request('{"access_token":"8f2k1x9q7v","session":"abc123","user":{"name":"Ann"}}'),
+    );
+    expect(out.response!.body).not.toContain('8f2k1x9q7v');
+    expect(out.response!.body).not.toContain('abc123');
+    expect(out.response!.body).toContain('"name":"Ann"');
+    expect(redactor.audit().map((e) => e.locations[0])).toEqual([
+      'response:access_token',
+      'response:session',
+    ]);
+  });
+
+  it('redacts secret keys in a response body that was cut off', () => {
+    const out = new Redactor().redactRequest(request('{"refresh_token": "r7Yq2mZp", "items": [1, 2'));
+    expect(out.response!.body).toBe('{"refresh_token": "REDACTED_SECRET_1", "items": [1, 2');
+  });
+
+  it('gives the same value the same placeholder in requests and responses', () => {
+    const redactor = new Redactor();
+    const login = redactor.redactRequest(request('{"token":"tok_12345678"}'));
+    const next = redactor.redactRequest({
+      method: 'GET',
+      url: 'https://api.example.com/me',
+      headers: [{ name: 'X-Auth-Token', value: 'tok_12345678' }],
+    });
+    expect(login.response!.body).toBe('{"token":"REDACTED_SECRET_1"}');
+    expect(next.headers[0]!.value).toBe('REDACTED_SECRET_1');
+  });
+});
+
+describe('parseRedactPatterns', () => {
+  it('accepts ordinary patterns', () => {
+    expect(parseRedactPatterns(['acct-\\d{6}', '(?:foo|bar)-[a-z]+', '(ab)?c+'])).toHaveLength(3);
+  });
+
+  it.each(['(a+)+$', '(a|aa)*b', '((ab)*c)+', '(\\w+\\s?){2,}x'])(
+    'refuses %s, which can backtrack exponentially',
+    (source) => {
+      expect(() => parseRedactPatterns([source])).toThrow(/exponential/);
+    },
+  );
+
+  it('refuses overlong patterns and too many of them', () => {
+    expect(() => parseRedactPatterns(['a'.repeat(201)])).toThrow(/at most 200/);
+    expect(() => parseRedactPatterns(Array(21).fill('x'))).toThrow(/at most 20/);
+  });
+});
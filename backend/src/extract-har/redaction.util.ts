@@ -0,0 +1,369 @@
+import { BadRequestException } from '@nestjs/common';
+import { MAX_REDACT_PATTERN_LENGTH, MAX_REDACT_PATTERNS } from '../constants';
+import type { HarHeader, RequestSummary, ResponseSummary } from './har.types';
+
+export type RedactionKind =
+  | 'bearer'
+  | 'jwt'
+  | 'cookie'
+  | 'secret'
+  | 'email'
+  | 'card'
+  | 'custom';
+
+/** One redacted value: where it was found and a masked preview, never the value itself. */
+export interface RedactionAuditEntry {
+  placeholder: string;
+  kind: RedactionKind;
+  /** e.g. `header:Authorization`, `query:api_key`, `body:password`, `response`. */
+  locations: string[];
+  occurrences: number;
+  preview: string;
+}
+
+type RedactableRequest = RequestSummary & { status?: number; response?: ResponseSummary };
+
+const SECRET_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'api-key',
+  'apikey',
+  'x-auth-token',
+  'x-access-token',
+  'x-csrf-token',
+  'x-xsrf-token',
+  'x-amz-security-token',
+]);
+
+/** Substrings of a normalized key (lowercase, alphanumerics only) that mark its value as secret. */
+const SECRET_KEY_PARTS = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'apikey',
+  'accesskey',
+  'privatekey',
+  'credential',
+  'signature',
+  'session',
+];
+const SECRET_KEYS = new Set(['key', 'sig', 'auth', 'sid', 'otp', 'pin', 'ssn']);
+
+const JWT_RE = /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*/g;
+const BEARER_RE = /\b(Bearer\s+)([\w\-.~+/]{8,}=*)/gi;
+const EMAIL_RE = /\b[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+/** 15-16 digits starting with a card IIN digit, optionally grouped; excludes millisecond timestamps. */
+const CARD_RE = /\b[3-6]\d{3}(?:[ -]?\d{3,4}){3}\b/g;
+const PLACEHOLDER_RE = /REDACTED_[A-Z]+_\d+/g;
+/** `"key": "value"` in JSON that did not parse, e.g. a truncated response body. */
+const JSON_STRING_PAIR_RE = /"((?:[^"\\]|\\.)*)"(\s*:\s*)"((?:[^"\\]|\\.)*)"/g;
+
+/** Whether a query, form or JSON key names a secret (`password`, `api_key`, `sessionToken`, ...). */
+export function isSecretKey(key: string): boolean {
+  const normalized = key.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return (
+    SECRET_KEYS.has(normalized) ||
+    SECRET_KEY_PARTS.some((part) => normalized.includes(part))
+  );
+}
+
+/** Whether a header carries a credential, by its name. */
+export function isSecretHeader(name: string): boolean {
+  return SECRET_HEADERS.has(name.toLowerCase()) || isSecretKey(name);
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function maskPreview(value: string): string {
+  if (value.length <= 8) return `… (${value.length} chars)`;
+  return `${value.slice(0, 4)}… (${value.length} chars)`;
+}
+
+/**
+ * Whether a pattern repeats a group that itself repeats or alternates, as in
+ * `(a+)+` or `(a|aa)*`: the shapes that backtrack exponentially on a near
+ * miss. Character classes and escapes are skipped.
+ */
+function hasNestedRepetition(source: string): boolean {
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i]!;
+    if (c === '\\') {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (c === ']') inClass = false;
+      continue;
+    }
+    if (c === '[') inClass = true;
+    else if (c === '(') groups.push(false);
+    else if (c === '|' || c === '*' || c === '+' || (c === '{' && /^\{\d+,/.test(source.slice(i)))) {
+      if (groups.length) groups[groups.length - 1] = true;
+    } else if (c === ')') {
+      const repeats = groups.pop() ?? false;
+      const next = source.slice(i + 1);
+      const quantified = /^(?:[*+]|\{\d+,)/.test(next);
+      if (repeats && quantified) return true;
+      // A repeated group makes its enclosing group repeat too.
+      if ((repeats || quantified) && groups.length) groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Validate custom redaction patterns from a request: an array of regular
+ * expression sources. Every match of each pattern is redacted. Patterns run
+ * over every value sent to the model, so long patterns and nested
+ * repetition, which can take exponential time, are refused.
+ */
+export function parseRedactPatterns(raw: unknown): RegExp[] {
+  if (raw == null) return [];
+  if (!Array.isArray(raw)) {
+    throw new BadRequestException('redactPatterns must be an array of strings');
+  }
+  if (raw.length > MAX_REDACT_PATTERNS) {
+    throw new BadRequestException(`redactPatterns may hold at most ${MAX_REDACT_PATTERNS} patterns`);
+  }
+  return raw.map((source, i) => {
+    if (typeof source !== 'string' || !source) {
+      throw new BadRequestException(`redactPatterns[${i}] must be a non-empty string`);
+    }
+    if (source.length > MAX_REDACT_PATTERN_LENGTH) {
+      throw new BadRequestException(
+        `redactPatterns[${i}] must be at most ${MAX_REDACT_PATTERN_LENGTH} characters`,
+      );
+    }
+    if (hasNestedRepetition(source)) {
+      throw new BadRequestException(
+        `redactPatterns[${i}] repeats a group that itself repeats or alternates, which can take exponential time`,
+      );
+    }
+    try {
+      return new RegExp(source, 'g');
+    } catch {
+      throw new BadRequestException(`redactPatterns[${i}] is not a valid regular expression`);
+    }
+  });
+}
+
+/**
+ * Replaces secrets and PII in requests with stable placeholders
+ * (`REDACTED_BEARER_1`): the same value always gets the same placeholder, so
+ * the model can still tell that two requests share a token. Use one instance
+ * per match so `restore` and `audit` cover everything that was sent.
+ */
+export class Redactor {
+  private readonly placeholders = new Map<string, string>();
+  private readonly originals = new Map<string, string>();
+  private readonly entries = new Map<string, RedactionAuditEntry>();
+  private readonly counters = new Map<RedactionKind, number>();
+
+  constructor(private readonly customPatterns: RegExp[] = []) {}
+
+  /** Copy of the request with headers, query values, URL path, request body and response body redacted. */
+  redactRequest<T extends RedactableRequest>(request: T): T {
+    const out: T = {
+      ...request,
+      url: this.redactUrl(request.url),
+      headers: (request.headers ?? []).map((h) => this.redactHeader(h)),
+    };
+    if (request.postData?.text != null) {
+      out.postData = {
+        ...request.postData,
+        text: this.redactBody(request.postData.text, request.postData.mimeType, 'body'),
+      };
+    }
+    if (request.response?.body != null) {
+      out.response = {
+        ...request.response,
+        body: this.redactBody(request.response.body, request.response.mimeType, 'response'),
+      };
+    }
+    return out;
+  }
+
+  /** Put the original values back in text produced from redacted input. */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_RE, (p) => this.originals.get(p) ?? p);
+  }
+
+  audit(): RedactionAuditEntry[] {
+    return [...this.entries.values()];
+  }
+
+  private placeholderFor(value: string, kind: RedactionKind, location: string): string {
+    let placeholder = this.placeholders.get(value);
+    if (!placeholder) {
+      const n = (this.counters.get(kind) ?? 0) + 1;
+      this.counters.set(kind, n);
+      placeholder = `REDACTED_${kind.toUpperCase()}_${n}`;
+      this.placeholders.set(value, placeholder);
+      this.originals.set(placeholder, value);
+      this.entries.set(placeholder, {
+        placeholder,
+        kind,
+        locations: [],
+        occurrences: 0,
+        preview: maskPreview(value),
+      });
+    }
+    const entry = this.entries.get(placeholder)!;
+    entry.occurrences++;
+    if (!entry.locations.includes(location)) entry.locations.push(location);
+    return placeholder;
+  }
+
+  /** Redact pattern matches (custom patterns first, then JWTs, bearer tokens, emails, cards) in free text. */
+  private redactText(text: string, location: string): string {
+    let out = text;
+    for (const re of this.customPatterns) {
+      out = out.replace(re, (m) => (m ? this.placeholderFor(m, 'custom', location) : m));
+    }
+    out = out.replace(JWT_RE, (m) => this.placeholderFor(m, 'jwt', location));
+    out = out.replace(BEARER_RE, (m, prefix: string, token: string) =>
+      token.startsWith('REDACTED_')
+        ? m
+        : prefix + this.placeholderFor(token, 'bearer', location),
+    );
+    out = out.replace(EMAIL_RE, (m) => this.placeholderFor(m, 'email', location));
+    out = out.replace(CARD_RE, (m) =>
+      passesLuhn(m.replace(/\D/g, '')) ? this.placeholderFor(m, 'card', location) : m,
+    );
+    return out;
+  }
+
+  private redactHeader(header: HarHeader): HarHeader {
+    const name = header.name.toLowerCase();
+    const location = `header:${header.name}`;
+    if (name === 'cookie') {
+      return { ...header, value: this.redactCookies(header.value) };
+    }
+    if (name === 'authorization' || name === 'proxy-authorization') {
+      const m = header.value.match(/^(\S+)(\s+)(.+)$/);
+      if (m) {
+        const kind = m[1]!.toLowerCase() === 'bearer' ? 'bearer' : 'secret';
+        return { ...header, value: m[1]! + m[2]! + this.placeholderFor(m[3]!, kind, location) };
+      }
+    }
+    if (isSecretHeader(name)) {
+      if (!header.value) return header;
+      return { ...header, value: this.placeholderFor(header.value, 'secret', location) };
+    }
+    return { ...header, value: this.redactText(header.value, location) };
+  }
+
+  /** Every cookie value is treated as a session credential. */
+  private redactCookies(value: string): string {
+    return value
+      .split(';')
+      .map((pair) => {
+        const eq = pair.indexOf('=');
+        if (eq === -1) return pair;
+        const name = pair.slice(0, eq).trim();
+        const v = pair.slice(eq + 1).trim();
+        if (!v) return pair;
+        return `${pair.slice(0, eq)}=${this.placeholderFor(v, 'cookie', `cookie:${name}`)}`;
+      })
+      .join(';');
+  }
+
+  /** Redact values of secret query keys and patterns in the path, leaving the rest of the URL byte-for-byte. */
+  private redactUrl(url: string): string {
+    const q = url.indexOf('?');
+    const base = q === -1 ? url : url.slice(0, q);
+    const path = this.redactText(base, 'url');
+    if (q === -1) return path;
+    const query = url
+      .slice(q + 1)
+      .split('&')
+      .map((pair) => this.redactPair(pair, 'query'))
+      .join('&');
+    return `${path}?${query}`;
+  }
+
+  /** Redact one `key=value` pair from a query string or form body. */
+  private redactPair(pair: string, source: 'query' | 'body' | 'response'): string {
+    const eq = pair.indexOf('=');
+    if (eq === -1) return pair;
+    const rawKey = pair.slice(0, eq);
+    let key: string;
+    try {
+      key = decodeURIComponent(rawKey.replace(/\+/g, ' '));
+    } catch {
+      key = rawKey;
+    }
+    const value = pair.slice(eq + 1);
+    const location = `${source}:${key}`;
+    if (value && isSecretKey(key)) {
+      return `${rawKey}=${this.placeholderFor(value, 'secret', location)}`;
+    }
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+      return `${rawKey}=${this.redactText(value, location)}`;
+    }
+    const redacted = this.redactText(decoded, location);
+    return redacted === decoded ? pair : `${rawKey}=${encodeURIComponent(redacted)}`;
+  }
+
+  /**
+   * Form bodies pair by pair and JSON by key, so values under secret-named
+   * keys (`password`, `access_token`, `session`) are caught whatever they
+   * look like. JSON that does not parse, such as a truncated response, still
+   * has its `"key": "value"` pairs checked before the text patterns run.
+   */
+  private redactBody(text: string, mimeType: string | undefined, source: 'body' | 'response'): string {
+    const mime = (mimeType ?? '').toLowerCase();
+    if (mime.includes('x-www-form-urlencoded')) {
+      return text
+        .split('&')
+        .map((pair) => this.redactPair(pair, source))
+        .join('&');
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      const pairs = text.replace(JSON_STRING_PAIR_RE, (m, key: string, sep: string, value: string) =>
+        value && isSecretKey(key)
+          ? `"${key}"${sep}"${this.placeholderFor(value, 'secret', `${source}:${key}`)}"`
+          : m,
+      );
+      return this.redactText(pairs, source);
+    }
+    return JSON.stringify(this.redactJson(json, '', source));
+  }
+
+  private redactJson(value: unknown, key: string, source: 'body' | 'response'): unknown {
+    const location = key ? `${source}:${key}` : source;
+    if (typeof value === 'string') {
+      return key && value && isSecretKey(key)
+        ? this.placeholderFor(value, 'secret', location)
+        : this.redactText(value, location);
+    }
+    if (Array.isArray(value)) return value.map((v) => this.redactJson(v, key, source));
+    if (value != null && typeof value === 'object') {
+      const out: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value)) out[k] = this.redactJson(v, k, source);
+      return out;
+    }
+    return value;
+  }
+}
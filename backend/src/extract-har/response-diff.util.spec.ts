@@ -0,0 +1,56 @@
+import type { ExecuteResult } from './execute.util';
+import { diffResponses, type RecordedResponse } from './response-diff.util';
+
+const json = { name: 'content-type', value: 'application/json' };
+
+const recorded = (body: unknown): RecordedResponse => ({
+  status: 200,
+  response: { headers: [json], body: JSON.stringify(body) },
+});
+
+const replayed = (body: unknown): ExecuteResult => ({
+  status: 200,
+  statusText: 'OK',
+  headers: { 'content-type': 'application/json' },
+  body: JSON.stringify(body),
+  bodySize: 0,
+  bodyTruncated: false,
+  time: 0,
+  timings: { send: 0, wait: 0, receive: 0 },
+});
+
+const prices = (count: number, offset: number) =>
+  Object.fromEntries(Array.from({ length: count }, (_, i) => [`item${i}`, i + offset]));
+
+describe('diffResponses', () => {
+  it('calls a body with the same structure and other data same-shape', () => {
+    const diff = diffResponses(recorded(prices(3, 0)), replayed(prices(3, 1)));
+    expect(diff.verdict).toBe('same-shape');
+    expect(diff.reasons).toEqual(['3 value changes']);
+  });
+
+  it('calls a structural change diverged', () => {
+    const diff = diffResponses(recorded({ data: [] }), replayed({ error: 'denied' }));
+    expect(diff.verdict).toBe('diverged');
+  });
+
+  it('keeps value changes past the limit same-shape', () => {
+    const diff = diffResponses(recorded(prices(60, 0)), replayed(prices(60, 1)));
+    expect(diff.valueChanges).toHaveLength(50);
+    expect(diff.omittedChanges).toBe(10);
+    expect(diff.verdict).toBe('same-shape');
+    expect(diff.reasons).toEqual(['50 value changes', '10 more changes past the first 50 not listed']);
+  });
+
+  it('calls a shape change past the limit diverged', () => {
+    const diff = diffResponses(recorded(prices(60, 0)), replayed({ ...prices(60, 1), error: 'denied' }));
+    expect(diff.shapeChanges).toEqual([]);
+    expect(diff.omittedChanges).toBe(11);
+    expect(diff.verdict).toBe('diverged');
+    expect(diff.reasons).toEqual([
+      '1 shape change',
+      '50 value changes',
+      '11 more changes past the first 50 not listed',
+    ]);
+  });
+});
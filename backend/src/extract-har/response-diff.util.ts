@@ -0,0 +1,310 @@
+import type { ExecuteResult } from './execute.util';
+import type { ResponseSummary } from './har.types';
+import { describeJsonShape, inferBodyShape } from './response-shape.util';
+
+/**
+ * `equivalent`: same status, headers and body. `same-shape`: the same
+ * structure carrying different data. `diverged`: the replay answered
+ * differently, e.g. another status class or an error object in place of data.
+ */
+export type ReplayVerdict = 'equivalent' | 'same-shape' | 'diverged';
+
+/**
+ * One difference in a JSON body. `value` changes keep the structure; `added`,
+ * `removed` and `type` changes alter it. Paths use `[*]` for array elements
+ * in shape changes, since the same change usually repeats per element.
+ */
+export interface JsonChange {
+  path: string;
+  kind: 'value' | 'type' | 'added' | 'removed';
+  /** Compact preview of the recorded value (or its type for `type` changes). */
+  recorded?: string;
+  replayed?: string;
+}
+
+export interface HeaderChange {
+  name: string;
+  recorded?: string;
+  replayed?: string;
+}
+
+export interface ResponseDiff {
+  verdict: ReplayVerdict;
+  /** Why the verdict is not `equivalent`, most significant first. */
+  reasons: string[];
+  status: { recorded: number; replayed: number };
+  headers: HeaderChange[];
+  /** How the bodies were compared; `shape` when the recorded body was cut and only its shape is known. */
+  bodyKind: 'json' | 'text' | 'shape' | 'none';
+  shapeChanges: JsonChange[];
+  valueChanges: JsonChange[];
+  /** Changes beyond MAX_DIFF_CHANGES that were counted but not listed. */
+  omittedChanges: number;
+}
+
+/** The recorded side of the comparison: the captured entry's status and response. */
+export interface RecordedResponse {
+  status: number;
+  response?: ResponseSummary;
+}
+
+/** Headers whose change means the server answered differently; the rest vary per request. */
+const SIGNIFICANT_HEADERS = [
+  'content-type',
+  'location',
+  'www-authenticate',
+  'content-disposition',
+  'retry-after',
+];
+
+const MAX_DIFF_CHANGES = 50;
+/** Array elements compared per array; enough to catch per-element shape changes. */
+const MAX_ARRAY_ITEMS = 20;
+const MAX_PREVIEW_CHARS = 80;
+
+/** Top-level keys that signal an error object when they appear only in the replay. */
+const ERROR_KEYS = new Set(['error', 'errors', 'error_description', 'fault', 'exception']);
+
+type JsonType = 'null' | 'array' | 'object' | 'string' | 'number' | 'boolean';
+
+function jsonType(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonType;
+}
+
+function preview(value: unknown): string {
+  const text =
+    value !== null && typeof value === 'object' ? describeJsonShape(value) : JSON.stringify(value);
+  return text.length > MAX_PREVIEW_CHARS ? `${text.slice(0, MAX_PREVIEW_CHARS - 1)}…` : text;
+}
+
+export function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+class ChangeCollector {
+  readonly shape: JsonChange[] = [];
+  readonly value: JsonChange[] = [];
+  omitted = 0;
+  /** Shape changes past the limit: not listed, but they still make the replay diverge. */
+  omittedShapes = 0;
+  private readonly seenShapes = new Set<string>();
+
+  addShape(change: JsonChange, pattern: string): void {
+    const key = `${change.kind} ${pattern}`;
+    if (this.seenShapes.has(key)) return;
+    this.seenShapes.add(key);
+    this.push(this.shape, { ...change, path: pattern });
+  }
+
+  addValue(change: JsonChange): void {
+    this.push(this.value, change);
+  }
+
+  private push(list: JsonChange[], change: JsonChange): void {
+    if (this.shape.length + this.value.length < MAX_DIFF_CHANGES) list.push(change);
+    else {
+      this.omitted++;
+      if (list === this.shape) this.omittedShapes++;
+    }
+  }
+}
+
+/**
+ * Walk both values side by side. `path` is concrete (`$.items[3].id`) and
+ * `pattern` abstracts array indices (`$.items[*].id`). Differing array
+ * lengths are a value change: the structure of each element is what matters.
+ */
+function diffJson(
+  recorded: unknown,
+  replayed: unknown,
+  path: string,
+  pattern: string,
+  out: ChangeCollector,
+): void {
+  const a = jsonType(recorded);
+  const b = jsonType(replayed);
+  if (a !== b) {
+    out.addShape({ path, kind: 'type', recorded: a, replayed: b }, pattern);
+    return;
+  }
+  if (a === 'object') {
+    const ra = recorded as Record<string, unknown>;
+    const rb = replayed as Record<string, unknown>;
+    for (const key of Object.keys(ra)) {
+      const p = childPath(path, key);
+      const q = childPath(pattern, key);
+      if (!(key in rb)) out.addShape({ path: p, kind: 'removed', recorded: preview(ra[key]) }, q);
+      else diffJson(ra[key], rb[key], p, q, out);
+    }
+    for (const key of Object.keys(rb)) {
+      if (!(key in ra)) {
+        out.addShape(
+          { path: childPath(path, key), kind: 'added', replayed: preview(rb[key]) },
+          childPath(pattern, key),
+        );
+      }
+    }
+    return;
+  }
+  if (a === 'array') {
+    const la = recorded as unknown[];
+    const lb = replayed as unknown[];
+    if (la.length !== lb.length) {
+      out.addValue({
+        path: `${path}.length`,
+        kind: 'value',
+        recorded: String(la.length),
+        replayed: String(lb.length),
+      });
+    }
+    const n = Math.min(la.length, lb.length, MAX_ARRAY_ITEMS);
+    for (let i = 0; i < n; i++) diffJson(la[i], lb[i], `${path}[${i}]`, `${pattern}[*]`, out);
+    // Elements only one side has still show whether the element structure changed.
+    if (la.length > 0 && lb.length > 0 && (n < la.length || n < lb.length)) {
+      const probe = new ChangeCollector();
+      diffJson(la[la.length - 1], lb[lb.length - 1], `${path}[*]`, `${pattern}[*]`, probe);
+      for (const c of probe.shape) out.addShape(c, c.path);
+    }
+    return;
+  }
+  if (recorded !== replayed) {
+    out.addValue({ path, kind: 'value', recorded: preview(recorded), replayed: preview(replayed) });
+  }
+}
+
+function parseJson(body: string | undefined): { ok: true; value: unknown } | { ok: false } {
+  if (body == null) return { ok: false };
+  const trimmed = body.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return { ok: false };
+  try {
+    return { ok: true, value: JSON.parse(body) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function mediaType(value: string | undefined): string | undefined {
+  return value?.split(';')[0]!.trim().toLowerCase() || undefined;
+}
+
+function diffHeaders(recorded: ResponseSummary | undefined, replayed: ExecuteResult): HeaderChange[] {
+  const recordedHeaders = new Map<string, string>();
+  for (const h of recorded?.headers ?? []) {
+    const name = h.name.toLowerCase();
+    if (!recordedHeaders.has(name)) recordedHeaders.set(name, h.value);
+  }
+  // HARs often omit headers but keep content.mimeType.
+  if (!recordedHeaders.has('content-type') && recorded?.mimeType) {
+    recordedHeaders.set('content-type', recorded.mimeType);
+  }
+  const changes: HeaderChange[] = [];
+  for (const name of SIGNIFICANT_HEADERS) {
+    const a = recordedHeaders.get(name);
+    const b = replayed.headers[name];
+    // A recording without a content type says nothing about it.
+    if (name === 'content-type' && a == null) continue;
+    const same =
+      name === 'content-type' ? mediaType(a) === mediaType(b) : (a ?? '') === (b ?? '');
+    if (!same) changes.push({ name, recorded: a, replayed: b });
+  }
+  return changes;
+}
+
+const statusClass = (status: number) => Math.floor(status / 100);
+
+/**
+ * Compare a captured response with its live replay: status, the headers that
+ * change what the response means, and the JSON body split into value and
+ * shape changes. Non-JSON bodies are compared as text.
+ */
+export function diffResponses(recorded: RecordedResponse, replayed: ExecuteResult): ResponseDiff {
+  const reasons: string[] = [];
+  let diverged = false;
+  let differs = false;
+
+  if (recorded.status !== replayed.status) {
+    differs = true;
+    if (statusClass(recorded.status) !== statusClass(replayed.status)) diverged = true;
+    reasons.push(`Status ${recorded.status} became ${replayed.status}`);
+  }
+
+  const headers = diffHeaders(recorded.response, replayed);
+  for (const h of headers) {
+    differs = true;
+    if (h.name === 'content-type' || h.name === 'location') diverged = true;
+    reasons.push(
+      h.recorded == null
+        ? `${h.name} added`
+        : h.replayed == null
+          ? `${h.name} missing`
+          : `${h.name} changed`,
+    );
+  }
+
+  const collector = new ChangeCollector();
+  let bodyKind: ResponseDiff['bodyKind'] = 'none';
+  const recordedBody = recorded.response?.body;
+  const recordedJson = recorded.response?.bodyTruncated ? { ok: false as const } : parseJson(recordedBody);
+  const replayedJson = replayed.bodyTruncated ? { ok: false as const } : parseJson(replayed.body);
+
+  if (recordedJson.ok && replayedJson.ok) {
+    bodyKind = 'json';
+    diffJson(recordedJson.value, replayedJson.value, '$', '$', collector);
+    const errorKeys = collector.shape
+      .filter((c) => c.kind === 'added' && ERROR_KEYS.has(c.path.slice(2)))
+      .map((c) => c.path.slice(2));
+    if (errorKeys.length > 0) reasons.push(`Replay has an error field: ${errorKeys.join(', ')}`);
+    const shapes = collector.shape.length + collector.omittedShapes;
+    if (shapes > 0) {
+      diverged = true;
+      reasons.push(`${shapes} shape change${shapes === 1 ? '' : 's'}`);
+    }
+    const values = collector.value.length;
+    if (values > 0) {
+      differs = true;
+      reasons.push(`${values} value change${values === 1 ? '' : 's'}`);
+    }
+    if (collector.omitted > 0) {
+      differs = true;
+      const more = collector.omitted;
+      reasons.push(`${more} more change${more === 1 ? '' : 's'} past the first ${MAX_DIFF_CHANGES} not listed`);
+    }
+  } else if (replayed.bodyTruncated) {
+    differs = true;
+    reasons.push('Replay body was truncated; bodies were not compared');
+  } else if (recorded.response?.bodyTruncated && recorded.response.shape) {
+    // The recorded body was cut, but its shape was computed from the full body.
+    bodyKind = 'shape';
+    differs = true;
+    const replayedShape = inferBodyShape(replayed.body);
+    if (replayedShape !== recorded.response.shape) {
+      diverged = true;
+      reasons.push(replayedShape ? 'Body shape differs from the recording' : 'Replay body is not JSON');
+    } else {
+      reasons.push('Recorded body was truncated; only its shape was compared');
+    }
+  } else if (recordedJson.ok !== replayedJson.ok && (recordedBody || replayed.body)) {
+    bodyKind = 'text';
+    diverged = true;
+    reasons.push(recordedJson.ok ? 'Replay body is not JSON' : 'Replay body is JSON but the recording was not');
+  } else if (recordedBody != null || replayed.body) {
+    bodyKind = 'text';
+    if ((recordedBody ?? '') !== replayed.body) {
+      differs = true;
+      reasons.push(recordedBody == null ? 'Recording has no body to compare' : 'Body text differs');
+    }
+  }
+
+  return {
+    verdict: diverged ? 'diverged' : differs ? 'same-shape' : 'equivalent',
+    reasons,
+    status: { recorded: recorded.status, replayed: replayed.status },
+    headers,
+    bodyKind,
+    shapeChanges: collector.shape,
+    valueChanges: collector.value,
+    omittedChanges: collector.omitted,
+  };
+}
@@ -0,0 +1,44 @@
+const MAX_SHAPE_DEPTH = 3;
+const MAX_SHAPE_KEYS = 20;
+
+/**
+ * Compact structural description of a JSON value: object keys with their
+ * shapes and array lengths with the shape of the first element, e.g.
+ * `{city: string, daily: array[7]<{date: string, high: number}>}`.
+ */
+export function describeJsonShape(value: unknown, depth = 0): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'array[0]';
+    const item =
+      depth >= MAX_SHAPE_DEPTH ? '…' : describeJsonShape(value[0], depth + 1);
+    return `array[${value.length}]<${item}>`;
+  }
+  if (typeof value === 'object') {
+    if (depth >= MAX_SHAPE_DEPTH) return 'object';
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    const shown = keys
+      .slice(0, MAX_SHAPE_KEYS)
+      .map((k) => `${k}: ${describeJsonShape(obj[k], depth + 1)}`);
+    if (keys.length > MAX_SHAPE_KEYS) {
+      shown.push(`…+${keys.length - MAX_SHAPE_KEYS} keys`);
+    }
+    return `{${shown.join(', ')}}`;
+  }
+  return typeof value;
+}
+
+/** Shape of a JSON body, or undefined when the body is not JSON. */
+export function inferBodyShape(body: string, mimeType?: string): string | undefined {
+  const trimmed = body.trimStart();
+  const looksJson = trimmed.startsWith('{') || trimmed.startsWith('[');
+  if (!looksJson && !(mimeType ?? '').toLowerCase().includes('json')) {
+    return undefined;
+  }
+  try {
+    return describeJsonShape(JSON.parse(body));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,213 @@
+import { toTypeScriptTypes } from '../codegen/typescript-types';
+import type { EndpointGroup } from './endpoint-group.util';
+import type { ParseEntry, RequestSummary } from './har.types';
+
+/** The subset of JSON Schema (draft 2020-12) that inference produces. */
+export interface JsonSchema {
+  type?: 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'array' | 'object';
+  format?: 'date-time' | 'date' | 'uuid' | 'email' | 'uri';
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  anyOf?: JsonSchema[];
+}
+
+/** Inferred request and response body types for one endpoint, merged over all its captured samples. */
+export interface EndpointSchema {
+  /** Base name for the generated types, e.g. `GetUsersId` (`GetUsersIdRequest`, `GetUsersIdResponse`). */
+  typeName: string;
+  request?: JsonSchema;
+  response?: JsonSchema;
+  /** How many JSON bodies each schema was merged from. */
+  samples: { request: number; response: number };
+  /** TypeScript interfaces for both schemas. */
+  typescript: string;
+}
+
+/** A string field becomes an enum when it takes at most this many distinct values... */
+const MAX_ENUM_VALUES = 5;
+/** ...and each value was seen this many times on average, so it is not just a few IDs. */
+const MIN_ENUM_REPEAT = 2;
+/** Distinct string values remembered per field before it can no longer be an enum. */
+const MAX_TRACKED_STRINGS = MAX_ENUM_VALUES + 1;
+
+const FORMATS: Array<[NonNullable<JsonSchema['format']>, RegExp]> = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i],
+  ['uri', /^https?:\/\/\S+$/i],
+];
+
+/** What has been seen at one position across samples, per JSON type. */
+interface Node {
+  nulls: number;
+  booleans: number;
+  numbers: { count: number; integers: boolean } | null;
+  strings: { count: number; values: Set<string>; formats: Set<JsonSchema['format']> } | null;
+  arrays: { count: number; items: Node } | null;
+  objects: { count: number; properties: Map<string, { node: Node; count: number }> } | null;
+}
+
+function emptyNode(): Node {
+  return { nulls: 0, booleans: 0, numbers: null, strings: null, arrays: null, objects: null };
+}
+
+function stringFormat(value: string): JsonSchema['format'] {
+  return FORMATS.find(([, re]) => re.test(value))?.[0];
+}
+
+function addSample(node: Node, value: unknown): void {
+  if (value === null) {
+    node.nulls++;
+  } else if (typeof value === 'boolean') {
+    node.booleans++;
+  } else if (typeof value === 'number') {
+    node.numbers ??= { count: 0, integers: true };
+    node.numbers.count++;
+    if (!Number.isInteger(value)) node.numbers.integers = false;
+  } else if (typeof value === 'string') {
+    node.strings ??= { count: 0, values: new Set(), formats: new Set() };
+    node.strings.count++;
+    if (node.strings.values.size < MAX_TRACKED_STRINGS) node.strings.values.add(value);
+    node.strings.formats.add(stringFormat(value));
+  } else if (Array.isArray(value)) {
+    node.arrays ??= { count: 0, items: emptyNode() };
+    node.arrays.count++;
+    for (const item of value) addSample(node.arrays.items, item);
+  } else if (typeof value === 'object') {
+    node.objects ??= { count: 0, properties: new Map() };
+    node.objects.count++;
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      let prop = node.objects.properties.get(key);
+      if (!prop) {
+        prop = { node: emptyNode(), count: 0 };
+        node.objects.properties.set(key, prop);
+      }
+      prop.count++;
+      addSample(prop.node, v);
+    }
+  }
+}
+
+function stringSchema(strings: NonNullable<Node['strings']>): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+  const [format, ...others] = strings.formats;
+  if (format && others.length === 0) {
+    schema.format = format;
+  } else if (
+    strings.values.size <= MAX_ENUM_VALUES &&
+    strings.count >= strings.values.size * MIN_ENUM_REPEAT
+  ) {
+    schema.enum = [...strings.values].sort();
+  }
+  return schema;
+}
+
+function toSchema(node: Node): JsonSchema {
+  const variants: JsonSchema[] = [];
+  if (node.objects) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, prop] of node.objects.properties) {
+      properties[key] = toSchema(prop.node);
+      if (prop.count === node.objects.count) required.push(key);
+    }
+    variants.push({ type: 'object', properties, ...(required.length ? { required } : {}) });
+  }
+  if (node.arrays) {
+    const items = toSchema(node.arrays.items);
+    variants.push({ type: 'array', ...(Object.keys(items).length ? { items } : {}) });
+  }
+  if (node.strings) variants.push(stringSchema(node.strings));
+  if (node.numbers) variants.push({ type: node.numbers.integers ? 'integer' : 'number' });
+  if (node.booleans) variants.push({ type: 'boolean' });
+  if (node.nulls) variants.push({ type: 'null' });
+  // No samples at all (an array that was always empty) says nothing about the type.
+  if (variants.length === 0) return {};
+  return variants.length === 1 ? variants[0]! : { anyOf: variants };
+}
+
+/**
+ * Merge JSON samples into one schema. Keys missing from some samples are
+ * optional, differing types become `anyOf`, strings that all match a format
+ * get it, and strings with a few values that repeat become an `enum`.
+ */
+export function inferJsonSchema(samples: unknown[]): JsonSchema {
+  const root = emptyNode();
+  for (const sample of samples) addSample(root, sample);
+  return toSchema(root);
+}
+
+/** The parsed value of a JSON object or array body; undefined for anything else. */
+export function parseJsonBody(text: string | undefined): { value: unknown } | undefined {
+  const trimmed = text?.trimStart();
+  if (!trimmed || (!trimmed.startsWith('{') && !trimmed.startsWith('['))) return undefined;
+  try {
+    return { value: JSON.parse(trimmed) };
+  } catch {
+    return undefined;
+  }
+}
+
+function pascalCase(words: string[]): string {
+  return words
+    .flatMap((w) => w.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean)
+    .map((w) => w[0]!.toUpperCase() + w.slice(1))
+    .join('');
+}
+
+/** `GET /api/users/{id}` becomes `GetApiUsersId`; GraphQL operations use their name, e.g. `CreateUserMutation`. */
+export function endpointTypeName(
+  group: Pick<EndpointGroup, 'method' | 'pathTemplate' | 'operation'>,
+): string {
+  let words = [group.method.toLowerCase(), ...group.pathTemplate.split('/')];
+  if (group.operation) {
+    // `mutation CreateUser` reads better as `CreateUserMutation`.
+    const [first, ...rest] = group.operation.split(' ');
+    words = /^(query|mutation|subscription)$/.test(first!) ? [...rest, first!] : [first!, ...rest];
+  }
+  const name = pascalCase(words);
+  return /^[A-Za-z]/.test(name) ? name : `Endpoint${name}`;
+}
+
+/**
+ * Schemas for an endpoint's JSON request and response bodies, or undefined
+ * when none of its samples has one. Truncated response bodies are skipped,
+ * and so are error responses when the endpoint also answered successfully.
+ */
+export function inferEndpointSchema(
+  entries: Array<RequestSummary & Pick<ParseEntry, 'status' | 'response'>>,
+  group: Pick<EndpointGroup, 'method' | 'pathTemplate' | 'operation' | 'entryIndices'>,
+): EndpointSchema | undefined {
+  const samples = group.entryIndices.map((i) => entries[i]!);
+  const requestBodies = samples.flatMap((e) => {
+    const parsed = parseJsonBody(e.postData?.text);
+    return parsed ? [parsed.value] : [];
+  });
+  const withResponse = samples.filter((e) => e.response?.body && !e.response.bodyTruncated);
+  const succeeded = withResponse.filter((e) => e.status >= 200 && e.status < 300);
+  const responseBodies = (succeeded.length ? succeeded : withResponse).flatMap((e) => {
+    const parsed = parseJsonBody(e.response!.body);
+    return parsed ? [parsed.value] : [];
+  });
+  if (requestBodies.length === 0 && responseBodies.length === 0) return undefined;
+
+  const typeName = endpointTypeName(group);
+  const request = requestBodies.length ? inferJsonSchema(requestBodies) : undefined;
+  const response = responseBodies.length ? inferJsonSchema(responseBodies) : undefined;
+  return {
+    typeName,
+    ...(request ? { request } : {}),
+    ...(response ? { response } : {}),
+    samples: { request: requestBodies.length, response: responseBodies.length },
+    typescript: [
+      request && toTypeScriptTypes(request, `${typeName}Request`),
+      response && toTypeScriptTypes(response, `${typeName}Response`),
+    ]
+      .filter(Boolean)
+      .join('\n'),
+  };
+}
@@ -0,0 +1,34 @@
+import type { RequestSummary } from './har.types';
+import { buildRequestTemplate } from './template.util';
+
+const search: RequestSummary = {
+  method: 'POST',
+  url: 'https://api.example.com/search?q=red%20shoes',
+  headers: [{ name: 'Content-Type', value: 'application/json' }],
+  postData: { mimeType: 'application/json', text: '{"message":"hi there","count":3}' },
+};
+
+describe('buildRequestTemplate curl', () => {
+  const { curl } = buildRequestTemplate(search);
+
+  it('defaults URL values to their decoded form', () => {
+    expect(curl).toContain(`[ -n "\${Q:-}" ] || Q='red shoes'`);
+  });
+
+  it('percent-encodes URL values and JSON-escapes string body values', () => {
+    expect(curl).toContain(`Q_URL="$(jq -rn --arg v "$Q" '$v | @uri')"`);
+    expect(curl).toContain(`MESSAGE_JSON="$(jq -rn --arg v "$MESSAGE" '$v | @json | .[1:-1]')"`);
+    expect(curl).toContain('"https://api.example.com/search?q=${Q_URL}"');
+    expect(curl).toContain('--data-raw "{\\"message\\":\\"${MESSAGE_JSON}\\",\\"count\\":${COUNT}}"');
+  });
+
+  it('leaves JSON numbers unescaped', () => {
+    expect(curl).not.toContain('COUNT_');
+  });
+
+  it('keeps escaped names clear of parameter names', () => {
+    const request = { ...search, url: 'https://api.example.com/search?q=shoes&q_url=x', postData: undefined };
+    const { curl } = buildRequestTemplate(request, [{ ...request, url: request.url.replace('=x', '=y') }]);
+    expect(curl).toContain('"https://api.example.com/search?q=${Q_URL_2}&q_url=${Q_URL_URL}"');
+  });
+});
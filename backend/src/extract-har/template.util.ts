@@ -0,0 +1,436 @@
+import { toCodegenRequest } from '../codegen/codegen-request.util';
+import { quoteSingle, shellVar, toShellCurl } from '../codegen/shell.util';
+import { classifyPathSegment } from './endpoint-group.util';
+import type { RequestSummary } from './har.types';
+import { isSecretHeader, isSecretKey } from './redaction.util';
+import { replaceMarkers, snakeCaseName, variableMarker } from './workflow.util';
+
+/**
+ * `input`: chosen by the user for each call; `credential`: tied to the
+ * session; `volatile`: regenerated per call (timestamps, nonces);
+ * `constant`: the same on every call.
+ */
+export type ParameterKind = 'constant' | 'input' | 'credential' | 'volatile';
+
+export type ParameterType = 'string' | 'number' | 'boolean' | 'email' | 'date' | 'id';
+
+export type VolatileGenerator = 'unix-seconds' | 'unix-millis' | 'iso-date' | 'uuid' | 'random-hex';
+
+/** One classified value of a request. */
+export interface TemplateParameter {
+  /** Variable name; absent for constants, which stay literal in the template. */
+  name?: string;
+  /** `query:q`, `path[2]`, `body:$.user.email` (JSON), `body:email` (form) or `header:X-Api-Key`. */
+  location: string;
+  kind: ParameterKind;
+  type: ParameterType;
+  /** The value as it appears in the captured request. */
+  example: string;
+  /** How a volatile value is regenerated. */
+  generator?: VolatileGenerator;
+  /**
+   * How a value is written into the request: URL-encoded, escaped inside a
+   * JSON string, as a bare JSON number or boolean, or as is (headers).
+   */
+  encoding: 'url' | 'json-string' | 'json-raw' | 'raw';
+}
+
+/** A captured request with its variable parts replaced by `{{name}}` placeholders. */
+export interface RequestTemplate {
+  method: string;
+  url: string;
+  headers: Array<[name: string, value: string]>;
+  body?: { mimeType?: string; text: string };
+  parameters: TemplateParameter[];
+  /**
+   * Bash: one assignment per variable (inputs and credentials default to the
+   * captured value, volatile ones are regenerated), then the curl using them.
+   */
+  curl: string;
+}
+
+/** A value found in a request before it is classified. */
+interface Slot {
+  location: string;
+  /** Key the value is stored under; for path segments, the segment before it. */
+  key: string;
+  value: string;
+  type: ParameterType;
+  encoding: TemplateParameter['encoding'];
+}
+
+const JWT_RE = /^eyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]*$/;
+const EMAIL_RE = /^[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/;
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Keys whose values change on every call. */
+const VOLATILE_KEY_RE =
+  /^(_|_t|t|ts|timestamp|time|nonce|cb|cache_?bust(er)?|rnd|rand|random|request_?id|correlation_?id|trace_?id|x-request-id|x-correlation-id|x-amzn-trace-id)$/i;
+/** Keys of values a caller typically chooses. */
+const INPUT_KEY_RE =
+  /^(q|query|search|term|keywords?|text|message|comment|content|title|name|first_?name|last_?name|user_?name|email|phone|address|city|zip|postal_?code|country|description|amount|price|quantity|qty|count|page|limit|offset|per_?page|page_?size|size|cursor|from|to|start|end|date|ids?)$/i;
+const ID_KEY_RE = /(^|_)id$|[a-z]Id$|_ids$|[a-z]Ids$/;
+
+/** Epoch seconds and milliseconds between 2001 and 2100. */
+function timestampGenerator(value: string): VolatileGenerator | undefined {
+  if (!/^\d+$/.test(value)) return undefined;
+  const n = Number(value);
+  if (value.length === 10 && n >= 1e9 && n < 4.1e9) return 'unix-seconds';
+  if (value.length === 13 && n >= 1e12 && n < 4.1e12) return 'unix-millis';
+  return undefined;
+}
+
+function inferType(value: string): ParameterType {
+  if (value === 'true' || value === 'false') return 'boolean';
+  if (EMAIL_RE.test(value)) return 'email';
+  if (ISO_DATE_RE.test(value)) return 'date';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return 'number';
+  if (classifyPathSegment(value)) return 'id';
+  return 'string';
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/** The value of every query pair, by key; repeated keys keep their first value. */
+function pairSlots(text: string, source: 'query' | 'body'): Slot[] {
+  const slots: Slot[] = [];
+  for (const pair of text.split('&')) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) continue;
+    const key = decode(pair.slice(0, eq));
+    const location = `${source}:${key}`;
+    if (slots.some((s) => s.location === location)) continue;
+    const value = pair.slice(eq + 1);
+    slots.push({ location, key, value, type: inferType(decode(value)), encoding: 'url' });
+  }
+  return slots;
+}
+
+function jsonPathKey(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function jsonSlots(value: unknown, path: string, key: string, out: Slot[]): void {
+  if (typeof value === 'string') {
+    out.push({ location: `body:${path}`, key, value, type: inferType(value), encoding: 'json-string' });
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    out.push({
+      location: `body:${path}`,
+      key,
+      value: String(value),
+      type: typeof value === 'number' ? 'number' : 'boolean',
+      encoding: 'json-raw',
+    });
+  } else if (Array.isArray(value)) {
+    value.forEach((v, i) => jsonSlots(v, `${path}[${i}]`, key, out));
+  } else if (value != null && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) jsonSlots(v, jsonPathKey(path, k), k, out);
+  }
+}
+
+function parseJsonBody(request: RequestSummary): unknown {
+  const text = request.postData?.text;
+  if (!text || !(request.postData?.mimeType ?? '').toLowerCase().includes('json')) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isFormBody(request: RequestSummary): boolean {
+  return (request.postData?.mimeType ?? '').toLowerCase().includes('x-www-form-urlencoded');
+}
+
+/** Offset of the path in a URL without its query; 0 when the URL is not absolute. */
+function pathOffset(base: string): number {
+  try {
+    return base.length - new URL(base).pathname.length;
+  } catch {
+    return 0;
+  }
+}
+
+/** The token of an `Authorization: <scheme> <token>` value, which is what varies. */
+function authorizationToken(value: string): string | undefined {
+  return value.match(/^\S+\s+(.+)$/)?.[1];
+}
+
+/** Every value of a request worth classifying: ID-like path segments, query, body and credential or volatile headers. */
+function requestSlots(request: RequestSummary): Slot[] {
+  const slots: Slot[] = [];
+  const q = request.url.indexOf('?');
+  const base = q === -1 ? request.url : request.url.slice(0, q);
+  const segments = base.slice(pathOffset(base)).split('/');
+  segments.forEach((segment, i) => {
+    const type = segment ? classifyPathSegment(segment) : null;
+    if (!type) return;
+    const previous = segments[i - 1] ?? '';
+    const key = previous && !classifyPathSegment(previous) ? `${previous.replace(/s$/, '')}_id` : type;
+    slots.push({ location: `path[${i}]`, key, value: segment, type: 'id', encoding: 'url' });
+  });
+  if (q !== -1) slots.push(...pairSlots(request.url.slice(q + 1), 'query'));
+
+  const json = parseJsonBody(request);
+  if (json !== undefined) {
+    jsonSlots(json, '$', '', slots);
+  } else if (request.postData?.text && isFormBody(request)) {
+    slots.push(...pairSlots(request.postData.text, 'body'));
+  }
+
+  for (const h of request.headers ?? []) {
+    const name = h.name.toLowerCase();
+    if (name === 'cookie' || !(isSecretHeader(name) || VOLATILE_KEY_RE.test(name))) continue;
+    const location = `header:${h.name}`;
+    if (slots.some((s) => s.location === location)) continue;
+    const token = name === 'authorization' ? authorizationToken(h.value) : undefined;
+    slots.push({
+      location,
+      key: token ? 'token' : h.name,
+      value: token ?? h.value,
+      type: 'string',
+      encoding: 'raw',
+    });
+  }
+  return slots;
+}
+
+function volatileGenerator(slot: Slot): VolatileGenerator | undefined {
+  const value = slot.encoding === 'url' ? decode(slot.value) : slot.value;
+  const timestamp = timestampGenerator(value);
+  if (timestamp) return timestamp;
+  if (!VOLATILE_KEY_RE.test(slot.key)) return undefined;
+  if (ISO_DATE_RE.test(value)) return 'iso-date';
+  if (UUID_RE.test(value)) return 'uuid';
+  return 'random-hex';
+}
+
+/**
+ * Classify one value. Credentials are found by key (and JWT shape), volatile
+ * values by key or timestamp shape. A value is an input when it differs
+ * between samples of the endpoint, sits in an ID-like path segment, has an
+ * input-like or ID-like key, is an email, or is free text in a body.
+ */
+function classify(slot: Slot, samples: Array<string | undefined>): Pick<TemplateParameter, 'kind' | 'generator'> {
+  if (
+    (slot.location.startsWith('header:') && isSecretHeader(slot.key)) ||
+    (!slot.location.startsWith('path') && isSecretKey(slot.key)) ||
+    JWT_RE.test(slot.value)
+  ) {
+    return { kind: 'credential' };
+  }
+  const generator = volatileGenerator(slot);
+  if (generator && (generator.startsWith('unix') || VOLATILE_KEY_RE.test(slot.key))) {
+    return { kind: 'volatile', generator };
+  }
+  if (slot.type === 'boolean') return { kind: 'constant' };
+  if (
+    samples.some((v) => v != null && v !== slot.value) ||
+    slot.location.startsWith('path') ||
+    INPUT_KEY_RE.test(slot.key) ||
+    ID_KEY_RE.test(slot.key) ||
+    slot.type === 'email' ||
+    (slot.location.startsWith('body:') && slot.type === 'string' && /\s/.test(slot.value))
+  ) {
+    return { kind: 'input' };
+  }
+  return { kind: 'constant' };
+}
+
+/** Replace the value of the first pair with this key. */
+function replacePair(text: string, key: string, marker: string): string {
+  let done = false;
+  return text
+    .split('&')
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      if (done || eq <= 0 || decode(pair.slice(0, eq)) !== key) return pair;
+      done = true;
+      return `${pair.slice(0, eq + 1)}${marker}`;
+    })
+    .join('&');
+}
+
+function templateJson(value: unknown, path: string, markers: Map<string, string>): unknown {
+  const marker = markers.get(`body:${path}`);
+  if (marker != null) return marker;
+  if (Array.isArray(value)) return value.map((v, i) => templateJson(v, `${path}[${i}]`, markers));
+  if (value != null && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = templateJson(v, jsonPathKey(path, k), markers);
+    return out;
+  }
+  return value;
+}
+
+const GENERATOR_COMMANDS: Record<Exclude<VolatileGenerator, 'random-hex'>, string> = {
+  'unix-seconds': '$(date +%s)',
+  'unix-millis': '$(($(date +%s) * 1000))',
+  'iso-date': '$(date -u +%Y-%m-%dT%H:%M:%SZ)',
+  uuid: `$(uuidgen | tr '[:upper:]' '[:lower:]')`,
+};
+
+function shellAssignment(p: TemplateParameter): string {
+  const name = shellVar(p.name!);
+  if (p.kind === 'volatile') {
+    const command =
+      p.generator === 'random-hex'
+        ? `$(openssl rand -hex ${Math.max(1, Math.ceil(p.example.length / 2))})`
+        : GENERATOR_COMMANDS[p.generator!];
+    return `${name}="${command}"`;
+  }
+  const example = p.encoding === 'url' ? decode(p.example) : p.example;
+  return `[ -n "\${${name}:-}" ] || ${name}=${quoteSingle(example)}`;
+}
+
+/** jq filters escaping a value for where it goes: percent-encoded in URLs and forms, inside a JSON string in JSON bodies. */
+const ESCAPE_FILTERS: Partial<Record<TemplateParameter['encoding'], string>> = {
+  url: '$v | @uri',
+  'json-string': '$v | @json | .[1:-1]',
+};
+
+function shellEscape(p: TemplateParameter, escapedName: string): string {
+  const filter = quoteSingle(ESCAPE_FILTERS[p.encoding]!);
+  return `${shellVar(escapedName)}="$(jq -rn --arg v "$${shellVar(p.name!)}" ${filter})"`;
+}
+
+/**
+ * Build a parameterized template from a captured request. `samples` are other
+ * captured requests to the same endpoint; values that differ between them
+ * are inputs.
+ */
+export function buildRequestTemplate(
+  request: RequestSummary,
+  samples: RequestSummary[] = [],
+): RequestTemplate {
+  const sampleValues = samples.map(
+    (s) => new Map(requestSlots(s).map((slot) => [slot.location, slot.value])),
+  );
+  const usedNames = new Set<string>();
+  const parameters: TemplateParameter[] = [];
+  const markers = new Map<string, string>();
+
+  for (const slot of requestSlots(request)) {
+    const { kind, generator } = classify(
+      slot,
+      sampleValues.map((m) => m.get(slot.location)),
+    );
+    const parameter: TemplateParameter = {
+      location: slot.location,
+      kind,
+      type: slot.type,
+      example: slot.value,
+      encoding: slot.encoding,
+    };
+    if (generator) parameter.generator = generator;
+    if (kind !== 'constant') {
+      const base = slot.key === '_' ? 'cache_buster' : snakeCaseName(slot.key || 'value');
+      let name = base;
+      for (let n = 2; usedNames.has(name); n++) name = `${base}_${n}`;
+      usedNames.add(name);
+      parameter.name = name;
+      markers.set(slot.location, variableMarker(name));
+    }
+    parameters.push(parameter);
+  }
+
+  const codegen = toCodegenRequest(request);
+  const q = codegen.url.indexOf('?');
+  let path = q === -1 ? codegen.url : codegen.url.slice(0, q);
+  let query = q === -1 ? undefined : codegen.url.slice(q + 1);
+  for (const [location, marker] of markers) {
+    const segment = location.match(/^path\[(\d+)\]$/);
+    if (segment) {
+      const pathStart = pathOffset(path);
+      const segments = path.slice(pathStart).split('/');
+      segments[Number(segment[1])] = marker;
+      path = path.slice(0, pathStart) + segments.join('/');
+    } else if (location.startsWith('query:') && query != null) {
+      query = replacePair(query, location.slice('query:'.length), marker);
+    }
+  }
+  codegen.url = query == null ? path : `${path}?${query}`;
+
+  codegen.headers = codegen.headers.map(([name, value]) => {
+    const marker = markers.get(`header:${name}`);
+    if (!marker) return [name, value];
+    const token = name.toLowerCase() === 'authorization' ? authorizationToken(value) : undefined;
+    return [name, token ? value.slice(0, value.length - token.length) + marker : marker];
+  });
+
+  if (codegen.body) {
+    const json = parseJsonBody(request);
+    let text = codegen.body.text;
+    if (json !== undefined) {
+      text = JSON.stringify(templateJson(json, '$', markers));
+      for (const p of parameters) {
+        if (p.name && p.encoding === 'json-raw') {
+          text = text.split(JSON.stringify(variableMarker(p.name))).join(variableMarker(p.name));
+        }
+      }
+    } else if (isFormBody(request)) {
+      for (const [location, marker] of markers) {
+        if (location.startsWith('body:')) text = replacePair(text, location.slice('body:'.length), marker);
+      }
+    }
+    codegen.body = { mimeType: codegen.body.mimeType, text };
+  }
+
+  const variables = parameters.filter((p) => p.name);
+  // Shell variables hold values as typed; the curl uses escaped copies where the request needs them.
+  const escapedNames = new Map<string, string>();
+  for (const p of variables) {
+    if (!ESCAPE_FILTERS[p.encoding]) continue;
+    const base = `${p.name}_${p.encoding === 'url' ? 'url' : 'json'}`;
+    let name = base;
+    for (let n = 2; usedNames.has(name); n++) name = `${base}_${n}`;
+    usedNames.add(name);
+    escapedNames.set(p.name!, name);
+  }
+  const sections: Array<[string, ParameterKind]> = [
+    ['Inputs (defaults are the captured values)', 'input'],
+    ['Session credentials', 'credential'],
+    ['Regenerated on every run', 'volatile'],
+  ];
+  const lines: string[] = [];
+  for (const [title, kind] of sections) {
+    const group = variables.filter((p) => p.kind === kind);
+    if (group.length === 0) continue;
+    lines.push(`# ${title}`, ...group.map(shellAssignment), '');
+  }
+  if (escapedNames.size > 0) {
+    lines.push(
+      '# Escaped for the request (needs jq)',
+      ...variables.filter((p) => escapedNames.has(p.name!)).map((p) => shellEscape(p, escapedNames.get(p.name!)!)),
+      '',
+    );
+  }
+  const escaped = (text: string) =>
+    replaceMarkers(text, (name) => variableMarker(escapedNames.get(name) ?? name));
+  lines.push(
+    toShellCurl({
+      method: codegen.method,
+      url: escaped(codegen.url),
+      headers: codegen.headers.map(([name, value]) => [name, escaped(value)]),
+      ...(codegen.body ? { body: { ...codegen.body, text: escaped(codegen.body.text) } } : {}),
+    }),
+  );
+
+  const plain = (text: string) => replaceMarkers(text, (name) => `{{${name}}}`);
+  const template: RequestTemplate = {
+    method: codegen.method,
+    url: plain(codegen.url),
+    headers: codegen.headers.map(([name, value]) => [name, plain(value)]),
+    parameters,
+    curl: lines.join('\n'),
+  };
+  if (codegen.body) template.body = { mimeType: codegen.body.mimeType, text: plain(codegen.body.text) };
+  return template;
+}
@@ -0,0 +1,59 @@
+import type { ParseEntry } from './har.types';
+import { planWorkflow } from './workflow.util';
+
+const json = { name: 'Content-Type', value: 'application/json' };
+
+const login: ParseEntry = {
+  method: 'POST',
+  url: 'https://api.example.com/login',
+  headers: [json],
+  postData: { mimeType: 'application/json', text: '{"user":"ada"}' },
+  status: 200,
+  response: {
+    headers: [json],
+    body: '{"data":{"token":"tok_abcdef123456","userId":98765}}',
+  },
+};
+
+const note: ParseEntry = {
+  method: 'POST',
+  url: 'https://api.example.com/users/98765/notes?page=98765',
+  headers: [
+    json,
+    { name: 'Authorization', value: 'Bearer tok_abcdef123456' },
+    { name: 'Referer', value: 'https://app.example.com/users/98765' },
+  ],
+  postData: {
+    mimeType: 'application/json',
+    text: '{"userId":98765,"text":"order 98765 shipped"}',
+  },
+  status: 201,
+};
+
+describe('planWorkflow', () => {
+  const plan = planWorkflow([login, note], [{ index: 1 }]);
+  const [, step] = plan.steps;
+
+  it('adds the step that produces the values', () => {
+    expect(plan.steps.map((s) => s.index)).toEqual([0, 1]);
+    expect(plan.variables.map((v) => [v.name, v.sourcePath])).toEqual([
+      ['token', '$.data.token'],
+      ['user_id', '$.data.userId'],
+    ]);
+  });
+
+  it('marks only the locations the dependencies were found at', () => {
+    expect(step!.request.url).toBe(
+      'https://api.example.com/users/{{wf:user_id}}/notes?page={{wf:user_id}}',
+    );
+    expect(step!.request.headers).toEqual([
+      ['Content-Type', 'application/json'],
+      ['Authorization', 'Bearer {{wf:token}}'],
+      ['Referer', 'https://app.example.com/users/98765'],
+    ]);
+    expect(step!.request.body).toEqual({
+      mimeType: 'application/json',
+      text: '{"userId":{{wf:user_id}},"text":"order 98765 shipped"}',
+    });
+  });
+});
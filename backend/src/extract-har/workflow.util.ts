@@ -0,0 +1,310 @@
+import { toCodegenRequest } from '../codegen/codegen-request.util';
+import type { CodegenRequest } from '../codegen/codegen.types';
+import { MAX_WORKFLOW_STEPS } from '../constants';
+import type { ParseEntry, ValueDependency } from './har.types';
+import { analyzeDependencies } from './provenance.util';
+import { childPath } from './response-diff.util';
+
+/** A value one step takes from an earlier step's response. */
+export interface WorkflowVariable {
+  name: string;
+  /** Position in the step list of the step whose response provides it. */
+  fromStep: number;
+  /** `$.data.token`, `header:Name` or `set-cookie:name` in that response. */
+  sourcePath: string;
+  /** The value seen in the capture. */
+  example: string;
+}
+
+/** A step as planned: its request with `{{wf:name}}` markers where variables go. */
+export interface PlannedStep {
+  /** Index of the entry in the list that was matched. */
+  index: number;
+  purpose?: string;
+  request: CodegenRequest;
+  uses: Array<{ variable: string; location: string }>;
+}
+
+export interface WorkflowPlan {
+  steps: PlannedStep[];
+  variables: WorkflowVariable[];
+}
+
+/** JavaScript reserved words, which cannot be variable names in the TypeScript script. */
+const RESERVED_NAMES = new Set([
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'import',
+  'in',
+  'let',
+  'new',
+  'null',
+  'return',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'var',
+  'void',
+  'while',
+  'with',
+]);
+
+export function variableMarker(name: string): string {
+  return `{{wf:${name}}}`;
+}
+
+/** Replace every `{{wf:name}}` marker using the given formatter. */
+export function replaceMarkers(text: string, format: (name: string) => string): string {
+  return text.replace(/\{\{wf:([a-z0-9_]+)\}\}/g, (_, name: string) => format(name));
+}
+
+/** Snake-case identifier for a key, safe as a shell and JavaScript variable: `userId` → `user_id`. */
+export function snakeCaseName(key: string): string {
+  const name = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+  const safe = /^[a-z]/.test(name) ? name : `v_${name || 'value'}`;
+  return RESERVED_NAMES.has(safe) ? `${safe}_value` : safe;
+}
+
+/** Name from the last key of a source path, e.g. `$.data.userId` → `user_id`. */
+function baseName(sourcePath: string): string {
+  const keys = sourcePath.match(/[A-Za-z_$][\w$-]*/g)?.filter((k) => k !== '$') ?? [];
+  return snakeCaseName(keys[keys.length - 1] ?? 'value');
+}
+
+/** Source paths a generated script can read back out of a response. */
+function isExtractable(sourcePath: string): boolean {
+  return (
+    sourcePath.startsWith('$') ||
+    sourcePath.startsWith('header:') ||
+    sourcePath.startsWith('set-cookie:')
+  );
+}
+
+function replaceValue(text: string, value: string, marker: string): string {
+  return text.split(value).join(marker);
+}
+
+/** Replace a decoded value in URL-encoded text, as it was written or percent-encoded. */
+function replaceEncoded(text: string, value: string, marker: string): string {
+  return replaceValue(text, text.includes(value) ? value : encodeURIComponent(value), marker);
+}
+
+/** Replace in the value of each `key=value` pair with this (decoded) key, in a query string or form body. */
+function replaceInPairs(text: string, key: string, value: string, marker: string): string {
+  return text
+    .split('&')
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      if (eq <= 0) return pair;
+      let name: string;
+      try {
+        name = decodeURIComponent(pair.slice(0, eq).replace(/\+/g, ' '));
+      } catch {
+        return pair;
+      }
+      return name === key ? pair.slice(0, eq + 1) + replaceEncoded(pair.slice(eq + 1), value, marker) : pair;
+    })
+    .join('&');
+}
+
+interface JsonMark {
+  value: string;
+  marker: string;
+}
+
+/**
+ * Replace the JSON leaves at the marked paths. A number leaf becomes the
+ * marker string, and the marker is added to `bare` to be unquoted later.
+ */
+function markJson(json: unknown, path: string, marks: Map<string, JsonMark>, bare: Set<string>): unknown {
+  const mark = marks.get(path);
+  if (mark) {
+    if (typeof json === 'string') return replaceValue(json, mark.value, mark.marker);
+    if (typeof json === 'number' && String(json) === mark.value) {
+      bare.add(mark.marker);
+      return mark.marker;
+    }
+    return json;
+  }
+  if (Array.isArray(json)) return json.map((v, i) => markJson(v, `${path}[${i}]`, marks, bare));
+  if (json != null && typeof json === 'object') {
+    return Object.fromEntries(
+      Object.entries(json).map(([k, v]) => [k, markJson(v, childPath(path, k), marks, bare)]),
+    );
+  }
+  return json;
+}
+
+/**
+ * Put a variable marker where a dependency was found: the header, cookie,
+ * path segment, query parameter or form field `analyzeDependencies`
+ * reported, and nowhere else the same text happens to appear. JSON body
+ * fields are collected in `jsonMarks` and replaced together.
+ */
+function markDependency(
+  request: CodegenRequest,
+  dep: ValueDependency,
+  marker: string,
+  jsonMarks: Map<string, JsonMark>,
+): void {
+  const { location, value } = dep;
+  if (location.startsWith('header:')) {
+    const header = location.slice('header:'.length).toLowerCase();
+    request.headers = request.headers.map(([name, text]) => [
+      name,
+      name.toLowerCase() === header ? replaceValue(text, value, marker) : text,
+    ]);
+  } else if (location.startsWith('cookie:')) {
+    const cookie = location.slice('cookie:'.length);
+    request.headers = request.headers.map(([name, text]) => {
+      if (name.toLowerCase() !== 'cookie') return [name, text];
+      const pairs = text
+        .split(/;\s*/)
+        .map((pair) =>
+          pair.startsWith(`${cookie}=`)
+            ? `${cookie}=${replaceValue(pair.slice(cookie.length + 1), value, marker)}`
+            : pair,
+        );
+      return [name, pairs.join('; ')];
+    });
+  } else if (location.startsWith('path[') || location.startsWith('query:')) {
+    const q = request.url.indexOf('?');
+    const base = q === -1 ? request.url : request.url.slice(0, q);
+    const query = q === -1 ? undefined : request.url.slice(q + 1);
+    const segment = location.match(/^path\[(\d+)\]$/);
+    if (segment) {
+      // Segments are counted from the path's leading `/`, as analyzeDependencies does.
+      const pathStart = base.indexOf('/', base.indexOf('//') + 2);
+      if (pathStart === -1) return;
+      const segments = base.slice(pathStart).split('/');
+      const i = Number(segment[1]);
+      if (segments[i] == null) return;
+      segments[i] = replaceEncoded(segments[i]!, value, marker);
+      request.url = base.slice(0, pathStart) + segments.join('/') + (query == null ? '' : `?${query}`);
+    } else if (query != null) {
+      request.url = `${base}?${replaceInPairs(query, location.slice('query:'.length), value, marker)}`;
+    }
+  } else if (location.startsWith('body:') && request.body) {
+    const field = location.slice('body:'.length);
+    if (field.startsWith('$')) {
+      jsonMarks.set(field, { value, marker });
+    } else {
+      // The parsed body no longer matches the text, so generators use the text.
+      request.body = {
+        mimeType: request.body.mimeType,
+        text: replaceInPairs(request.body.text, field, value, marker),
+      };
+    }
+  }
+}
+
+/** Apply the collected JSON body marks; markers standing for numbers are written bare. */
+function markJsonBody(request: CodegenRequest, marks: Map<string, JsonMark>): void {
+  if (marks.size === 0 || request.body?.json === undefined) return;
+  const bare = new Set<string>();
+  let text = JSON.stringify(markJson(request.body.json, '$', marks, bare));
+  for (const marker of bare) text = text.split(JSON.stringify(marker)).join(marker);
+  // The parsed body no longer matches the text, so generators use the text.
+  request.body = { mimeType: request.body.mimeType, text };
+}
+
+/**
+ * Entries to run, in capture order: the picked ones plus, transitively, every
+ * earlier entry whose response provides a header, path, query or body value
+ * they send. Cookie dependencies do not pull in extra steps, since most
+ * cookies come from page loads rather than API calls.
+ */
+function withProducers(
+  picked: number[],
+  dependencies: ValueDependency[][],
+): number[] {
+  const included = new Set<number>();
+  const queue = [...picked];
+  while (queue.length > 0 && included.size < MAX_WORKFLOW_STEPS) {
+    const index = queue.shift()!;
+    if (included.has(index)) continue;
+    included.add(index);
+    for (const dep of dependencies[index] ?? []) {
+      if (dep.location.startsWith('cookie:')) continue;
+      if (!isExtractable(dep.sourcePath)) continue;
+      if (!included.has(dep.sourceIndex)) queue.push(dep.sourceIndex);
+    }
+  }
+  return [...included].sort((a, b) => a - b);
+}
+
+/**
+ * Turn picked entries into an ordered, runnable plan: add the steps that
+ * produce their inputs, name each value passed between steps, and mark where
+ * it is used in later requests.
+ */
+export function planWorkflow(
+  entries: ParseEntry[],
+  picked: Array<{ index: number; purpose?: string }>,
+): WorkflowPlan {
+  const dependencies = analyzeDependencies(entries);
+  const order = withProducers(
+    picked.map((p) => p.index),
+    dependencies,
+  );
+  const position = new Map(order.map((index, i) => [index, i]));
+  const purposes = new Map(picked.map((p) => [p.index, p.purpose]));
+
+  const variables: WorkflowVariable[] = [];
+  const byOrigin = new Map<string, WorkflowVariable>();
+  const usedNames = new Set<string>();
+
+  const steps = order.map((index): PlannedStep => {
+    const request = toCodegenRequest(entries[index]!);
+    const uses: PlannedStep['uses'] = [];
+    const jsonMarks = new Map<string, JsonMark>();
+    for (const dep of dependencies[index] ?? []) {
+      const fromStep = position.get(dep.sourceIndex);
+      if (fromStep == null || !isExtractable(dep.sourcePath)) continue;
+
+      const origin = `${fromStep} ${dep.sourcePath} ${dep.value}`;
+      let variable = byOrigin.get(origin);
+      if (!variable) {
+        let name = baseName(dep.sourcePath);
+        for (let n = 2; usedNames.has(name); n++) name = `${baseName(dep.sourcePath)}_${n}`;
+        usedNames.add(name);
+        variable = { name, fromStep, sourcePath: dep.sourcePath, example: dep.value };
+        byOrigin.set(origin, variable);
+        variables.push(variable);
+      }
+
+      markDependency(request, dep, variableMarker(variable.name), jsonMarks);
+      uses.push({ variable: variable.name, location: dep.location });
+    }
+    markJsonBody(request, jsonMarks);
+    const step: PlannedStep = { index, request, uses };
+    const purpose = purposes.get(index);
+    if (purpose) step.purpose = purpose;
+    return step;
+  });
+
+  return { steps, variables };
+}
@@ -0,0 +1,31 @@
+import { AnthropicLlmProvider } from './anthropic.provider';
+
+describe('AnthropicLlmProvider', () => {
+  const env = { ...process.env };
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ content: [{ type: 'text', text: 'ok' }] })),
+    );
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    fetchMock.mockRestore();
+  });
+
+  it.each([
+    [undefined, 'https://api.anthropic.com/v1/messages'],
+    ['https://proxy.example.com', 'https://proxy.example.com/v1/messages'],
+    ['https://proxy.example.com/v1/', 'https://proxy.example.com/v1/messages'],
+  ])('posts to the messages endpoint under LLM_BASE_URL=%s', async (base, url) => {
+    if (base) process.env.LLM_BASE_URL = base;
+    else delete process.env.LLM_BASE_URL;
+    await expect(
+      new AnthropicLlmProvider().complete([{ role: 'user', content: 'hi' }]),
+    ).resolves.toBe('ok');
+    expect(fetchMock.mock.calls[0]![0]).toBe(url);
+  });
+});
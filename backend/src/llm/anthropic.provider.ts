@@ -0,0 +1,70 @@
+import {
+  BadGatewayException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ANTHROPIC_MODEL } from '../constants';
+import type { ChatMessage, LlmProvider } from './llm.types';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 2048;
+
+/**
+ * LLM_BASE_URL is a base URL, as for the OpenAI-compatible provider:
+ * `https://proxy.example.com` or `https://proxy.example.com/v1`.
+ */
+function messagesUrl(): string {
+  const base = (process.env.LLM_BASE_URL || ANTHROPIC_BASE_URL).replace(/\/+$/, '');
+  return `${base.replace(/\/v1$/, '')}/v1/messages`;
+}
+
+/** Anthropic Messages API over fetch; system messages go in the `system` field. */
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic';
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey || !apiKey.trim()) {
+      throw new ServiceUnavailableException(
+        'Anthropic API key is not configured. Set ANTHROPIC_API_KEY.',
+      );
+    }
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const res = await fetch(messagesUrl(), {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey.trim(),
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: process.env.LLM_MODEL ?? ANTHROPIC_MODEL,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        system: system || undefined,
+        messages: messages
+          .filter((m) => m.role !== 'system')
+          .map((m) => ({ role: m.role, content: m.content })),
+      }),
+    });
+    const text = await res.text();
+    if (!res.ok) {
+      throw new BadGatewayException(
+        `Anthropic request failed (${res.status}): ${text.slice(0, 200)}`,
+      );
+    }
+    const body = JSON.parse(text) as {
+      content?: Array<{ type: string; text?: string }>;
+    };
+    const content = body.content
+      ?.filter((c) => c.type === 'text' && typeof c.text === 'string')
+      .map((c) => c.text)
+      .join('');
+    if (!content) {
+      throw new BadGatewayException('anthropic returned no content.');
+    }
+    return content;
+  }
+}
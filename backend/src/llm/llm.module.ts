@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { AnthropicLlmProvider } from './anthropic.provider';
+import { LLM_PROVIDER, type LlmProvider, type LlmProviderName } from './llm.types';
+import { OpenAiLlmProvider } from './openai.provider';
+import { StubLlmProvider } from './stub.provider';
+
+const PROVIDER_NAMES: LlmProviderName[] = [
+  'openai',
+  'azure-openai',
+  'openai-compatible',
+  'anthropic',
+  'stub',
+];
+
+/** Build the provider named by LLM_PROVIDER (default `openai`). */
+export function createLlmProvider(
+  name: string = process.env.LLM_PROVIDER ?? 'openai',
+): LlmProvider {
+  switch (name as LlmProviderName) {
+    case 'openai':
+    case 'azure-openai':
+    case 'openai-compatible':
+      return new OpenAiLlmProvider(name as OpenAiLlmProvider['name']);
+    case 'anthropic':
+      return new AnthropicLlmProvider();
+    case 'stub':
+      return new StubLlmProvider();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}". Use one of: ${PROVIDER_NAMES.join(', ')}`,
+      );
+  }
+}
+
+@Module({
+  providers: [{ provide: LLM_PROVIDER, useFactory: () => createLlmProvider() }],
+  exports: [LLM_PROVIDER],
+})
+export class LlmModule {}
@@ -0,0 +1,25 @@
+/** Nest injection token for the configured LlmProvider. */
+export const LLM_PROVIDER = Symbol('LLM_PROVIDER');
+
+export interface ChatMessage {
+  role: 'system' | 'user';
+  content: string;
+}
+
+/**
+ * A chat model the matcher can prompt. Implementations return the raw text of
+ * the reply; parsing it is up to the caller. Missing configuration should
+ * surface as ServiceUnavailableException when `complete` is called, so the
+ * rest of the API keeps working without an LLM.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  complete(messages: ChatMessage[]): Promise<string>;
+}
+
+export type LlmProviderName =
+  | 'openai'
+  | 'azure-openai'
+  | 'openai-compatible'
+  | 'anthropic'
+  | 'stub';
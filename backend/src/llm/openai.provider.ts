@@ -0,0 +1,73 @@
+import {
+  BadGatewayException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { OPENAI_MODEL } from '../constants';
+import type { ChatMessage, LlmProvider } from './llm.types';
+
+function requireEnv(name: string, provider: string): string {
+  const value = process.env[name];
+  if (!value || !value.trim()) {
+    throw new ServiceUnavailableException(
+      `${provider} is not configured. Set ${name}.`,
+    );
+  }
+  return value.trim();
+}
+
+/**
+ * Chat completions through the OpenAI SDK. Also covers Azure OpenAI and any
+ * OpenAI-compatible server (Ollama, llama.cpp, vLLM) via `baseURL`.
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: 'openai' | 'azure-openai' | 'openai-compatible',
+  ) {}
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const { client, model } = this.getClient();
+    const completion = await client.chat.completions.create({
+      model,
+      messages,
+      temperature: 1,
+    });
+    const content = completion.choices[0]?.message?.content;
+    if (content == null || typeof content !== 'string') {
+      throw new BadGatewayException(`${this.name} returned no content.`);
+    }
+    return content;
+  }
+
+  private getClient(): { client: OpenAI; model: string } {
+    switch (this.name) {
+      case 'azure-openai': {
+        const deployment = requireEnv('AZURE_OPENAI_DEPLOYMENT', 'Azure OpenAI');
+        this.client ??= new AzureOpenAI({
+          apiKey: requireEnv('AZURE_OPENAI_API_KEY', 'Azure OpenAI'),
+          endpoint: requireEnv('AZURE_OPENAI_ENDPOINT', 'Azure OpenAI'),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION ?? '2024-10-21',
+          deployment,
+        });
+        return { client: this.client, model: process.env.LLM_MODEL ?? deployment };
+      }
+      case 'openai-compatible':
+        this.client ??= new OpenAI({
+          baseURL: requireEnv('LLM_BASE_URL', 'OpenAI-compatible provider'),
+          // Local servers usually ignore the key, but the SDK requires one.
+          apiKey: process.env.LLM_API_KEY || 'local',
+        });
+        return {
+          client: this.client,
+          model: requireEnv('LLM_MODEL', 'OpenAI-compatible provider'),
+        };
+      default:
+        this.client ??= new OpenAI({
+          apiKey: requireEnv('OPENAI_API_KEY', 'OpenAI API key'),
+        });
+        return { client: this.client, model: process.env.LLM_MODEL ?? OPENAI_MODEL };
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import type { ChatMessage, LlmProvider } from './llm.types';
+
+/**
+ * Deterministic offline provider for tests and air-gapped CI. Replies come
+ * from a queue when one was enqueued, otherwise from LLM_STUB_RESPONSE, and
+ * otherwise a fixed reply that ranks index 0 first. The default carries the
+ * `candidates`, `ranking` and `steps` keys so it satisfies every matcher prompt.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+  /** Every prompt received, in order, for assertions. */
+  readonly calls: ChatMessage[][] = [];
+  private readonly queue: string[] = [];
+
+  enqueue(...responses: string[]): void {
+    this.queue.push(...responses);
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    this.calls.push(messages);
+    return (
+      this.queue.shift() ??
+      process.env.LLM_STUB_RESPONSE ??
+      JSON.stringify({
+        candidates: [
+          {
+            index: 0,
+            score: 50,
+            confidence: 'low',
+            explanationBullets: ['Stub provider: first request chosen.'],
+          },
+        ],
+        ranking: [{ index: 0, score: 50 }],
+        steps: [{ index: 0, purpose: 'Stub provider: first request chosen.' }],
+      })
+    );
+  }
+}
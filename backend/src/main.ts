@@ -1,25 +1,37 @@
+import { BadRequestException } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { Request, Response, NextFunction, json } from 'express';
 import multer from 'multer';
 import { AppModule } from './app.module';
-import { DEFAULT_PORT, MAX_BODY_SIZE_BYTES } from './constants';
+import { DEFAULT_PORT, MAX_BODY_SIZE_BYTES, MAX_UPLOAD_FILES } from './constants';
+import { harStreamStorage } from './extract-har/har-stream.storage';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, { bodyParser: false });
 
-  app.use(json({ limit: MAX_BODY_SIZE_BYTES }));
+  // Nest's own parsers are off: mocked requests reach the mock controller unparsed, so it can match the body as it was sent.
+  const isMockRequest = (req: Request) => req.path.startsWith('/mock/');
+  const parseJson = json({ limit: MAX_BODY_SIZE_BYTES });
+  app.use((req: Request, res: Response, next: NextFunction) =>
+    isMockRequest(req) ? next() : parseJson(req, res, next),
+  );
 
   app.use((req: Request, res: Response, next: NextFunction) => {
     const contentType = req.headers['content-type'] ?? '';
-    if (contentType.includes('multipart/form-data')) {
+    if (contentType.includes('multipart/form-data') && !isMockRequest(req)) {
       multer({
-        storage: multer.memoryStorage(),
-        limits: { fileSize: MAX_BODY_SIZE_BYTES },
+        storage: harStreamStorage(),
       }).fields([
-        { name: 'file', maxCount: 1 },
+        { name: 'file', maxCount: MAX_UPLOAD_FILES },
         { name: 'description', maxCount: 1 },
-      ])(req, res, (err) => {
-        if (err) next(err);
+      ])(req, res, (err: unknown) => {
+        if (
+          err instanceof multer.MulterError &&
+          err.code === 'LIMIT_UNEXPECTED_FILE' &&
+          err.field === 'file'
+        ) {
+          next(new BadRequestException(`Upload at most ${MAX_UPLOAD_FILES} files at once`));
+        } else if (err) next(err);
         else next();
       });
     } else {
@@ -0,0 +1,308 @@
+import { HTTP2_PSEUDO_HEADERS, MAX_MOCK_UNMATCHED } from '../constants';
+import { templatePath } from '../extract-har/endpoint-group.util';
+import type { HarEntry, HarHeader } from '../extract-har/har.types';
+
+/**
+ * How closely a request must resemble a recorded one. `loose`: method and
+ * templated path (`/users/{id}`). `standard`: also the same query parameter
+ * names and the same body keys. `strict`: exact path, query and body.
+ */
+export type MockStrictness = 'loose' | 'standard' | 'strict';
+
+export const MOCK_STRICTNESS_LEVELS: MockStrictness[] = ['loose', 'standard', 'strict'];
+
+export interface MockOptions {
+  strictness: MockStrictness;
+}
+
+/** An incoming request, reduced to what matching looks at. */
+export interface MockRequest {
+  method: string;
+  /** Path without the mock's prefix, e.g. `/users/12`. */
+  path: string;
+  query: Array<[name: string, value: string]>;
+  body?: string;
+  contentType?: string;
+}
+
+export interface MockResponse {
+  /** Index of the served entry in the HAR's `log.entries`. */
+  entryIndex: number;
+  status: number;
+  statusText: string;
+  headers: HarHeader[];
+  body: Buffer;
+}
+
+export interface UnmatchedRequest {
+  method: string;
+  url: string;
+  at: string;
+  /** The recorded request that came closest, and the checks it failed. */
+  closest?: { entryIndex: number; method: string; url: string; failed: string[] };
+}
+
+export interface MockReport {
+  strictness: MockStrictness;
+  /** Recorded entries with a response, i.e. what can be served. */
+  entries: number;
+  requests: number;
+  matched: number;
+  /** Most recent first, at most MAX_MOCK_UNMATCHED. */
+  unmatched: UnmatchedRequest[];
+  /** How often each entry was served, in capture order. */
+  served: Array<{ entryIndex: number; method: string; url: string; count: number }>;
+}
+
+interface RecordedEntry {
+  index: number;
+  method: string;
+  url: string;
+  pathname: string;
+  pathTemplate: string;
+  query: string[];
+  queryKeys: string;
+  body?: string;
+  bodyKeys?: string;
+  entry: HarEntry;
+}
+
+interface Checks {
+  exactPath: boolean;
+  queryKeys: boolean;
+  query: boolean;
+  bodyKeys: boolean;
+  body: boolean;
+}
+
+const REQUIRED_CHECKS: Record<MockStrictness, Array<keyof Checks>> = {
+  loose: [],
+  standard: ['queryKeys', 'bodyKeys'],
+  strict: ['exactPath', 'query', 'body'],
+};
+
+/** Response headers that describe the recorded transfer rather than the body that is served. */
+const DROPPED_RESPONSE_HEADERS = new Set([
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+]);
+
+/** JSON with object keys sorted, so bodies that differ only in key order compare equal. */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
+
+/** Canonical body and its sorted top-level key names (JSON objects and form bodies only). */
+function normalizeBody(
+  text: string | undefined,
+  contentType: string | undefined,
+): { body?: string; bodyKeys?: string } {
+  if (!text) return {};
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const value: unknown = JSON.parse(trimmed);
+      const keys =
+        value && typeof value === 'object' && !Array.isArray(value)
+          ? Object.keys(value).sort().join('&')
+          : undefined;
+      return { body: canonicalJson(value), bodyKeys: keys };
+    } catch {
+      // Not JSON after all; compared as text.
+    }
+  }
+  if ((contentType ?? '').includes('application/x-www-form-urlencoded')) {
+    const params = [...new URLSearchParams(text)].map(([k, v]) => `${k}=${v}`).sort();
+    return {
+      body: params.join('&'),
+      bodyKeys: [...new Set(params.map((p) => p.split('=')[0]))].join('&'),
+    };
+  }
+  return { body: text };
+}
+
+function queryPairs(query: Array<[string, string]>): string[] {
+  return query.map(([k, v]) => `${k}=${v}`).sort();
+}
+
+function queryKeys(query: Array<[string, string]>): string {
+  return [...new Set(query.map(([k]) => k))].sort().join('&');
+}
+
+const CHECK_LABELS: Record<keyof Checks, string> = {
+  exactPath: 'path',
+  queryKeys: 'query parameter names',
+  query: 'query values',
+  bodyKeys: 'body keys',
+  body: 'body',
+};
+
+/**
+ * Answers requests from a recorded HAR. A request is served the response of
+ * the recorded entry that passes the strictness checks and agrees with it on
+ * the most details. Repeated calls that match the same recorded entries get
+ * their responses in capture order, then the last one again.
+ */
+export class HarMock {
+  private readonly recorded: RecordedEntry[];
+  private readonly sequences = new Map<string, number>();
+  private readonly hits = new Map<number, number>();
+  private unmatched: UnmatchedRequest[] = [];
+  private requests = 0;
+
+  constructor(
+    entries: HarEntry[],
+    readonly options: MockOptions,
+  ) {
+    this.recorded = [];
+    entries.forEach((entry, index) => {
+      // Status 0 is a request that never got a response; there is nothing to serve.
+      if (!entry?.request || !entry.response?.status) return;
+      let url: URL;
+      try {
+        url = new URL(entry.request.url);
+      } catch {
+        return;
+      }
+      const query = [...url.searchParams] as Array<[string, string]>;
+      this.recorded.push({
+        index,
+        method: entry.request.method.toUpperCase(),
+        url: entry.request.url,
+        pathname: url.pathname,
+        pathTemplate: templatePath(url.pathname),
+        query: queryPairs(query),
+        queryKeys: queryKeys(query),
+        ...normalizeBody(entry.request.postData?.text, entry.request.postData?.mimeType),
+        entry,
+      });
+    });
+  }
+
+  get size(): number {
+    return this.recorded.length;
+  }
+
+  /** The recorded response for a request, or undefined (and a report entry) when nothing matches. */
+  handle(request: MockRequest): MockResponse | undefined {
+    this.requests++;
+    const method = request.method.toUpperCase();
+    const pathTemplate = templatePath(request.path);
+    const pairs = queryPairs(request.query);
+    const keys = queryKeys(request.query);
+    const { body, bodyKeys } = normalizeBody(request.body, request.contentType);
+
+    const scored = this.recorded
+      .filter((r) => r.pathTemplate === pathTemplate)
+      .map((r) => {
+        const checks: Checks = {
+          exactPath: r.pathname === request.path,
+          queryKeys: r.queryKeys === keys,
+          query: r.query.join('&') === pairs.join('&'),
+          bodyKeys: r.bodyKeys === bodyKeys,
+          body: r.body === body,
+        };
+        const failed = [
+          ...(r.method === method ? [] : ['method']),
+          ...REQUIRED_CHECKS[this.options.strictness]
+            .filter((c) => !checks[c])
+            .map((c) => CHECK_LABELS[c]),
+        ];
+        const score =
+          (checks.exactPath ? 4 : 0) +
+          (checks.body ? 2 : 0) +
+          (checks.query ? 2 : 0) +
+          r.query.filter((p) => pairs.includes(p)).length / 100;
+        return { recorded: r, failed, score };
+      });
+
+    const passing = scored.filter((s) => s.failed.length === 0);
+    if (passing.length === 0) {
+      const closest = [...scored].sort(
+        (a, b) => a.failed.length - b.failed.length || b.score - a.score,
+      )[0];
+      this.unmatched.unshift({
+        method,
+        url: request.path + (request.query.length ? `?${new URLSearchParams(request.query)}` : ''),
+        at: new Date().toISOString(),
+        ...(closest
+          ? {
+              closest: {
+                entryIndex: closest.recorded.index,
+                method: closest.recorded.method,
+                url: closest.recorded.url,
+                failed: closest.failed,
+              },
+            }
+          : {}),
+      });
+      this.unmatched = this.unmatched.slice(0, MAX_MOCK_UNMATCHED);
+      return undefined;
+    }
+
+    const best = Math.max(...passing.map((s) => s.score));
+    const sequence = passing.filter((s) => s.score === best).map((s) => s.recorded);
+    const key = sequence.map((r) => r.index).join(',');
+    const position = this.sequences.get(key) ?? 0;
+    this.sequences.set(key, position + 1);
+    const served = sequence[Math.min(position, sequence.length - 1)]!;
+    this.hits.set(served.index, (this.hits.get(served.index) ?? 0) + 1);
+    return this.toResponse(served);
+  }
+
+  /** Start every sequence from its first response again and clear the report. */
+  reset(): void {
+    this.sequences.clear();
+    this.hits.clear();
+    this.unmatched = [];
+    this.requests = 0;
+  }
+
+  report(): MockReport {
+    const matched = [...this.hits.values()].reduce((n, c) => n + c, 0);
+    return {
+      strictness: this.options.strictness,
+      entries: this.recorded.length,
+      requests: this.requests,
+      matched,
+      unmatched: this.unmatched,
+      served: this.recorded
+        .filter((r) => this.hits.has(r.index))
+        .map((r) => ({
+          entryIndex: r.index,
+          method: r.method,
+          url: r.url,
+          count: this.hits.get(r.index)!,
+        })),
+    };
+  }
+
+  private toResponse(recorded: RecordedEntry): MockResponse {
+    const { response } = recorded.entry;
+    const content = response.content;
+    const body = content?.text
+      ? Buffer.from(content.text, content.encoding === 'base64' ? 'base64' : 'utf8')
+      : Buffer.alloc(0);
+    const headers = (response.headers ?? []).filter((h) => {
+      const name = h.name.toLowerCase();
+      return !HTTP2_PSEUDO_HEADERS.has(name) && !DROPPED_RESPONSE_HEADERS.has(name);
+    });
+    if (content?.mimeType && !headers.some((h) => h.name.toLowerCase() === 'content-type')) {
+      headers.push({ name: 'Content-Type', value: content.mimeType });
+    }
+    return {
+      entryIndex: recorded.index,
+      status: response.status,
+      statusText: response.statusText ?? '',
+      headers,
+      body,
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  All,
+  BadRequestException,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { MAX_BODY_SIZE_BYTES } from '../constants';
+import type { HarRoot } from '../extract-har/har.types';
+import type { MockRequest } from './har-mock.util';
+import { MockService, parseMockStrictness } from './mock.service';
+
+/**
+ * Serves a captured HAR back as a mock API. `/mocks` manages mocks; each one
+ * answers any method under `/mock/:id/...` with the recorded responses.
+ */
+@Controller()
+export class MockController {
+  constructor(private readonly mockService: MockService) {}
+
+  @Post('mocks')
+  async createMock(@Req() req: Request, @Res() res: Response): Promise<void> {
+    const body = (req as Request & { body?: unknown }).body;
+    if (body == null || typeof body !== 'object') {
+      throw new BadRequestException('Request body must be a JSON object');
+    }
+    const obj = body as Record<string, unknown>;
+    if (obj.id != null && typeof obj.id !== 'string') {
+      throw new BadRequestException('body.id must be a string');
+    }
+    const info = this.mockService.create(
+      obj.har as HarRoot,
+      parseMockStrictness(obj.strictness),
+      obj.id as string | undefined,
+    );
+    res.setHeader('Content-Type', 'application/json');
+    res.status(200).json(info);
+  }
+
+  /** Requests served and the ones no recorded entry matched. */
+  @Get('mocks/:id')
+  async getReport(@Param('id') id: string, @Res() res: Response): Promise<void> {
+    const report = this.mockService.get(id).report();
+    res.setHeader('Content-Type', 'application/json');
+    res.status(200).json(report);
+  }
+
+  /** Restart every response sequence and clear the report. */
+  @Post('mocks/:id/reset')
+  async resetMock(@Param('id') id: string, @Res() res: Response): Promise<void> {
+    this.mockService.get(id).reset();
+    res.status(204).end();
+  }
+
+  @Delete('mocks/:id')
+  async deleteMock(@Param('id') id: string, @Res() res: Response): Promise<void> {
+    this.mockService.delete(id);
+    res.status(204).end();
+  }
+
+  @All(['mock/:id', 'mock/:id/*'])
+  async serve(
+    @Param('id') id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    const mock = this.mockService.get(id);
+    const url = new URL(req.originalUrl, 'http://mock');
+    const path = url.pathname.slice(`/mock/${encodeURIComponent(id)}`.length) || '/';
+    const request: MockRequest = {
+      method: req.method,
+      path,
+      query: [...url.searchParams],
+      body: await this.readBody(req),
+      contentType: req.headers['content-type'],
+    };
+
+    const response = mock.handle(request);
+    if (!response) {
+      const closest = mock.report().unmatched[0]?.closest;
+      throw new NotFoundException({
+        statusCode: 404,
+        error: 'Not Found',
+        message: `No recorded response matches ${request.method} ${path} (strictness ${mock.options.strictness})`,
+        ...(closest ? { closest } : {}),
+      });
+    }
+
+    res.status(response.status);
+    if (response.statusText) res.statusMessage = response.statusText;
+    // Repeated headers (Set-Cookie, Link, ...) are sent once per recorded value.
+    const headers = new Map<string, { name: string; values: string[] }>();
+    for (const h of response.headers) {
+      const key = h.name.toLowerCase();
+      const header = headers.get(key);
+      if (header) header.values.push(h.value);
+      else headers.set(key, { name: h.name, values: [h.value] });
+    }
+    for (const { name, values } of headers.values()) {
+      res.setHeader(name, values.length === 1 ? values[0]! : values);
+    }
+    res.setHeader('X-Mock-Entry', String(response.entryIndex));
+    res.end(response.body);
+  }
+
+  /** The request body as sent; main.ts keeps the body parsers off `/mock/` routes. */
+  private async readBody(req: Request): Promise<string | undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req as AsyncIterable<Buffer>) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE_BYTES) {
+        throw new BadRequestException('Request body is too large');
+      }
+      chunks.push(chunk);
+    }
+    return chunks.length ? Buffer.concat(chunks).toString('utf8') : undefined;
+  }
+}
@@ -0,0 +1,40 @@
+import { Logger } from '@nestjs/common';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_MOCK_ID, MockService } from './mock.service';
+
+describe('MockService MOCK_HAR_FILE', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'mock-har-'));
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  afterEach(() => {
+    delete process.env.MOCK_HAR_FILE;
+    jest.restoreAllMocks();
+  });
+
+  it('serves a valid file as the default mock', async () => {
+    const file = join(dir, 'ok.har');
+    writeFileSync(file, JSON.stringify({ log: { entries: [] } }));
+    process.env.MOCK_HAR_FILE = file;
+    jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    const service = new MockService();
+    await service.onModuleInit();
+    expect(service.get(DEFAULT_MOCK_ID).size).toBe(0);
+  });
+
+  it.each([
+    ['is not JSON', '{not json'],
+    ['has no entries', '{"log":{}}'],
+  ])('logs and skips a file that %s', async (_, text) => {
+    const file = join(dir, 'bad.har');
+    writeFileSync(file, text);
+    process.env.MOCK_HAR_FILE = file;
+    const error = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    const service = new MockService();
+    await expect(service.onModuleInit()).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining(`Not serving MOCK_HAR_FILE ${file}`));
+    expect(() => service.get(DEFAULT_MOCK_ID)).toThrow('No mock with id default');
+  });
+});
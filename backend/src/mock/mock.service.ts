@@ -0,0 +1,84 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  type OnModuleInit,
+} from '@nestjs/common';
+import { randomBytes } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { MAX_MOCKS } from '../constants';
+import type { HarRoot } from '../extract-har/har.types';
+import { HarMock, MOCK_STRICTNESS_LEVELS, type MockStrictness } from './har-mock.util';
+
+export interface MockInfo {
+  id: string;
+  /** Recorded entries that can be served. */
+  entries: number;
+  strictness: MockStrictness;
+  /** Path prefix the mock answers under. */
+  baseUrl: string;
+}
+
+/** Id of the mock loaded from MOCK_HAR_FILE at startup. */
+export const DEFAULT_MOCK_ID = 'default';
+
+const MOCK_ID_RE = /^[\w-]{1,64}$/;
+
+export function parseMockStrictness(value: unknown): MockStrictness {
+  if (value == null) return 'standard';
+  if (!MOCK_STRICTNESS_LEVELS.includes(value as MockStrictness)) {
+    throw new BadRequestException(
+      `strictness must be one of: ${MOCK_STRICTNESS_LEVELS.join(', ')}`,
+    );
+  }
+  return value as MockStrictness;
+}
+
+/** Mocks held in memory by id; MOCK_HAR_FILE, when set, is loaded as `default` on startup. */
+@Injectable()
+export class MockService implements OnModuleInit {
+  private readonly logger = new Logger(MockService.name);
+  private readonly mocks = new Map<string, HarMock>();
+
+  async onModuleInit(): Promise<void> {
+    const file = process.env.MOCK_HAR_FILE;
+    if (!file) return;
+    try {
+      const har = JSON.parse(await readFile(file, 'utf8')) as HarRoot;
+      const info = this.create(har, parseMockStrictness(process.env.MOCK_STRICTNESS), DEFAULT_MOCK_ID);
+      this.logger.log(`Serving ${info.entries} entries from ${file} under ${info.baseUrl}`);
+    } catch (err: unknown) {
+      // A bad capture should not take the rest of the API down with it.
+      const message = err instanceof Error ? err.message : String(err);
+      this.logger.error(`Not serving MOCK_HAR_FILE ${file}: ${message}`);
+    }
+  }
+
+  create(har: HarRoot, strictness: MockStrictness, id?: string): MockInfo {
+    if (!har?.log?.entries || !Array.isArray(har.log.entries)) {
+      throw new BadRequestException('log.entries is required and must be an array');
+    }
+    if (id != null && !MOCK_ID_RE.test(id)) {
+      throw new BadRequestException('id must be 1-64 letters, digits, "_" or "-"');
+    }
+    const mockId = id ?? randomBytes(6).toString('hex');
+    this.mocks.delete(mockId);
+    if (this.mocks.size >= MAX_MOCKS) {
+      this.mocks.delete(this.mocks.keys().next().value!);
+    }
+    const mock = new HarMock(har.log.entries, { strictness });
+    this.mocks.set(mockId, mock);
+    return { id: mockId, entries: mock.size, strictness, baseUrl: `/mock/${mockId}` };
+  }
+
+  get(id: string): HarMock {
+    const mock = this.mocks.get(id);
+    if (!mock) throw new NotFoundException(`No mock with id ${id}`);
+    return mock;
+  }
+
+  delete(id: string): void {
+    if (!this.mocks.delete(id)) throw new NotFoundException(`No mock with id ${id}`);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+
+const BACKEND_URL = process.env.BACKEND_URL ?? "http://localhost:3001";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Request body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  const obj =
+    body != null && typeof body === "object"
+      ? (body as Record<string, unknown>)
+      : {};
+  if (!Array.isArray(obj.entries)) {
+    return NextResponse.json(
+      { success: false, error: "entries is required and must be an array" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const res = await fetch(`${BACKEND_URL}/extract-har/openapi`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        entries: obj.entries,
+        indices: obj.indices,
+        format: obj.format,
+        title: obj.title,
+      }),
+    });
+
+    const text = await res.text();
+
+    if (!res.ok) {
+      let errorMessage = "Backend request failed.";
+      try {
+        const json = JSON.parse(text) as { message?: string | string[] };
+        if (Array.isArray(json.message)) {
+          errorMessage = json.message[0] ?? errorMessage;
+        } else if (typeof json.message === "string") {
+          errorMessage = json.message;
+        }
+      } catch {
+        if (text) errorMessage = text.slice(0, 200);
+      }
+      return NextResponse.json(
+        { success: false, error: errorMessage },
+        { status: res.status >= 400 && res.status < 600 ? res.status : 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...JSON.parse(text) });
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Could not reach the backend. Is it running?" },
+      { status: 502 }
+    );
+  }
+}
@@ -31,9 +31,13 @@ export async function POST(request: Request) {
     );
   }
 
-  if (!Array.isArray(entries)) {
+  const sessionId = obj.sessionId;
+  if (typeof sessionId !== "string" && !Array.isArray(entries)) {
     return NextResponse.json(
-      { success: false, error: "entries must be an array" },
+      {
+        success: false,
+        error: "sessionId or entries (an array) is required",
+      },
       { status: 400 }
     );
   }
@@ -42,7 +46,13 @@ export async function POST(request: Request) {
     const res = await fetch(`${BACKEND_URL}/extract-har/match`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ description: description.trim(), entries }),
+      body: JSON.stringify({
+        description: description.trim(),
+        ...(typeof sessionId === "string" ? { sessionId } : { entries }),
+        redactPatterns: obj.redactPatterns,
+        targets: obj.targets,
+        mode: obj.mode,
+      }),
     });
 
     const text = await res.text();
@@ -66,17 +76,45 @@ export async function POST(request: Request) {
     }
 
     const data = JSON.parse(text) as {
-      curl: string;
+      mode?: string;
+      curl?: string;
       matchedIndex?: number;
       confidence?: string;
       explanationBullets?: string[];
+      candidates?: unknown[];
+      snippets?: Record<string, string>;
+      template?: unknown;
+      schema?: unknown;
+      matcher?: string;
+      redactions?: unknown[];
+      steps?: unknown[];
+      variables?: unknown[];
+      scripts?: { shell: string; typescript: string };
     };
+    if (data.mode === "workflow") {
+      return NextResponse.json({
+        success: true,
+        mode: data.mode,
+        steps: data.steps,
+        variables: data.variables,
+        scripts: data.scripts,
+        explanationBullets: data.explanationBullets,
+        matcher: data.matcher,
+        redactions: data.redactions,
+      });
+    }
     return NextResponse.json({
       success: true,
       curl: data.curl,
       matchedIndex: data.matchedIndex,
       confidence: data.confidence,
       explanationBullets: data.explanationBullets,
+      candidates: data.candidates,
+      snippets: data.snippets,
+      template: data.template,
+      schema: data.schema,
+      matcher: data.matcher,
+      redactions: data.redactions,
     });
   } catch (err) {
     return NextResponse.json(
@@ -3,31 +3,28 @@ import { NextResponse } from "next/server";
 const BACKEND_URL = process.env.BACKEND_URL ?? "http://localhost:3001";
 
 export async function POST(request: Request) {
-  const formData = await request.formData();
-  const file = formData.get("file") as File | null;
-
-  if (!file) {
-    return NextResponse.json(
-      { success: false, error: "No file provided" },
-      { status: 400 }
-    );
-  }
-
-  if (!file.name.toLowerCase().endsWith(".har")) {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (
+    !request.body ||
+    !/^(multipart\/form-data|application\/json)\b/i.test(contentType)
+  ) {
     return NextResponse.json(
-      { success: false, error: "Only .har files are accepted" },
+      { success: false, error: "No file or curl command provided" },
       { status: 400 }
     );
   }
 
   try {
-    const backendFormData = new FormData();
-    backendFormData.append("file", file);
-
+    // Streamed through as it arrives rather than read with formData(), so an
+    // upload is never held in memory here; the backend parses it entry by
+    // entry. Uploads are multipart with the filter fields before the files,
+    // pasted curl is JSON `{ curl, profile }`.
     const res = await fetch(`${BACKEND_URL}/extract-har/parse`, {
       method: "POST",
-      body: backendFormData,
-    });
+      headers: { "Content-Type": contentType },
+      body: request.body,
+      duplex: "half",
+    } as RequestInit & { duplex: "half" });
 
     const text = await res.text();
 
@@ -49,11 +46,22 @@ export async function POST(request: Request) {
       );
     }
 
-    const data = JSON.parse(text) as { count: number; entries: unknown[] };
+    const data = JSON.parse(text) as {
+      count: number;
+      entries: unknown[];
+      groups?: unknown[];
+      filter?: unknown;
+      source?: unknown;
+      sessionId?: string;
+    };
     return NextResponse.json({
       success: true,
       count: data.count,
       entries: data.entries,
+      groups: data.groups,
+      filter: data.filter,
+      source: data.source,
+      sessionId: data.sessionId,
     });
   } catch (err) {
     return NextResponse.json(
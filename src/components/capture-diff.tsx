@@ -0,0 +1,253 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CAPTURE_FILE_ACCEPT, isCaptureFileName } from "@/lib/capture-formats";
+import {
+  diffCaptures,
+  type CaptureDiff,
+  type EndpointChange,
+  type SchemaChange,
+} from "@/lib/diff-captures";
+import type { FilterProfileName, ParseEntry } from "@/lib/har-types";
+
+/** One line of the side-by-side view; a side without text is left blank. */
+interface DiffLine {
+  before?: string;
+  after?: string;
+}
+
+interface DiffRow {
+  key: string;
+  endpoint: string;
+  /** First entry of the endpoint in the current session, to select it in the request list. */
+  beforeIndex?: number;
+  lines: DiffLine[];
+}
+
+function schemaLines(body: string, changes: SchemaChange[]): DiffLine[] {
+  return changes.map((c) => {
+    const path = `${body} ${c.path}`;
+    switch (c.kind) {
+      case "added":
+        return { after: `+ ${path}: ${c.after}` };
+      case "removed":
+        return { before: `− ${path}: ${c.before}` };
+      case "type":
+        return { before: `${path}: ${c.before}`, after: `${path}: ${c.after}` };
+      case "required":
+        return { before: `${path} optional`, after: `${path} required` };
+      case "optional":
+        return { before: `${path} required`, after: `${path} optional` };
+    }
+  });
+}
+
+function changeLines(change: EndpointChange): DiffLine[] {
+  const lines: DiffLine[] = [];
+  if (change.methods) {
+    lines.push({
+      before: change.methods.before.join(", "),
+      after: change.methods.after.join(", "),
+    });
+  }
+  for (const name of change.queryParams.removed) lines.push({ before: `− ?${name}` });
+  for (const name of change.queryParams.added) lines.push({ after: `+ ?${name}` });
+  for (const name of change.headers.removed) lines.push({ before: `− header ${name}` });
+  for (const name of change.headers.added) lines.push({ after: `+ header ${name}` });
+  return [
+    ...lines,
+    ...schemaLines("request", change.requestBody),
+    ...schemaLines("response", change.responseBody),
+  ];
+}
+
+function toRows(diff: CaptureDiff): DiffRow[] {
+  return [
+    ...diff.removed.map((e) => ({
+      key: `removed ${e.endpoint}`,
+      endpoint: e.endpoint,
+      beforeIndex: e.entryIndices[0],
+      lines: [{ before: `− removed (${e.methods.join(", ")})` }],
+    })),
+    ...diff.added.map((e) => ({
+      key: `added ${e.endpoint}`,
+      endpoint: e.endpoint,
+      lines: [{ after: `+ added (${e.methods.join(", ")})` }],
+    })),
+    ...diff.changed.map((c) => ({
+      key: `changed ${c.endpoint}`,
+      endpoint: c.endpoint,
+      beforeIndex: c.before[0],
+      lines: changeLines(c),
+    })),
+  ];
+}
+
+export interface CaptureDiffPanelProps {
+  /** The current session, compared as the "before" side. */
+  entries: ParseEntry[];
+  sessionName: string;
+  filterProfile: FilterProfileName;
+  onSelectIndex: (index: number) => void;
+}
+
+/**
+ * Compare the session with another capture, parsed with the same filter:
+ * endpoints that appeared or disappeared and the ones that changed, side by side.
+ */
+export function CaptureDiffPanel({
+  entries,
+  sessionName,
+  filterProfile,
+  onSelectIndex,
+}: CaptureDiffPanelProps) {
+  const [afterFile, setAfterFile] = useState<File | null>(null);
+  const [diff, setDiff] = useState<CaptureDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setAfterFile(null);
+    setDiff(null);
+    setError(null);
+  }, [entries]);
+
+  const handleFileChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = e.target.files?.[0];
+      e.target.value = "";
+      if (!selected) return;
+      if (!isCaptureFileName(selected.name)) {
+        setError(`${selected.name} is not a capture file`);
+        return;
+      }
+      setAfterFile(selected);
+      setDiff(null);
+      setError(null);
+      setLoading(true);
+      try {
+        const formData = new FormData();
+        formData.append("profile", filterProfile);
+        formData.append("file", selected);
+        const res = await fetch("/api/parse-har", {
+          method: "POST",
+          body: formData,
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error ?? "Parse failed");
+          return;
+        }
+        setDiff(await diffCaptures(entries, data.entries ?? []));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [entries, filterProfile]
+  );
+
+  const rows = diff ? toRows(diff) : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex-none flex-row items-center gap-2 space-y-0 px-4 py-3">
+        <CardTitle className="text-base">Compare captures</CardTitle>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={CAPTURE_FILE_ACCEPT}
+          onChange={handleFileChange}
+          className="sr-only"
+          aria-label="Capture to compare with"
+        />
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={loading || entries.length === 0}
+          className="ml-auto rounded border border-input bg-background px-2 py-1 text-xs font-medium hover:bg-accent disabled:opacity-50"
+        >
+          {loading
+            ? "Comparing…"
+            : afterFile
+              ? "Compare another"
+              : "Compare with…"}
+        </button>
+      </CardHeader>
+      <CardContent className="space-y-3 px-4 pb-4 pt-0 text-xs">
+        {!diff && !error && (
+          <p className="text-muted-foreground">
+            Pick a later capture of the same site to see which API calls
+            appeared, disappeared or changed shape.
+          </p>
+        )}
+        {error && <p className="text-destructive">{error}</p>}
+        {diff && afterFile && (
+          <>
+            <p className="text-muted-foreground">
+              {diff.added.length} added · {diff.removed.length} removed ·{" "}
+              {diff.changed.length} changed · {diff.unchanged} unchanged
+            </p>
+            {rows.length > 0 && (
+              <div>
+                <div className="grid grid-cols-2 gap-x-3 border-b border-border pb-1 font-medium">
+                  <span className="truncate" title={sessionName}>
+                    Before: {sessionName}
+                  </span>
+                  <span className="truncate" title={afterFile.name}>
+                    After: {afterFile.name}
+                  </span>
+                </div>
+                <ul className="divide-y divide-border">
+                  {rows.map((row) => (
+                    <li key={row.key} className="space-y-1 py-2">
+                      {row.beforeIndex != null ? (
+                        <button
+                          type="button"
+                          onClick={() => onSelectIndex(row.beforeIndex!)}
+                          className="block max-w-full truncate font-mono font-medium hover:underline"
+                          title={row.endpoint}
+                        >
+                          {row.endpoint}
+                        </button>
+                      ) : (
+                        <p
+                          className="truncate font-mono font-medium"
+                          title={row.endpoint}
+                        >
+                          {row.endpoint}
+                        </p>
+                      )}
+                      {row.lines.map((line, i) => (
+                        <div
+                          key={i}
+                          className="grid grid-cols-2 gap-x-3 font-mono"
+                        >
+                          <span
+                            className="truncate text-destructive"
+                            title={line.before}
+                          >
+                            {line.before}
+                          </span>
+                          <span
+                            className="truncate text-green-600 dark:text-green-400"
+                            title={line.after}
+                          >
+                            {line.after}
+                          </span>
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
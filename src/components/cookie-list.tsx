@@ -0,0 +1,41 @@
+import { cn } from "@/lib/utils";
+import type { RequestCookie } from "@/lib/har-types";
+
+export interface CookieListProps {
+  cookies: RequestCookie[];
+}
+
+/** Cookies a request sends, with whether replaying it needs each one and why. */
+export function CookieList({ cookies }: CookieListProps) {
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {cookies.map((c) => (
+        <li key={c.name} className="flex items-baseline gap-2">
+          <span
+            className={cn(
+              "shrink-0 rounded px-1 py-0.5 text-[10px] font-medium uppercase",
+              c.needed
+                ? "bg-primary/10 text-primary"
+                : "bg-muted text-muted-foreground"
+            )}
+          >
+            {c.needed ? "needed" : "skipped"}
+          </span>
+          <span
+            className={cn(
+              "truncate font-mono",
+              !c.needed && "text-muted-foreground line-through"
+            )}
+            title={`${c.name}=${c.value}`}
+          >
+            {c.name}
+          </span>
+          <span className="ml-auto shrink-0 text-muted-foreground">
+            {c.reason}
+            {c.source === "jar" && " · from cookie jar"}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
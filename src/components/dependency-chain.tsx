@@ -0,0 +1,81 @@
+import type { ParseEntry } from "@/lib/har-types";
+
+const MAX_CHAIN_DEPTH = 4;
+
+function getPathname(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+function truncate(value: string, max = 32): string {
+  return value.length > max ? value.slice(0, max) + "…" : value;
+}
+
+export interface DependencyChainProps {
+  entries: ParseEntry[];
+  index: number;
+  onSelectIndex: (index: number) => void;
+  /** Entries already shown further up the chain, so cycles stop. */
+  visited?: number[];
+}
+
+/**
+ * Where an entry's dynamic values came from, followed back through the
+ * requests that produced them.
+ */
+export function DependencyChain({
+  entries,
+  index,
+  onSelectIndex,
+  visited = [],
+}: DependencyChainProps) {
+  const deps = entries[index]?.dependencies ?? [];
+  if (deps.length === 0) return null;
+  const path = [...visited, index];
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {deps.map((d) => {
+        const source = entries[d.sourceIndex];
+        const expand =
+          path.length < MAX_CHAIN_DEPTH && !path.includes(d.sourceIndex);
+        return (
+          <li key={`${d.location}:${d.sourceIndex}`}>
+            <p>
+              <span className="font-mono">{d.location}</span>{" "}
+              <span className="font-mono text-muted-foreground" title={d.value}>
+                {truncate(d.value)}
+              </span>{" "}
+              {d.match === "contains" ? "contains a value" : "originated"} from
+              the response of{" "}
+              <button
+                type="button"
+                onClick={() => onSelectIndex(d.sourceIndex)}
+                className="font-mono underline underline-offset-2 hover:text-foreground"
+              >
+                #{d.sourceIndex}{" "}
+                {source
+                  ? `${source.method} ${getPathname(source.url)}`
+                  : ""}
+              </button>{" "}
+              at <span className="font-mono">{d.sourcePath}</span>
+            </p>
+            {expand && (
+              <div className="ml-3 mt-1 border-l border-input pl-2">
+                <DependencyChain
+                  entries={entries}
+                  index={d.sourceIndex}
+                  onSelectIndex={onSelectIndex}
+                  visited={path}
+                />
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
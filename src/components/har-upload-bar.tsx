@@ -2,63 +2,98 @@
 
 import { useCallback, useRef, useState } from "react";
 import { cn } from "@/lib/utils";
+import {
+  CAPTURE_FILE_ACCEPT,
+  CAPTURE_FORMAT_LABELS,
+  isCaptureFileName,
+} from "@/lib/capture-formats";
+import type {
+  CaptureSource,
+  FilterProfileName,
+  FilterReport,
+} from "@/lib/har-types";
 
-const ACCEPT = ".har";
+const FILTER_PROFILE_LABELS: Record<FilterProfileName, string> = {
+  api: "API calls only",
+  minimal: "Drop HTML only",
+  none: "No filtering",
+};
 
 export interface HarUploadBarProps {
-  file: File | null;
+  /** Files of the current session; several are merged into one. */
+  files: File[];
+  /** Text of the current session when it was pasted rather than uploaded. */
+  pastedCurl: string | null;
   parseCount: number | null;
   parseError: string | null;
   parseLoading: boolean;
-  onFileSelected: (file: File | null) => void;
-  onParseRequested: (file: File) => void;
+  filterProfile: FilterProfileName;
+  filterReport: FilterReport | null;
+  captureSource: CaptureSource | null;
+  onFilterProfileChange: (profile: FilterProfileName) => void;
+  onFilesSelected: (files: File[]) => void;
+  onParseRequested: (files: File[]) => void;
+  onCurlParseRequested: (text: string) => void;
   onClear: () => void;
 }
 
 export function HarUploadBar({
-  file,
+  files,
+  pastedCurl,
   parseCount,
   parseError,
   parseLoading,
-  onFileSelected,
+  filterProfile,
+  filterReport,
+  captureSource,
+  onFilterProfileChange,
+  onFilesSelected,
   onParseRequested,
+  onCurlParseRequested,
   onClear,
 }: HarUploadBarProps) {
   const [isDragging, setIsDragging] = useState(false);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [curlDraft, setCurlDraft] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
+  /** Whether the file picker adds to the session instead of replacing it. */
+  const appendRef = useRef(false);
 
   const validateFile = useCallback((f: File) => {
-    return f.name.toLowerCase().endsWith(ACCEPT);
+    return isCaptureFileName(f.name);
   }, []);
 
-  const handleFileChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      const selected = e.target.files?.[0];
-      if (!selected) return;
-      if (!validateFile(selected)) {
-        onFileSelected(null);
+  const selectFiles = useCallback(
+    (selected: File[]) => {
+      if (selected.length === 0) return;
+      if (!selected.every(validateFile)) {
+        onFilesSelected([]);
         return;
       }
-      onFileSelected(selected);
+      onFilesSelected(selected);
       onParseRequested(selected);
     },
-    [validateFile, onFileSelected, onParseRequested]
+    [validateFile, onFilesSelected, onParseRequested]
+  );
+
+  const handleFileChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = Array.from(e.target.files ?? []);
+      // Let the same file be picked again after it was removed.
+      e.target.value = "";
+      if (selected.length === 0) return;
+      selectFiles(appendRef.current ? [...files, ...selected] : selected);
+    },
+    [files, selectFiles]
   );
 
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       setIsDragging(false);
-      const dropped = e.dataTransfer.files?.[0];
-      if (!dropped) return;
-      if (!validateFile(dropped)) {
-        onFileSelected(null);
-        return;
-      }
-      onFileSelected(dropped);
-      onParseRequested(dropped);
+      selectFiles(Array.from(e.dataTransfer.files ?? []));
     },
-    [validateFile, onFileSelected, onParseRequested]
+    [selectFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -72,9 +107,21 @@ export function HarUploadBar({
   }, []);
 
   const handleClick = useCallback(() => {
+    appendRef.current = false;
+    inputRef.current?.click();
+  }, []);
+
+  const handleAddClick = useCallback(() => {
+    appendRef.current = true;
     inputRef.current?.click();
   }, []);
 
+  const handleCurlParse = useCallback(() => {
+    if (!curlDraft.trim()) return;
+    onCurlParseRequested(curlDraft);
+    setPasteOpen(false);
+  }, [curlDraft, onCurlParseRequested]);
+
   return (
     <div className="flex flex-col gap-2">
       <div
@@ -90,13 +137,14 @@ export function HarUploadBar({
         <input
           ref={inputRef}
           type="file"
-          accept={ACCEPT}
+          accept={CAPTURE_FILE_ACCEPT}
+          multiple
           onChange={handleFileChange}
           className="sr-only"
           id="har-upload"
         />
         <span className="text-sm font-medium text-muted-foreground">
-          Upload .har file
+          Upload capture
         </span>
         <button
           type="button"
@@ -104,12 +152,66 @@ export function HarUploadBar({
           className="rounded border border-input bg-background px-3 py-1.5 text-sm font-medium hover:bg-accent disabled:opacity-50"
           disabled={parseLoading}
         >
-          {file ? "Replace file" : "drag & drop"}
+          {files.length > 1
+            ? "Replace files"
+            : files.length === 1
+              ? "Replace file"
+              : "drag & drop"}
         </button>
-        {file && (
+        {files.length > 0 && (
+          <button
+            type="button"
+            onClick={handleAddClick}
+            className="rounded border border-input bg-background px-3 py-1.5 text-sm font-medium hover:bg-accent disabled:opacity-50"
+            disabled={parseLoading}
+            title="Merge more captures into this session"
+          >
+            Add files
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setPasteOpen((open) => !open)}
+          className={cn(
+            "rounded border border-input px-3 py-1.5 text-sm font-medium hover:bg-accent disabled:opacity-50",
+            pasteOpen ? "bg-accent text-foreground" : "bg-background"
+          )}
+          disabled={parseLoading}
+        >
+          Paste curl
+        </button>
+        <select
+          value={filterProfile}
+          onChange={(e) =>
+            onFilterProfileChange(e.target.value as FilterProfileName)
+          }
+          disabled={parseLoading}
+          className="rounded border border-input bg-background px-2 py-1.5 text-sm disabled:opacity-50"
+          aria-label="Filter profile"
+        >
+          {(Object.keys(FILTER_PROFILE_LABELS) as FilterProfileName[]).map(
+            (p) => (
+              <option key={p} value={p}>
+                {FILTER_PROFILE_LABELS[p]}
+              </option>
+            )
+          )}
+        </select>
+        {(files.length > 0 || pastedCurl !== null) && (
           <>
-            <span className="text-sm font-medium text-foreground">
-              {file.name}
+            <span
+              className="text-sm font-medium text-foreground"
+              title={
+                files.length > 1
+                  ? files.map((f) => f.name).join("\n")
+                  : undefined
+              }
+            >
+              {files.length > 1
+                ? `${files.length} files`
+                : files.length === 1
+                  ? files[0]!.name
+                  : "Pasted curl"}
             </span>
             {parseLoading && (
               <span className="text-sm text-muted-foreground">Parsing…</span>
@@ -119,6 +221,37 @@ export function HarUploadBar({
                 ✓ Parsed ({parseCount})
               </span>
             )}
+            {!parseLoading &&
+              parseCount !== null &&
+              filterReport &&
+              filterReport.total > parseCount && (
+              <span
+                className="text-sm text-muted-foreground"
+                title={filterReport.removedByRule
+                  .map((r) => `${r.rule}: ${r.count}`)
+                  .join("\n")}
+              >
+                {filterReport.total - parseCount} filtered
+              </span>
+            )}
+            {!parseLoading &&
+              parseCount !== null &&
+              captureSource &&
+              (captureSource.format !== "har" ||
+                captureSource.warnings.length > 0) && (
+              <span
+                className={cn(
+                  "text-sm text-muted-foreground",
+                  captureSource.warnings.length > 0 &&
+                    "underline decoration-dotted"
+                )}
+                title={captureSource.warnings.join("\n") || undefined}
+              >
+                from {CAPTURE_FORMAT_LABELS[captureSource.format]}
+                {captureSource.warnings.length > 0 &&
+                  ` (${captureSource.warnings.length} warning${captureSource.warnings.length === 1 ? "" : "s"})`}
+              </span>
+            )}
             {!parseLoading && parseError && (
               <span className="text-sm text-destructive">{parseError}</span>
             )}
@@ -132,6 +265,32 @@ export function HarUploadBar({
           </>
         )}
       </div>
+      {pasteOpen && (
+        <div className="flex flex-col gap-2 rounded-lg border border-input bg-muted/30 p-3">
+          <textarea
+            value={curlDraft}
+            onChange={(e) => setCurlDraft(e.target.value)}
+            placeholder={"curl 'https://api.example.com/items' \\\n  -H 'accept: application/json'"}
+            rows={6}
+            spellCheck={false}
+            className="w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            aria-label="curl commands"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleCurlParse}
+              disabled={parseLoading || !curlDraft.trim()}
+              className="rounded border border-input bg-background px-3 py-1.5 text-sm font-medium hover:bg-accent disabled:opacity-50"
+            >
+              Parse
+            </button>
+            <span className="text-xs text-muted-foreground">
+              One or more commands from &quot;Copy as cURL (bash)&quot;
+            </span>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
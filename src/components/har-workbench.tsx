@@ -1,75 +1,166 @@
 "use client";
 
 import { useCallback, useState } from "react";
+import { CaptureDiffPanel } from "@/components/capture-diff";
 import { HarUploadBar } from "@/components/har-upload-bar";
 import { RequestInspector } from "@/components/request-inspector";
-import { MatchAndCurl } from "@/components/match-and-curl";
-import type { ParseEntry } from "@/lib/har-types";
-import type { MatchResult } from "@/lib/har-types";
+import { MatchAndCurl, type MatchMode } from "@/components/match-and-curl";
+import {
+  DEFAULT_FILTER_PROFILE,
+  type CaptureSource,
+  type EndpointGroup,
+  type FilterProfileName,
+  type FilterReport,
+  type ParseEntry,
+} from "@/lib/har-types";
+import type { MatchResult, WorkflowResult } from "@/lib/har-types";
+
+/** A session comes from uploaded capture files, merged by the backend, or from pasted curl commands. */
+type SessionInput = { files: File[] } | { curl: string };
 
 export function HarWorkbench() {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [pastedCurl, setPastedCurl] = useState<string | null>(null);
   const [parseLoading, setParseLoading] = useState(false);
   const [parseError, setParseError] = useState<string | null>(null);
   const [entries, setEntries] = useState<ParseEntry[]>([]);
+  /** Server-side copy of the entries; matching sends this instead of every entry. */
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<EndpointGroup[]>([]);
   const [parseCount, setParseCount] = useState<number | null>(null);
+  const [filterProfile, setFilterProfile] = useState<FilterProfileName>(
+    DEFAULT_FILTER_PROFILE
+  );
+  const [filterReport, setFilterReport] = useState<FilterReport | null>(null);
+  const [captureSource, setCaptureSource] = useState<CaptureSource | null>(
+    null
+  );
   const [selectedEntryIndex, setSelectedEntryIndex] = useState<number | null>(
     null
   );
   const [apiDescription, setApiDescription] = useState("");
+  /** Extra regexes to redact before prompting, one per line. */
+  const [redactPatterns, setRedactPatterns] = useState("");
   const [findResult, setFindResult] = useState<MatchResult | null>(null);
+  const [matchMode, setMatchMode] = useState<MatchMode>("single");
+  const [workflowResult, setWorkflowResult] = useState<WorkflowResult | null>(
+    null
+  );
   const [findLoading, setFindLoading] = useState(false);
   const [findError, setFindError] = useState<string | null>(null);
 
-  const handleFileSelected = useCallback((f: File | null) => {
-    setFile(f);
-    if (!f) {
+  const handleFilesSelected = useCallback((selected: File[]) => {
+    setFiles(selected);
+    setPastedCurl(null);
+    if (selected.length === 0) {
       setEntries([]);
+      setSessionId(null);
+      setGroups([]);
       setParseCount(null);
+      setFilterReport(null);
+      setCaptureSource(null);
       setParseError(null);
       setFindResult(null);
+      setWorkflowResult(null);
       setSelectedEntryIndex(null);
     }
   }, []);
 
-  const handleParseRequested = useCallback(async (f: File) => {
-    setParseLoading(true);
-    setParseError(null);
-    setFindResult(null);
-    try {
-      const formData = new FormData();
-      formData.append("file", f);
-      const res = await fetch("/api/parse-har", {
-        method: "POST",
-        body: formData,
-      });
-      const data = await res.json();
-      if (!res.ok) {
-        setParseError(data.error ?? "Parse failed");
+  const parseSession = useCallback(
+    async (input: SessionInput, profile: FilterProfileName) => {
+      setParseLoading(true);
+      setParseError(null);
+      setFindResult(null);
+      setWorkflowResult(null);
+      setSelectedEntryIndex(null);
+      try {
+        let res: Response;
+        if ("files" in input) {
+          // The profile goes first: the backend parses files as they stream in.
+          const formData = new FormData();
+          formData.append("profile", profile);
+          for (const f of input.files) formData.append("file", f);
+          res = await fetch("/api/parse-har", {
+            method: "POST",
+            body: formData,
+          });
+        } else {
+          res = await fetch("/api/parse-har", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ curl: input.curl, profile }),
+          });
+        }
+        const data = await res.json();
+        if (!res.ok) {
+          setParseError(data.error ?? "Parse failed");
+          setEntries([]);
+          setSessionId(null);
+          setGroups([]);
+          setParseCount(null);
+          setFilterReport(null);
+          setCaptureSource(null);
+          return;
+        }
+        setEntries(data.entries ?? []);
+        setSessionId(data.sessionId ?? null);
+        setGroups(data.groups ?? []);
+        setParseCount(data.count ?? 0);
+        setFilterReport(data.filter ?? null);
+        setCaptureSource(data.source ?? null);
+      } catch {
+        setParseError("Could not reach the server.");
         setEntries([]);
+        setSessionId(null);
+        setGroups([]);
         setParseCount(null);
-        return;
+        setFilterReport(null);
+        setCaptureSource(null);
+      } finally {
+        setParseLoading(false);
       }
-      setEntries(data.entries ?? []);
-      setParseCount(data.count ?? 0);
-    } catch {
-      setParseError("Could not reach the server.");
-      setEntries([]);
-      setParseCount(null);
-    } finally {
-      setParseLoading(false);
-    }
-  }, []);
+    },
+    []
+  );
+
+  const handleParseRequested = useCallback(
+    (selected: File[]) => parseSession({ files: selected }, filterProfile),
+    [parseSession, filterProfile]
+  );
+
+  const handleCurlParseRequested = useCallback(
+    (text: string) => {
+      setFiles([]);
+      setPastedCurl(text);
+      parseSession({ curl: text }, filterProfile);
+    },
+    [parseSession, filterProfile]
+  );
+
+  const handleFilterProfileChange = useCallback(
+    (profile: FilterProfileName) => {
+      setFilterProfile(profile);
+      if (files.length > 0) parseSession({ files }, profile);
+      else if (pastedCurl !== null) parseSession({ curl: pastedCurl }, profile);
+    },
+    [files, pastedCurl, parseSession]
+  );
 
   const handleClear = useCallback(() => {
-    setFile(null);
+    setFiles([]);
+    setPastedCurl(null);
     setParseLoading(false);
     setParseError(null);
     setEntries([]);
+    setSessionId(null);
+    setGroups([]);
     setParseCount(null);
+    setFilterReport(null);
+    setCaptureSource(null);
     setSelectedEntryIndex(null);
     setApiDescription("");
     setFindResult(null);
+    setWorkflowResult(null);
     setFindError(null);
   }, []);
 
@@ -83,40 +174,101 @@ export function HarWorkbench() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           description: apiDescription.trim(),
-          entries,
+          ...(sessionId ? { sessionId } : { entries }),
+          redactPatterns: redactPatterns
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean),
+          mode: matchMode,
         }),
       });
       const data = await res.json();
       if (!res.ok) {
         setFindError(data.error ?? "Match failed");
         setFindResult(null);
+        setWorkflowResult(null);
         return;
       }
+      if (data.mode === "workflow") {
+        setFindResult(null);
+        setWorkflowResult({
+          mode: "workflow",
+          steps: data.steps ?? [],
+          variables: data.variables ?? [],
+          scripts: data.scripts ?? { shell: "", typescript: "" },
+          explanationBullets: data.explanationBullets,
+          matcher: data.matcher,
+          redactions: data.redactions ?? [],
+        });
+        return;
+      }
+      setWorkflowResult(null);
       setFindResult({
         curl: data.curl ?? "",
         matchedIndex: data.matchedIndex,
         confidence: data.confidence,
         explanationBullets: data.explanationBullets,
+        candidates: data.candidates ?? [],
+        snippets: data.snippets,
+        template: data.template,
+        schema: data.schema,
+        matcher: data.matcher,
+        redactions: data.redactions ?? [],
       });
     } catch {
       setFindError("Could not reach the server.");
       setFindResult(null);
+      setWorkflowResult(null);
     } finally {
       setFindLoading(false);
     }
-  }, [entries, apiDescription]);
+  }, [entries, sessionId, apiDescription, redactPatterns, matchMode]);
+
+  const handlePromoteCandidate = useCallback((position: number) => {
+    setFindResult((prev) => {
+      const candidates = prev?.candidates ?? [];
+      const promoted = candidates[position];
+      if (!prev || !promoted) return prev;
+      return {
+        curl: promoted.curl,
+        matchedIndex: promoted.index,
+        confidence: promoted.confidence,
+        explanationBullets: promoted.explanationBullets,
+        candidates: [promoted, ...candidates.filter((_, i) => i !== position)],
+        snippets: promoted.snippets,
+        template: promoted.template,
+        schema: promoted.schema,
+        matcher: prev.matcher,
+        redactions: prev.redactions,
+      };
+    });
+  }, []);
+
+  const sessionName =
+    files.length > 1
+      ? `${files.length} files`
+      : (files[0]?.name ?? (pastedCurl !== null ? "Pasted curl" : ""));
 
   const matchedIndex = findResult?.matchedIndex ?? null;
+  const candidateIndices = workflowResult
+    ? workflowResult.steps.map((s) => s.index)
+    : (findResult?.candidates ?? []).map((c) => c.index);
 
   return (
     <div className="flex h-screen flex-col gap-4 p-4">
       <HarUploadBar
-        file={file}
+        files={files}
+        pastedCurl={pastedCurl}
         parseCount={parseCount}
         parseError={parseError}
         parseLoading={parseLoading}
-        onFileSelected={handleFileSelected}
+        filterProfile={filterProfile}
+        filterReport={filterReport}
+        captureSource={captureSource}
+        onFilterProfileChange={handleFilterProfileChange}
+        onFilesSelected={handleFilesSelected}
         onParseRequested={handleParseRequested}
+        onCurlParseRequested={handleCurlParseRequested}
         onClear={handleClear}
       />
 
@@ -124,22 +276,40 @@ export function HarWorkbench() {
         <div className="flex min-h-0 flex-col overflow-hidden">
           <RequestInspector
             entries={entries}
+            groups={groups}
             selectedIndex={selectedEntryIndex}
             onSelectIndex={setSelectedEntryIndex}
             matchedIndex={matchedIndex}
+            candidateIndices={candidateIndices}
           />
         </div>
         <div className="flex min-h-0 flex-col overflow-y-auto">
           <MatchAndCurl
             apiDescription={apiDescription}
             setApiDescription={setApiDescription}
+            redactPatterns={redactPatterns}
+            setRedactPatterns={setRedactPatterns}
             entries={entries}
             findResult={findResult}
+            matchMode={matchMode}
+            onMatchModeChange={setMatchMode}
+            workflowResult={workflowResult}
             findLoading={findLoading}
             findError={findError}
             onFind={handleFind}
+            onPromoteCandidate={handlePromoteCandidate}
             entriesCount={entries.length}
           />
+          {entries.length > 0 && (
+            <div className="mt-4">
+              <CaptureDiffPanel
+                entries={entries}
+                sessionName={sessionName}
+                filterProfile={filterProfile}
+                onSelectIndex={setSelectedEntryIndex}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -3,12 +3,50 @@
 import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CookieList } from "@/components/cookie-list";
+import { ReplayDiff } from "@/components/replay-diff";
+import { TemplateForm } from "@/components/template-form";
+import { WorkflowSteps } from "@/components/workflow-steps";
 import {
   executeRequest,
   type ExecuteResult,
 } from "@/lib/execute-request";
-import type { ParseEntry } from "@/lib/har-types";
-import type { MatchResult } from "@/lib/har-types";
+import { toJsonSchemaDocument } from "@/lib/endpoint-schema";
+import type { CodegenTarget, ParseEntry } from "@/lib/har-types";
+import type { MatchResult, WorkflowResult } from "@/lib/har-types";
+import {
+  fillTemplateCurl,
+  fillTemplateEntry,
+  initialTemplateValues,
+  refreshVolatile,
+  type TemplateValues,
+} from "@/lib/request-template";
+import { cn } from "@/lib/utils";
+
+/**
+ * "template" is the curl with shell variables instead of filled-in values;
+ * "types" and "json-schema" are the endpoint's inferred body types.
+ */
+type CodeTab = CodegenTarget | "template" | "types" | "json-schema";
+
+const CODEGEN_TABS: Array<{ target: CodeTab; label: string }> = [
+  { target: "curl", label: "curl" },
+  { target: "template", label: "curl template" },
+  { target: "typescript-fetch", label: "fetch" },
+  { target: "typescript-axios", label: "axios" },
+  { target: "python-requests", label: "requests" },
+  { target: "python-httpx", label: "httpx" },
+  { target: "go-net-http", label: "Go" },
+  { target: "types", label: "TS types" },
+  { target: "json-schema", label: "JSON Schema" },
+];
+
+export type MatchMode = "single" | "workflow";
+
+const MATCH_MODES: Array<{ mode: MatchMode; label: string }> = [
+  { mode: "single", label: "Single request" },
+  { mode: "workflow", label: "Workflow" },
+];
 
 function getPathname(url: string): string {
   try {
@@ -21,43 +59,89 @@ function getPathname(url: string): string {
 export interface MatchAndCurlProps {
   apiDescription: string;
   setApiDescription: (value: string) => void;
+  /** Extra regexes the backend redacts before prompting, one per line. */
+  redactPatterns: string;
+  setRedactPatterns: (value: string) => void;
   entries: ParseEntry[];
   findResult: MatchResult | null;
+  matchMode: MatchMode;
+  onMatchModeChange: (mode: MatchMode) => void;
+  workflowResult: WorkflowResult | null;
   findLoading: boolean;
   findError: string | null;
   onFind: () => void;
+  /** Make the candidate at this position in findResult.candidates the best match. */
+  onPromoteCandidate: (position: number) => void;
   entriesCount: number;
 }
 
 export function MatchAndCurl({
   apiDescription,
   setApiDescription,
+  redactPatterns,
+  setRedactPatterns,
   entries,
   findResult,
+  matchMode,
+  onMatchModeChange,
+  workflowResult,
   findLoading,
   findError,
   onFind,
+  onPromoteCandidate,
   entriesCount,
 }: MatchAndCurlProps) {
   const [copied, setCopied] = useState(false);
+  const [codeTarget, setCodeTarget] = useState<CodeTab>("curl");
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
   const [executeLoading, setExecuteLoading] = useState(false);
   const [executeResult, setExecuteResult] = useState<ExecuteResult | null>(null);
   const [executeError, setExecuteError] = useState<string | null>(null);
 
-  const displayCurl = findResult?.curl
-    ? findResult.curl
-    : "";
+  const template = findResult?.template;
+  const hasVariables = !!template?.parameters.some((p) => p.name);
+
+  useEffect(() => {
+    setTemplateValues(template ? initialTemplateValues(template) : {});
+  }, [template]);
+
+  const codeTabs = CODEGEN_TABS.filter((t) =>
+    t.target === "curl"
+      ? true
+      : t.target === "template"
+        ? hasVariables
+        : t.target === "types" || t.target === "json-schema"
+          ? !!findResult?.schema
+          : findResult?.snippets?.[t.target] != null
+  );
+  let displayCode: string;
+  if (codeTarget === "curl") {
+    displayCode =
+      template && hasVariables
+        ? fillTemplateCurl(template, templateValues)
+        : findResult?.curl ?? "";
+  } else if (codeTarget === "template") {
+    displayCode = template?.curl ?? "";
+  } else if (codeTarget === "types") {
+    displayCode = findResult?.schema?.typescript ?? "";
+  } else if (codeTarget === "json-schema") {
+    displayCode = findResult?.schema
+      ? toJsonSchemaDocument(findResult.schema)
+      : "";
+  } else {
+    displayCode = findResult?.snippets?.[codeTarget] ?? "";
+  }
 
   const handleCopy = useCallback(async () => {
-    if (!displayCurl) return;
+    if (!displayCode) return;
     try {
-      await navigator.clipboard.writeText(displayCurl);
+      await navigator.clipboard.writeText(displayCode);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch {
       // ignore
     }
-  }, [displayCurl]);
+  }, [displayCode]);
 
   const matchedEntry =
     findResult?.matchedIndex != null &&
@@ -66,6 +150,10 @@ export function MatchAndCurl({
       ? entries[findResult.matchedIndex]
       : null;
 
+  const alternatives = (findResult?.candidates ?? []).slice(1);
+  const topScore = findResult?.candidates?.[0]?.score;
+  const redactions = findResult?.redactions ?? [];
+
   const canFind = entriesCount > 0 && apiDescription.trim().length > 0;
   const canExecute = !!matchedEntry;
 
@@ -80,8 +168,14 @@ export function MatchAndCurl({
     setExecuteError(null);
     setExecuteResult(null);
     try {
-      const result = await executeRequest(matchedEntry);
+      const result = await executeRequest(
+        template && hasVariables
+          ? fillTemplateEntry(template, templateValues, matchedEntry)
+          : matchedEntry,
+        matchedEntry
+      );
       setExecuteResult(result);
+      if (template) setTemplateValues((v) => refreshVolatile(template, v));
     } catch (err) {
       setExecuteError(
         err instanceof Error ? err.message : String(err)
@@ -89,32 +183,75 @@ export function MatchAndCurl({
     } finally {
       setExecuteLoading(false);
     }
-  }, [matchedEntry]);
+  }, [matchedEntry, template, hasVariables, templateValues]);
 
   return (
     <div className="flex h-full flex-col gap-4">
       <Card>
-        <CardHeader className="px-4 py-3">
+        <CardHeader className="flex-none flex-row items-center gap-2 space-y-0 px-4 py-3">
           <CardTitle className="text-base">Describe the API</CardTitle>
+          <div className="ml-auto flex gap-1">
+            {MATCH_MODES.map((m) => (
+              <button
+                key={m.mode}
+                type="button"
+                onClick={() => onMatchModeChange(m.mode)}
+                className={cn(
+                  "rounded px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-accent hover:text-foreground",
+                  matchMode === m.mode && "bg-accent text-foreground"
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
         </CardHeader>
         <CardContent className="px-4 pb-4 pt-0">
           <textarea
-            placeholder="Create a new subscription for a user with a monthly plan"
+            placeholder={
+              matchMode === "workflow"
+                ? "Log in, then create a project and invite a teammate"
+                : "Create a new subscription for a user with a monthly plan"
+            }
             value={apiDescription}
             onChange={(e) => setApiDescription(e.target.value)}
             rows={3}
             className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-y min-h-[80px]"
           />
           <p className="mt-1 text-xs text-muted-foreground">
-            Describe what the API does, not how it&apos;s implemented.
+            {matchMode === "workflow"
+              ? "Describe the steps in order; requests that supply tokens or IDs to them are added automatically."
+              : "Describe what the API does, not how it's implemented."}
           </p>
+          <details className="mt-2">
+            <summary className="cursor-pointer text-xs text-muted-foreground">
+              Also redact
+            </summary>
+            <textarea
+              placeholder={"acct-\\d{6}\ninternal\\.example\\.com"}
+              value={redactPatterns}
+              onChange={(e) => setRedactPatterns(e.target.value)}
+              rows={2}
+              spellCheck={false}
+              className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 resize-y"
+            />
+            <p className="text-xs text-muted-foreground">
+              One regular expression per line. Matches are replaced with
+              placeholders before anything is sent to the model, on top of
+              tokens, cookies, emails and card numbers.
+            </p>
+          </details>
           <Button
             type="button"
             onClick={onFind}
             disabled={!canFind || findLoading}
             className="mt-3"
           >
-            {findLoading ? "Finding…" : "Find matching request"}
+            {findLoading
+              ? "Finding…"
+              : matchMode === "workflow"
+                ? "Find workflow"
+                : "Find matching request"}
           </Button>
         </CardContent>
       </Card>
@@ -123,6 +260,8 @@ export function MatchAndCurl({
         <p className="text-sm text-destructive">{findError}</p>
       )}
 
+      {workflowResult && <WorkflowSteps result={workflowResult} />}
+
       {findResult && (
         <>
           <Card>
@@ -133,11 +272,33 @@ export function MatchAndCurl({
               {matchedEntry && (
                 <p className="font-mono text-sm">
                   {matchedEntry.method} {getPathname(matchedEntry.url)}
+                  {matchedEntry.graphql && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      ({matchedEntry.graphql.operationType ?? "operation"}{" "}
+                      {matchedEntry.graphql.operationName ?? "anonymous"})
+                    </span>
+                  )}
                 </p>
               )}
               {findResult.confidence && (
                 <p className="text-sm text-muted-foreground">
                   Confidence: {findResult.confidence}
+                  {topScore != null && ` · score ${topScore}`}
+                </p>
+              )}
+              {matchedEntry?.cookies && matchedEntry.cookies.length > 0 && (
+                <div>
+                  <p className="mb-1 text-xs font-semibold text-muted-foreground">
+                    Cookies (generated code sends only the needed ones):
+                  </p>
+                  <CookieList cookies={matchedEntry.cookies} />
+                </div>
+              )}
+              {findResult.matcher === "lexical" && (
+                <p className="text-xs text-muted-foreground">
+                  No LLM is configured on the backend; ranked by keyword
+                  overlap.
                 </p>
               )}
               {findResult.explanationBullets &&
@@ -156,13 +317,132 @@ export function MatchAndCurl({
             </CardContent>
           </Card>
 
+          {alternatives.length > 0 && (
+            <Card>
+              <CardHeader className="px-4 py-3">
+                <CardTitle className="text-base">Alternatives</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 px-4 pb-4">
+                {alternatives.map((c, i) => {
+                  const entry = entries[c.index];
+                  return (
+                    <div
+                      key={c.index}
+                      className="space-y-1 rounded border border-input p-2"
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="truncate font-mono text-sm">
+                          {entry
+                            ? `${entry.method} ${getPathname(entry.url)}`
+                            : `#${c.index}`}
+                        </span>
+                        <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                          score {c.score}
+                          {c.confidence && ` · ${c.confidence}`}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onPromoteCandidate(i + 1)}
+                        >
+                          Use this
+                        </Button>
+                      </div>
+                      {c.explanationBullets && c.explanationBullets.length > 0 && (
+                        <ul className="list-inside list-disc space-y-0.5 text-xs text-muted-foreground">
+                          {c.explanationBullets.map((b, j) => (
+                            <li key={j}>{b}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {redactions.length > 0 && (
+            <Card>
+              <CardHeader className="px-4 py-3">
+                <CardTitle className="text-base">Redacted before prompting</CardTitle>
+              </CardHeader>
+              <CardContent className="px-4 pb-4">
+                <details>
+                  <summary className="cursor-pointer text-sm text-muted-foreground">
+                    {redactions.length} value{redactions.length === 1 ? "" : "s"}{" "}
+                    replaced with placeholders; the curl uses the originals
+                  </summary>
+                  <table className="mt-2 w-full text-left text-xs">
+                    <thead className="text-muted-foreground">
+                      <tr>
+                        <th className="py-1 pr-2 font-medium">Placeholder</th>
+                        <th className="py-1 pr-2 font-medium">Kind</th>
+                        <th className="py-1 pr-2 font-medium">Found in</th>
+                        <th className="py-1 font-medium">Value</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {redactions.map((r) => (
+                        <tr key={r.placeholder} className="border-t border-input align-top">
+                          <td className="py-1 pr-2 font-mono">{r.placeholder}</td>
+                          <td className="py-1 pr-2">{r.kind}</td>
+                          <td className="py-1 pr-2 font-mono break-all">
+                            {r.locations.join(", ")}
+                            {r.occurrences > 1 && ` (×${r.occurrences})`}
+                          </td>
+                          <td className="py-1 font-mono">{r.preview}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              </CardContent>
+            </Card>
+          )}
+
+          {template && hasVariables && (
+            <Card>
+              <CardHeader className="px-4 py-3">
+                <CardTitle className="text-base">Request inputs</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 px-4 pb-4">
+                <p className="text-xs text-muted-foreground">
+                  The curl and Execute use these values; other languages keep
+                  the captured ones.
+                </p>
+                <TemplateForm
+                  template={template}
+                  values={templateValues}
+                  onChange={setTemplateValues}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
-            <CardHeader className="flex-none px-4 py-3">
-              <CardTitle className="text-base">Generated curl</CardTitle>
+            <CardHeader className="flex-none flex-row items-center gap-2 space-y-0 px-4 py-3">
+              <CardTitle className="text-base">Generated code</CardTitle>
+              <div className="ml-auto flex flex-wrap gap-1">
+                {codeTabs.map((tab) => (
+                  <button
+                    key={tab.target}
+                    type="button"
+                    onClick={() => setCodeTarget(tab.target)}
+                    className={cn(
+                      "rounded px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-accent hover:text-foreground",
+                      codeTarget === tab.target && "bg-accent text-foreground"
+                    )}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
             </CardHeader>
             <CardContent className="space-y-3 px-4 pb-4">
               <pre className="max-h-64 overflow-auto rounded border border-input bg-muted/50 p-3 text-left text-xs font-mono whitespace-pre-wrap break-all">
-                <code>{displayCurl || "(none)"}</code>
+                <code>{displayCode || "(none)"}</code>
               </pre>
               <div className="flex flex-wrap items-center gap-2">
                 <Button
@@ -170,7 +450,7 @@ export function MatchAndCurl({
                   variant="outline"
                   size="sm"
                   onClick={handleCopy}
-                  disabled={!displayCurl}
+                  disabled={!displayCode}
                 >
                   {copied ? "Copied!" : "Copy"}
                 </Button>
@@ -195,7 +475,23 @@ export function MatchAndCurl({
                 <div className="mt-3 space-y-2">
                   <p className="text-sm font-medium">
                     Response: {executeResult.status} {executeResult.statusText}
+                    {executeResult.time != null && (
+                      <span className="font-normal text-muted-foreground">
+                        {" "}
+                        · {executeResult.time} ms
+                        {executeResult.timings &&
+                          ` (wait ${executeResult.timings.wait} ms, receive ${executeResult.timings.receive} ms)`}
+                      </span>
+                    )}
                   </p>
+                  {executeResult.bodyTruncated && (
+                    <p className="text-xs text-muted-foreground">
+                      Body cut at the backend&apos;s size limit.
+                    </p>
+                  )}
+                  {executeResult.diff && (
+                    <ReplayDiff diff={executeResult.diff} />
+                  )}
                   <pre className="max-h-48 overflow-auto rounded border border-input bg-muted/50 p-3 text-left text-xs font-mono whitespace-pre-wrap break-all">
                     <code>
                       {executeResult.body || "(empty body)"}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import type { ParseEntry } from "@/lib/har-types";
+import { exportOpenApi, type OpenApiFormat } from "@/lib/export-openapi";
+import { downloadText } from "@/lib/utils";
+
+export interface OpenApiExportProps {
+  entries: ParseEntry[];
+  /** Entries picked in the request list; the whole capture is exported when empty. */
+  selectedIndices: number[];
+}
+
+/** "Export OpenAPI" for the whole capture or the checked requests, as YAML or JSON. */
+export function OpenApiExport({ entries, selectedIndices }: OpenApiExportProps) {
+  const [format, setFormat] = useState<OpenApiFormat>("yaml");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await exportOpenApi(
+        entries,
+        format,
+        selectedIndices.length > 0 ? selectedIndices : undefined
+      );
+      downloadText(
+        `openapi.${result.format === "json" ? "json" : "yaml"}`,
+        result.document,
+        result.format === "json" ? "application/json" : "application/yaml"
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [entries, format, selectedIndices]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={entries.length === 0 || loading}
+        className="rounded border border-input bg-background px-2 py-1 text-xs font-medium hover:bg-accent disabled:opacity-50"
+      >
+        {loading
+          ? "Exporting…"
+          : selectedIndices.length > 0
+            ? `Export OpenAPI (${selectedIndices.length} request${selectedIndices.length === 1 ? "" : "s"})`
+            : "Export OpenAPI"}
+      </button>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as OpenApiFormat)}
+        className="rounded border border-input bg-background px-1 py-1 text-xs"
+        aria-label="OpenAPI format"
+      >
+        <option value="yaml">YAML</option>
+        <option value="json">JSON</option>
+      </select>
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { cn } from "@/lib/utils";
+import type {
+  JsonChange,
+  ReplayVerdict,
+  ResponseDiff,
+} from "@/lib/execute-request";
+
+export interface ReplayDiffProps {
+  diff: ResponseDiff;
+}
+
+const VERDICT_LABELS: Record<ReplayVerdict, string> = {
+  equivalent: "equivalent",
+  "same-shape": "same shape, different data",
+  diverged: "diverged",
+};
+
+const VERDICT_CLASSES: Record<ReplayVerdict, string> = {
+  equivalent: "bg-primary/10 text-primary",
+  "same-shape": "bg-muted text-muted-foreground",
+  diverged: "bg-destructive/10 text-destructive",
+};
+
+function ChangeList({ title, changes }: { title: string; changes: JsonChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <div>
+      <p className="font-medium">{title}</p>
+      <ul className="space-y-0.5">
+        {changes.map((c) => (
+          <li key={`${c.kind} ${c.path}`} className="flex items-baseline gap-2">
+            <span className="shrink-0 text-muted-foreground">{c.kind}</span>
+            <span className="truncate font-mono" title={c.path}>
+              {c.path}
+            </span>
+            <span className="ml-auto truncate font-mono text-muted-foreground">
+              {c.recorded ?? "—"} → {c.replayed ?? "—"}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** How a replay compares with the captured response, from the backend's diff. */
+export function ReplayDiff({ diff }: ReplayDiffProps) {
+  return (
+    <div className="space-y-2 rounded border border-input p-3 text-xs">
+      <p className="flex items-baseline gap-2">
+        <span className="font-medium">Compared with the capture:</span>
+        <span
+          className={cn(
+            "rounded px-1 py-0.5 text-[10px] font-medium uppercase",
+            VERDICT_CLASSES[diff.verdict]
+          )}
+        >
+          {VERDICT_LABELS[diff.verdict]}
+        </span>
+      </p>
+      {diff.reasons.length > 0 && (
+        <ul className="list-disc pl-4 text-muted-foreground">
+          {diff.reasons.map((r) => (
+            <li key={r}>{r}</li>
+          ))}
+        </ul>
+      )}
+      {diff.headers.length > 0 && (
+        <div>
+          <p className="font-medium">Headers</p>
+          <ul className="space-y-0.5">
+            {diff.headers.map((h) => (
+              <li key={h.name} className="flex items-baseline gap-2">
+                <span className="font-mono">{h.name}</span>
+                <span className="ml-auto truncate font-mono text-muted-foreground">
+                  {h.recorded ?? "—"} → {h.replayed ?? "—"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <ChangeList title="Shape changes" changes={diff.shapeChanges} />
+      <ChangeList title="Value changes" changes={diff.valueChanges} />
+      {diff.omittedChanges > 0 && (
+        <p className="text-muted-foreground">
+          …and {diff.omittedChanges} more changes not listed.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,13 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CookieList } from "@/components/cookie-list";
+import { DependencyChain } from "@/components/dependency-chain";
+import { OpenApiExport } from "@/components/openapi-export";
+import { toJsonSchemaDocument } from "@/lib/endpoint-schema";
 import { cn } from "@/lib/utils";
-import type { ParseEntry } from "@/lib/har-types";
+import type { EndpointGroup, ParseEntry } from "@/lib/har-types";
 
 function getPathname(url: string): string {
   try {
@@ -21,15 +25,87 @@ function getOrigin(url: string): string {
   }
 }
 
+function getPathAndQuery(url: string): string {
+  try {
+    const u = new URL(url);
+    return u.pathname + u.search;
+  } catch {
+    return url;
+  }
+}
+
+function formatTemplate(group: EndpointGroup): string {
+  return group.queryKeys.length
+    ? `${group.pathTemplate}?${group.queryKeys.join("&")}`
+    : group.pathTemplate;
+}
+
+function getGraphqlDocument(entry: ParseEntry): string | null {
+  const text = entry.postData?.text;
+  if (!entry.graphql || !text) return null;
+  if (entry.postData?.mimeType?.includes("application/graphql")) return text;
+  try {
+    const body = JSON.parse(text) as { query?: unknown };
+    return typeof body.query === "string" ? body.query : null;
+  } catch {
+    return null;
+  }
+}
+
+/** One group per entry, for responses from backends that do not group. */
+function ungrouped(entries: ParseEntry[]): EndpointGroup[] {
+  return entries.map((e, i) => ({
+    key: String(i),
+    method: e.method,
+    origin: getOrigin(e.url),
+    pathTemplate: getPathname(e.url),
+    queryKeys: [],
+    entryIndices: [i],
+  }));
+}
+
+function formatBody(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatTimings(entry: ParseEntry): string | null {
+  const parts: string[] = [];
+  if (entry.time != null) parts.push(`total ${Math.round(entry.time)} ms`);
+  if (entry.timings) {
+    for (const [phase, ms] of Object.entries(entry.timings)) {
+      if (typeof ms === "number" && ms >= 0) {
+        parts.push(`${phase} ${Math.round(ms)} ms`);
+      }
+    }
+  }
+  return parts.length ? parts.join(" · ") : null;
+}
+
 function getBadges(entry: ParseEntry): string[] {
   const badges: string[] = [];
   const url = entry.url.toLowerCase();
   const contentType =
     entry.headers?.find((h) => h.name.toLowerCase() === "content-type")
       ?.value ?? "";
-  if (url.includes("graphql") || contentType.includes("application/graphql")) {
+  if (
+    entry.graphql ||
+    url.includes("graphql") ||
+    contentType.includes("application/graphql")
+  ) {
     badges.push("GraphQL");
   }
+  if (entry.graphql?.operationType) badges.push(entry.graphql.operationType);
+  if (entry.graphql?.persistedQueryHash) badges.push("persisted");
   const xRequestedWith = entry.headers?.find(
     (h) => h.name.toLowerCase() === "x-requested-with"
   )?.value;
@@ -49,103 +125,284 @@ function statusClass(status: number): string {
 
 export interface RequestInspectorProps {
   entries: ParseEntry[];
+  groups: EndpointGroup[];
   selectedIndex: number | null;
   onSelectIndex: (index: number | null) => void;
   matchedIndex: number | null;
+  /** Every ranked match candidate, including matchedIndex. */
+  candidateIndices: number[];
 }
 
 export function RequestInspector({
   entries,
+  groups,
   selectedIndex,
   onSelectIndex,
   matchedIndex,
+  candidateIndices,
 }: RequestInspectorProps) {
   const [filter, setFilter] = useState("");
+  /** Uploaded file to show requests from; empty for all of them. */
+  const [sourceFile, setSourceFile] = useState("");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  /** Endpoint groups checked for export. */
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setChecked(new Set());
+    setSourceFile("");
+  }, [entries]);
+  const [detailsTab, setDetailsTab] = useState<
+    "request" | "response" | "types"
+  >("request");
+
+  const allGroups = useMemo(
+    () => (groups.length > 0 ? groups : ungrouped(entries)),
+    [groups, entries]
+  );
+
+  const sourceFiles = useMemo(
+    () => [
+      ...new Set(
+        entries.flatMap((e) => (e.sourceFile ? [e.sourceFile] : []))
+      ),
+    ],
+    [entries]
+  );
+
+  /** Groups narrowed to the samples from the chosen source file. */
+  const fileGroups = useMemo(() => {
+    if (!sourceFile) return allGroups;
+    return allGroups
+      .map((g) => ({
+        ...g,
+        entryIndices: g.entryIndices.filter(
+          (i) => entries[i]?.sourceFile === sourceFile
+        ),
+      }))
+      .filter((g) => g.entryIndices.length > 0);
+  }, [allGroups, entries, sourceFile]);
 
   const filtered = useMemo(() => {
-    if (!filter.trim()) return entries;
+    if (!filter.trim()) return fileGroups;
     const q = filter.trim().toLowerCase();
-    return entries.filter((e, i) => {
-      const path = getPathname(e.url);
-      const origin = getOrigin(e.url);
-      const line = `${e.method} ${path} ${e.status} ${origin}`.toLowerCase();
-      return line.includes(q);
+    return fileGroups.filter((g) => {
+      const template = `${g.method} ${formatTemplate(g)} ${g.origin} ${g.operation ?? ""}`;
+      if (template.toLowerCase().includes(q)) return true;
+      return g.entryIndices.some((i) => {
+        const e = entries[i];
+        if (!e) return false;
+        const path = getPathAndQuery(e.url);
+        const line = `${e.method} ${path} ${e.status}`.toLowerCase();
+        return line.includes(q);
+      });
+    });
+  }, [fileGroups, entries, filter]);
+
+  const checkedIndices = useMemo(
+    () =>
+      fileGroups
+        .filter((g) => checked.has(g.key))
+        .flatMap((g) => g.entryIndices)
+        .sort((a, b) => a - b),
+    [fileGroups, checked]
+  );
+
+  const toggleChecked = (key: string) => {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
     });
-  }, [entries, filter]);
+  };
 
   const selectedEntry =
     selectedIndex != null && selectedIndex >= 0 && selectedIndex < entries.length
       ? entries[selectedIndex]
       : null;
+  const graphqlDocument = selectedEntry ? getGraphqlDocument(selectedEntry) : null;
+  const selectedSchema =
+    selectedIndex != null
+      ? allGroups.find((g) => g.entryIndices.includes(selectedIndex))?.schema
+      : undefined;
 
   return (
     <div className="flex h-full flex-col gap-3">
       <Card className="flex min-h-0 flex-1 flex-col">
         <CardHeader className="flex-none px-4 py-3">
-          <CardTitle className="text-base">Requests</CardTitle>
-          <input
-            type="text"
-            placeholder="search / filter"
-            value={filter}
-            onChange={(e) => setFilter(e.target.value)}
-            className="mt-2 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-          />
+          <div className="flex flex-wrap items-center gap-2">
+            <CardTitle className="text-base">Requests</CardTitle>
+            <div className="ml-auto">
+              <OpenApiExport
+                entries={entries}
+                selectedIndices={checkedIndices}
+              />
+            </div>
+          </div>
+          <div className="mt-2 flex gap-2">
+            <input
+              type="text"
+              placeholder="search / filter"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            />
+            {sourceFiles.length > 1 && (
+              <select
+                value={sourceFile}
+                onChange={(e) => setSourceFile(e.target.value)}
+                className="max-w-[40%] shrink-0 rounded-md border border-input bg-background px-2 py-2 text-sm"
+                aria-label="Source file"
+              >
+                <option value="">All files</option>
+                {sourceFiles.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
         </CardHeader>
         <CardContent className="min-h-0 flex-1 overflow-y-auto p-0">
           {filtered.length === 0 ? (
             <p className="p-4 text-sm text-muted-foreground">
               {entries.length === 0
-                ? "Upload a .har file to see requests"
+                ? "Upload a capture file to see requests"
                 : "No requests match the filter"}
             </p>
           ) : (
           <ul className="divide-y divide-border">
-            {filtered.map((entry) => {
-              const globalIndex = entries.indexOf(entry);
-              const path = getPathname(entry.url);
+            {filtered.map((group) => {
+              const representativeIndex = group.entryIndices[0]!;
+              const entry = entries[representativeIndex];
+              if (!entry) return null;
               const badges = getBadges(entry);
-              const isSelected = selectedIndex === globalIndex;
-              const isMatch = matchedIndex === globalIndex;
+              const sampleCount = group.entryIndices.length;
+              const isExpanded = expanded.has(group.key);
+              const isSelected =
+                selectedIndex != null &&
+                (isExpanded
+                  ? selectedIndex === representativeIndex
+                  : group.entryIndices.includes(selectedIndex));
+              const isMatch =
+                matchedIndex != null && group.entryIndices.includes(matchedIndex);
+              const isCandidate =
+                !isMatch &&
+                group.entryIndices.some((i) => candidateIndices.includes(i));
               return (
-                <li key={globalIndex}>
-                  <button
-                    type="button"
-                    onClick={() =>
-                      onSelectIndex(isSelected ? null : globalIndex)
-                    }
-                    className={cn(
-                      "w-full px-4 py-2 text-left text-sm transition-colors hover:bg-accent",
-                      isSelected && "bg-accent",
-                      isMatch && "ring-1 ring-primary"
-                    )}
-                  >
-                    <div className="flex items-center gap-2">
-                      <span className="font-mono font-medium">
-                        {entry.method.padEnd(6)}
-                      </span>
-                      <span className="truncate font-mono text-muted-foreground">
-                        {path}
-                      </span>
-                      <span
-                        className={cn(
-                          "ml-auto shrink-0 font-mono text-xs",
-                          statusClass(entry.status)
+                <li key={group.key}>
+                  <div className="flex items-start">
+                    <input
+                      type="checkbox"
+                      checked={checked.has(group.key)}
+                      onChange={() => toggleChecked(group.key)}
+                      className="ml-4 mt-3 shrink-0"
+                      aria-label={`Include ${group.method} ${formatTemplate(group)} in export`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onSelectIndex(isSelected ? null : representativeIndex)
+                      }
+                      className={cn(
+                        "min-w-0 flex-1 px-3 py-2 text-left text-sm transition-colors hover:bg-accent",
+                        isSelected && "bg-accent",
+                        isMatch && "ring-1 ring-primary",
+                        isCandidate && "ring-1 ring-muted-foreground/50"
+                      )}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-medium">
+                          {group.method.padEnd(6)}
+                        </span>
+                        <span className="truncate font-mono text-muted-foreground">
+                          {formatTemplate(group)}
+                        </span>
+                        {entry.graphql?.operationName && (
+                          <span className="truncate font-mono font-medium">
+                            {entry.graphql.operationName}
+                          </span>
                         )}
-                      >
-                        {entry.status}
-                      </span>
-                    </div>
-                    <div className="mt-1 flex flex-wrap gap-1">
-                      {badges.map((b) => (
                         <span
-                          key={b}
-                          className="rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground"
+                          className={cn(
+                            "ml-auto shrink-0 font-mono text-xs",
+                            statusClass(entry.status)
+                          )}
                         >
-                          {b}
+                          {entry.status}
                         </span>
-                      ))}
-                    </div>
-                  </button>
+                      </div>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {badges.map((b) => (
+                          <span
+                            key={b}
+                            className="rounded bg-muted px-1.5 py-0.5 text-xs text-muted-foreground"
+                          >
+                            {b}
+                          </span>
+                        ))}
+                      </div>
+                    </button>
+                  </div>
+                  {sampleCount > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => toggleExpanded(group.key)}
+                      className="mx-4 mb-2 rounded px-1.5 py-0.5 text-xs text-muted-foreground hover:bg-accent hover:text-foreground"
+                    >
+                      {isExpanded ? "▾" : "▸"} {sampleCount} samples
+                    </button>
+                  )}
+                  {isExpanded && (
+                    <ul className="mb-2 border-l border-border pl-2 ml-6">
+                      {group.entryIndices.map((i) => {
+                        const sample = entries[i];
+                        if (!sample) return null;
+                        const sampleSelected = selectedIndex === i;
+                        return (
+                          <li key={i}>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                onSelectIndex(sampleSelected ? null : i)
+                              }
+                              className={cn(
+                                "flex w-full items-center gap-2 px-2 py-1 text-left text-xs transition-colors hover:bg-accent",
+                                sampleSelected && "bg-accent",
+                                matchedIndex === i && "ring-1 ring-primary",
+                                matchedIndex !== i &&
+                                  candidateIndices.includes(i) &&
+                                  "ring-1 ring-muted-foreground/50"
+                              )}
+                            >
+                              <span className="truncate font-mono text-muted-foreground">
+                                {getPathAndQuery(sample.url)}
+                              </span>
+                              <span
+                                className={cn(
+                                  "ml-auto shrink-0 font-mono",
+                                  statusClass(sample.status)
+                                )}
+                              >
+                                {sample.status}
+                              </span>
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
                 </li>
               );
             })}
@@ -156,54 +413,216 @@ export function RequestInspector({
 
       {selectedEntry && (
         <Card className="flex min-h-0 flex-1 flex-col">
-          <CardHeader className="flex-none px-4 py-3">
+          <CardHeader className="flex-none flex-row items-center gap-2 space-y-0 px-4 py-3">
             <CardTitle className="text-base">Request Details</CardTitle>
+            {selectedEntry.sourceFile && (
+              <span className="truncate text-xs text-muted-foreground">
+                {selectedEntry.sourceFile}
+              </span>
+            )}
+            <div className="ml-auto flex gap-1">
+              {(["request", "response", "types"] as const).map((tab) => (
+                <button
+                  key={tab}
+                  type="button"
+                  onClick={() => setDetailsTab(tab)}
+                  className={cn(
+                    "rounded px-2 py-1 text-xs font-medium capitalize text-muted-foreground hover:bg-accent hover:text-foreground",
+                    detailsTab === tab && "bg-accent text-foreground"
+                  )}
+                >
+                  {tab}
+                </button>
+              ))}
+            </div>
           </CardHeader>
           <CardContent className="min-h-0 flex-1 overflow-y-auto space-y-4 px-4 pb-4">
-            <section>
-              <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
-                Headers
-              </h4>
-              <pre className="max-h-32 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
-                {selectedEntry.headers?.length
-                  ? selectedEntry.headers
-                      .map((h) => `${h.name}: ${h.value}`)
-                      .join("\n")
-                  : "(none)"}
-              </pre>
-            </section>
-            {selectedEntry.queryString && selectedEntry.queryString.length > 0 && (
-              <section>
-                <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
-                  Query
-                </h4>
-                <pre className="max-h-24 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
-                  {selectedEntry.queryString
-                    .map((q) => `${q.name}=${q.value}`)
-                    .join("\n")}
-                </pre>
-              </section>
+            {detailsTab === "request" && (
+              <>
+                <section>
+                  <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                    Headers
+                  </h4>
+                  <pre className="max-h-32 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                    {selectedEntry.headers?.length
+                      ? selectedEntry.headers
+                          .map((h) => `${h.name}: ${h.value}`)
+                          .join("\n")
+                      : "(none)"}
+                  </pre>
+                </section>
+                {selectedIndex != null &&
+                  selectedEntry.dependencies &&
+                  selectedEntry.dependencies.length > 0 && (
+                    <section>
+                      <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                        Depends on
+                      </h4>
+                      <DependencyChain
+                        entries={entries}
+                        index={selectedIndex}
+                        onSelectIndex={onSelectIndex}
+                      />
+                    </section>
+                  )}
+                {selectedEntry.cookies && selectedEntry.cookies.length > 0 && (
+                  <section>
+                    <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Cookies
+                    </h4>
+                    <CookieList cookies={selectedEntry.cookies} />
+                  </section>
+                )}
+                {selectedEntry.queryString && selectedEntry.queryString.length > 0 && (
+                  <section>
+                    <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      Query
+                    </h4>
+                    <pre className="max-h-24 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                      {selectedEntry.queryString
+                        .map((q) => `${q.name}=${q.value}`)
+                        .join("\n")}
+                    </pre>
+                  </section>
+                )}
+                {selectedEntry.graphql && (
+                  <section>
+                    <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      GraphQL
+                    </h4>
+                    <p className="mb-1 font-mono text-xs">
+                      {selectedEntry.graphql.operationType ?? "operation"}{" "}
+                      {selectedEntry.graphql.operationName ?? "(anonymous)"}
+                      {selectedEntry.graphql.persistedQueryHash && (
+                        <span className="text-muted-foreground">
+                          {" "}
+                          · sha256 {selectedEntry.graphql.persistedQueryHash}
+                        </span>
+                      )}
+                    </p>
+                    {graphqlDocument && (
+                      <pre className="max-h-48 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                        {graphqlDocument}
+                      </pre>
+                    )}
+                  </section>
+                )}
+                <section>
+                  <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                    Body
+                  </h4>
+                  <pre className="max-h-48 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                    {selectedEntry.postData?.text
+                      ? formatBody(selectedEntry.postData.text)
+                      : "{}"}
+                  </pre>
+                </section>
+              </>
             )}
-            <section>
-              <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
-                Body
-              </h4>
-              <pre className="max-h-48 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
-                {selectedEntry.postData?.text
-                  ? (() => {
-                      try {
-                        return JSON.stringify(
-                          JSON.parse(selectedEntry.postData!.text!),
-                          null,
-                          2
-                        );
-                      } catch {
-                        return selectedEntry.postData.text;
-                      }
-                    })()
-                  : "{}"}
-              </pre>
-            </section>
+            {detailsTab === "response" && (
+              <>
+                <section>
+                  <p className="font-mono text-sm">
+                    <span className={statusClass(selectedEntry.status)}>
+                      {selectedEntry.status}
+                    </span>{" "}
+                    {selectedEntry.response?.statusText}
+                  </p>
+                  {formatTimings(selectedEntry) && (
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {formatTimings(selectedEntry)}
+                    </p>
+                  )}
+                </section>
+                <section>
+                  <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                    Headers
+                  </h4>
+                  <pre className="max-h-32 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                    {selectedEntry.response?.headers.length
+                      ? selectedEntry.response.headers
+                          .map((h) => `${h.name}: ${h.value}`)
+                          .join("\n")
+                      : "(none)"}
+                  </pre>
+                </section>
+                {selectedEntry.response?.cookies &&
+                  selectedEntry.response.cookies.length > 0 && (
+                    <section>
+                      <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                        Sets cookies
+                      </h4>
+                      <pre className="max-h-24 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                        {selectedEntry.response.cookies
+                          .map((c) =>
+                            [
+                              `${c.name}=${c.value}`,
+                              c.domain && `Domain=${c.domain}`,
+                              c.path && `Path=${c.path}`,
+                              c.expires && `Expires=${c.expires}`,
+                              c.httpOnly && "HttpOnly",
+                              c.secure && "Secure",
+                            ]
+                              .filter(Boolean)
+                              .join("; ")
+                          )
+                          .join("\n")}
+                      </pre>
+                    </section>
+                  )}
+                <section>
+                  <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                    Body
+                    {selectedEntry.response?.bodySize != null && (
+                      <span className="ml-2 font-normal normal-case">
+                        {formatBytes(selectedEntry.response.bodySize)}
+                        {selectedEntry.response.bodyTruncated && " (truncated)"}
+                      </span>
+                    )}
+                  </h4>
+                  <pre className="max-h-96 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                    {selectedEntry.response?.body
+                      ? selectedEntry.response.bodyTruncated
+                        ? selectedEntry.response.body
+                        : formatBody(selectedEntry.response.body)
+                      : selectedEntry.response?.bodySize
+                        ? "(binary body not shown)"
+                        : "(empty body)"}
+                  </pre>
+                </section>
+              </>
+            )}
+            {detailsTab === "types" &&
+              (selectedSchema ? (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Merged from {selectedSchema.samples.request} request and{" "}
+                    {selectedSchema.samples.response} response JSON bodies of
+                    this endpoint.
+                  </p>
+                  <section>
+                    <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      TypeScript
+                    </h4>
+                    <pre className="max-h-96 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                      {selectedSchema.typescript}
+                    </pre>
+                  </section>
+                  <section>
+                    <h4 className="mb-1 text-xs font-semibold uppercase text-muted-foreground">
+                      JSON Schema
+                    </h4>
+                    <pre className="max-h-96 overflow-auto rounded border border-input bg-muted/30 p-2 text-xs font-mono">
+                      {toJsonSchemaDocument(selectedSchema)}
+                    </pre>
+                  </section>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No JSON request or response bodies captured for this
+                  endpoint.
+                </p>
+              ))}
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,89 @@
+"use client";
+
+import type { RequestTemplate, TemplateParameter } from "@/lib/har-types";
+import type { TemplateValues } from "@/lib/request-template";
+
+const inputClassName =
+  "w-full rounded-md border border-input bg-background px-2 py-1 font-mono text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+export interface TemplateFormProps {
+  template: RequestTemplate;
+  values: TemplateValues;
+  onChange: (values: TemplateValues) => void;
+}
+
+function ParameterField({
+  parameter,
+  value,
+  onChange,
+}: {
+  parameter: TemplateParameter;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="block space-y-0.5">
+      <span className="flex items-baseline gap-2 text-xs">
+        <span className="font-mono font-medium">{parameter.name}</span>
+        <span className="text-muted-foreground">
+          {parameter.type} · {parameter.location}
+        </span>
+      </span>
+      <input
+        type={parameter.type === "number" ? "number" : "text"}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClassName}
+      />
+    </label>
+  );
+}
+
+/** Fields for a template's inputs and credentials; volatile values are listed, not edited. */
+export function TemplateForm({ template, values, onChange }: TemplateFormProps) {
+  const named = template.parameters.filter((p) => p.name);
+  const inputs = named.filter((p) => p.kind === "input");
+  const credentials = named.filter((p) => p.kind === "credential");
+  const volatile = named.filter((p) => p.kind === "volatile");
+
+  const field = (p: TemplateParameter) => (
+    <ParameterField
+      key={p.name}
+      parameter={p}
+      value={values[p.name!] ?? ""}
+      onChange={(v) => onChange({ ...values, [p.name!]: v })}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      {inputs.length > 0 ? (
+        <div className="space-y-2">{inputs.map(field)}</div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No user inputs detected; every value looks constant.
+        </p>
+      )}
+      {credentials.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-xs text-muted-foreground">
+            Session credentials ({credentials.length}), prefilled from the
+            capture
+          </summary>
+          <div className="mt-2 space-y-2">{credentials.map(field)}</div>
+        </details>
+      )}
+      {volatile.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Regenerated on each run:{" "}
+          {volatile.map((p, i) => (
+            <span key={p.name}>
+              {i > 0 && ", "}
+              <span className="font-mono">{p.name}</span> ({p.generator})
+            </span>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { WorkflowResult } from "@/lib/har-types";
+import { downloadText } from "@/lib/utils";
+
+function getPathname(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+export interface WorkflowStepsProps {
+  result: WorkflowResult;
+}
+
+/** Ordered workflow steps, the values passed between them, and script downloads. */
+export function WorkflowSteps({ result }: WorkflowStepsProps) {
+  const { steps, variables, scripts } = result;
+
+  return (
+    <Card>
+      <CardHeader className="flex-none flex-row items-center gap-2 space-y-0 px-4 py-3">
+        <CardTitle className="text-base">Workflow</CardTitle>
+        {steps.length > 0 && (
+          <div className="ml-auto flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => downloadText("workflow.sh", scripts.shell)}
+            >
+              Download .sh
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => downloadText("workflow.ts", scripts.typescript)}
+            >
+              Download .ts
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3 px-4 pb-4">
+        {result.matcher === "lexical" && (
+          <p className="text-xs text-muted-foreground">
+            No LLM is configured on the backend; one step was picked per
+            clause of the description by keyword overlap.
+          </p>
+        )}
+        {steps.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {result.explanationBullets?.[0] ?? "No matching requests found."}
+          </p>
+        )}
+        <ol className="space-y-3">
+          {steps.map((step, i) => (
+            <li key={step.index} className="space-y-1 rounded border border-input p-2">
+              <p className="font-mono text-sm">
+                {i + 1}. {step.method} {getPathname(step.url)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {step.purpose ?? "Provides values a later step sends"}
+              </p>
+              {step.uses.length > 0 && (
+                <p className="text-xs">
+                  Uses:{" "}
+                  {step.uses.map((u, j) => (
+                    <span key={j}>
+                      {j > 0 && ", "}
+                      <span className="font-mono">{u.variable}</span> in{" "}
+                      <span className="font-mono">{u.location}</span>
+                    </span>
+                  ))}
+                </p>
+              )}
+              <pre className="max-h-40 overflow-auto rounded border border-input bg-muted/50 p-2 text-left text-xs font-mono whitespace-pre-wrap break-all">
+                <code>{step.curl}</code>
+              </pre>
+            </li>
+          ))}
+        </ol>
+        {variables.length > 0 && (
+          <div>
+            <p className="mb-1 text-xs font-semibold text-muted-foreground">
+              Variables passed between steps:
+            </p>
+            <table className="w-full text-left text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="py-1 pr-2 font-medium">Name</th>
+                  <th className="py-1 pr-2 font-medium">From</th>
+                  <th className="py-1 font-medium">Captured value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {variables.map((v) => (
+                  <tr key={v.name} className="border-t border-input align-top">
+                    <td className="py-1 pr-2 font-mono">{v.name}</td>
+                    <td className="py-1 pr-2 font-mono break-all">
+                      step {v.fromStep + 1} {v.sourcePath}
+                    </td>
+                    <td className="py-1 font-mono break-all">{v.example}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+import type { CaptureFormat } from "@/lib/har-types";
+
+/** File extensions the upload accepts; the backend tells the formats apart by content. */
+export const CAPTURE_FILE_EXTENSIONS = [
+  ".har",
+  ".chlsj",
+  ".xml",
+  ".json",
+  ".flow",
+  ".mitm",
+  ".txt",
+  ".sh",
+];
+
+/** Compressed uploads; `.gz` and `.br` wrap one capture, `.zip` may hold several HAR files. */
+export const COMPRESSED_FILE_EXTENSIONS = [".gz", ".br", ".zip"];
+
+/** `accept` attribute for capture file inputs. */
+export const CAPTURE_FILE_ACCEPT = [
+  ...CAPTURE_FILE_EXTENSIONS,
+  ...COMPRESSED_FILE_EXTENSIONS,
+].join(",");
+
+export const CAPTURE_FORMAT_LABELS: Record<CaptureFormat, string> = {
+  har: "HAR",
+  charles: "Charles",
+  burp: "Burp Suite",
+  mitmproxy: "mitmproxy",
+  postman: "Postman",
+  curl: "curl",
+};
+
+/** `mitmdump -w flows` writes a file without an extension, so those are accepted too. */
+export function isCaptureFileName(name: string): boolean {
+  let lower = name.toLowerCase();
+  if (lower.endsWith(".zip")) return true;
+  if (lower.endsWith(".gz") || lower.endsWith(".br")) {
+    lower = lower.slice(0, lower.lastIndexOf("."));
+  }
+  const dot = lower.lastIndexOf(".");
+  return dot <= 0 || CAPTURE_FILE_EXTENSIONS.includes(lower.slice(dot));
+}
@@ -0,0 +1,66 @@
+import type { ParseEntry } from "./har-types";
+
+/** See backend capture-diff.util.ts. */
+export interface CapturedEndpoint {
+  /** Origin and templated path, plus the GraphQL operation. */
+  endpoint: string;
+  methods: string[];
+  entryIndices: number[];
+}
+
+export interface NameChanges {
+  added: string[];
+  removed: string[];
+}
+
+export interface SchemaChange {
+  path: string;
+  kind: "added" | "removed" | "type" | "required" | "optional";
+  before?: string;
+  after?: string;
+}
+
+export interface EndpointChange {
+  endpoint: string;
+  /** Set when the endpoint is called with different methods. */
+  methods?: { before: string[]; after: string[] };
+  queryParams: NameChanges;
+  headers: NameChanges;
+  requestBody: SchemaChange[];
+  responseBody: SchemaChange[];
+  /** Entry indices in each capture. */
+  before: number[];
+  after: number[];
+}
+
+export interface CaptureDiff {
+  added: CapturedEndpoint[];
+  removed: CapturedEndpoint[];
+  changed: EndpointChange[];
+  unchanged: number;
+}
+
+/**
+ * Compare two parsed captures by endpoint on the backend. Throws with the
+ * backend's message on failure.
+ */
+export async function diffCaptures(
+  before: ParseEntry[],
+  after: ParseEntry[]
+): Promise<CaptureDiff> {
+  const res = await fetch("/api/diff-captures", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ before, after }),
+  });
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    throw new Error(data.error ?? "Diff failed");
+  }
+  return {
+    added: data.added ?? [],
+    removed: data.removed ?? [],
+    changed: data.changed ?? [],
+    unchanged: data.unchanged ?? 0,
+  };
+}
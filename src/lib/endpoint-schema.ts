@@ -0,0 +1,16 @@
+import type { EndpointSchema } from "./har-types";
+
+/** One JSON Schema document with the request and response bodies under `$defs`. */
+export function toJsonSchemaDocument(schema: EndpointSchema): string {
+  const defs: Record<string, unknown> = {};
+  if (schema.request) defs[`${schema.typeName}Request`] = schema.request;
+  if (schema.response) defs[`${schema.typeName}Response`] = schema.response;
+  return JSON.stringify(
+    {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $defs: defs,
+    },
+    null,
+    2
+  );
+}
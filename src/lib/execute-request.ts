@@ -1,47 +1,88 @@
-import type { ParseEntry } from "./har-types";
+import type { HarTimings, ParseEntry } from "./har-types";
+
+/** See backend response-diff.util.ts. */
+export type ReplayVerdict = "equivalent" | "same-shape" | "diverged";
+
+export interface JsonChange {
+  path: string;
+  kind: "value" | "type" | "added" | "removed";
+  recorded?: string;
+  replayed?: string;
+}
+
+export interface HeaderChange {
+  name: string;
+  recorded?: string;
+  replayed?: string;
+}
+
+/** How the replay compares with the captured response. */
+export interface ResponseDiff {
+  verdict: ReplayVerdict;
+  reasons: string[];
+  status: { recorded: number; replayed: number };
+  headers: HeaderChange[];
+  bodyKind: "json" | "text" | "shape" | "none";
+  shapeChanges: JsonChange[];
+  valueChanges: JsonChange[];
+  omittedChanges: number;
+}
 
 export interface ExecuteResult {
   status: number;
   statusText: string;
   headers: Record<string, string>;
   body: string;
+  bodySize?: number;
+  /** True when the body was cut at the backend's response size cap. */
+  bodyTruncated?: boolean;
+  /** Total elapsed time in ms. */
+  time?: number;
+  timings?: HarTimings;
+  /** Present when a recorded response was sent along. */
+  diff?: ResponseDiff;
 }
 
+/**
+ * Replay an entry through the backend's execute proxy, which sends it from
+ * the server: no CORS, and headers browsers refuse to set (Cookie, Origin,
+ * Referer) go out as captured. Cookies are narrowed to the needed ones there.
+ * Throws with the backend's message when the target host is not allowed.
+ * When `recorded` is given, the backend diffs the replay against it.
+ */
 export async function executeRequest(
-  entry: ParseEntry
+  entry: ParseEntry,
+  recorded?: Pick<ParseEntry, "status" | "response">
 ): Promise<ExecuteResult> {
-  const headers = new Headers();
-  for (const h of entry.headers ?? []) {
-    headers.set(h.name, h.value);
-  }
-
-  const init: RequestInit = {
-    method: entry.method,
-    headers,
-  };
-
-  if (
-    entry.postData?.text &&
-    ["POST", "PUT", "PATCH"].includes(entry.method)
-  ) {
-    init.body = entry.postData.text;
-    if (entry.postData.mimeType && !headers.has("Content-Type")) {
-      headers.set("Content-Type", entry.postData.mimeType);
-    }
-  }
-
-  const response = await fetch(entry.url, init);
-  const bodyText = await response.text();
-
-  const headerRecord: Record<string, string> = {};
-  response.headers.forEach((value, key) => {
-    headerRecord[key] = value;
+  const res = await fetch("/api/execute-request", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      entry: {
+        method: entry.method,
+        url: entry.url,
+        headers: entry.headers,
+        postData: entry.postData,
+        cookies: entry.cookies,
+      },
+      recorded: recorded
+        ? { status: recorded.status, response: recorded.response }
+        : undefined,
+    }),
   });
-
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    throw new Error(data.error ?? "Execute failed");
+  }
   return {
-    status: response.status,
-    statusText: response.statusText,
-    headers: headerRecord,
-    body: bodyText,
+    status: data.status,
+    statusText: data.statusText,
+    headers: data.headers ?? {},
+    body: data.body ?? "",
+    bodySize: data.bodySize,
+    bodyTruncated: data.bodyTruncated,
+    time: data.time,
+    timings: data.timings,
+    diff: data.diff,
   };
 }
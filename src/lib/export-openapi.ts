@@ -0,0 +1,35 @@
+import type { ParseEntry } from "./har-types";
+
+export type OpenApiFormat = "yaml" | "json";
+
+export interface OpenApiExport {
+  format: OpenApiFormat;
+  document: string;
+  /** How many operations (method + path) the document describes. */
+  operations: number;
+}
+
+/**
+ * Build an OpenAPI 3.1 document on the backend from the parsed entries, or
+ * only the ones at `indices`. Throws with the backend's message on failure.
+ */
+export async function exportOpenApi(
+  entries: ParseEntry[],
+  format: OpenApiFormat,
+  indices?: number[]
+): Promise<OpenApiExport> {
+  const res = await fetch("/api/export-openapi", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ entries, format, indices }),
+  });
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    throw new Error(data.error ?? "Export failed");
+  }
+  return {
+    format: data.format,
+    document: data.document ?? "",
+    operations: data.operations ?? 0,
+  };
+}
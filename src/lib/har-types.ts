@@ -14,18 +14,209 @@ export interface HarPostData {
   params?: Array<{ name: string; value: string }>;
 }
 
+export interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  ssl?: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarCookie {
+  name: string;
+  value: string;
+  path?: string;
+  domain?: string;
+  expires?: string | null;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: string;
+}
+
+export interface RequestCookie {
+  name: string;
+  value: string;
+  /** "jar": set by an earlier response but missing from the captured request. */
+  source: "request" | "jar";
+  needed: boolean;
+  reason: string;
+}
+
+export interface ResponseSummary {
+  statusText?: string;
+  headers: HarHeader[];
+  mimeType?: string;
+  body?: string;
+  bodySize?: number;
+  bodyTruncated?: boolean;
+  cookies?: HarCookie[];
+}
+
+export type GraphqlOperationType = "query" | "mutation" | "subscription";
+
+export interface GraphqlOperationInfo {
+  operationName?: string;
+  operationType?: GraphqlOperationType;
+  persistedQueryHash?: string;
+}
+
+/** A request value first seen in the response of an earlier entry. */
+export interface ValueDependency {
+  /** e.g. "header:Authorization", "cookie:sid", "path[2]", "query:id", "body:$.user.id". */
+  location: string;
+  value: string;
+  sourceIndex: number;
+  /** JSONPath into the source response body, "header:Name", "set-cookie:name" or "body". */
+  sourcePath: string;
+  match: "exact" | "contains";
+}
+
 export interface ParseEntry {
   method: string;
   url: string;
   headers: HarHeader[];
   queryString?: HarQueryString[];
   postData?: HarPostData;
+  graphql?: GraphqlOperationInfo;
+  cookies?: RequestCookie[];
   status: number;
+  response?: ResponseSummary;
+  startedDateTime?: string;
+  time?: number;
+  timings?: HarTimings;
+  dependencies?: ValueDependency[];
+  /** The uploaded file the entry came from, when several were merged into one session. */
+  sourceFile?: string;
+}
+
+export interface EndpointGroup {
+  key: string;
+  method: string;
+  origin: string;
+  pathTemplate: string;
+  queryKeys: string[];
+  operation?: string;
+  entryIndices: number[];
+  schema?: EndpointSchema;
+}
+
+/** Subset of JSON Schema produced by the backend's inference. */
+export interface JsonSchema {
+  type?: "null" | "boolean" | "integer" | "number" | "string" | "array" | "object";
+  format?: "date-time" | "date" | "uuid" | "email" | "uri";
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  anyOf?: JsonSchema[];
+}
+
+/** Request and response body types merged over every captured sample of an endpoint. */
+export interface EndpointSchema {
+  typeName: string;
+  request?: JsonSchema;
+  response?: JsonSchema;
+  /** How many JSON bodies each schema was merged from. */
+  samples: { request: number; response: number };
+  typescript: string;
+}
+
+export type FilterProfileName = "minimal" | "api" | "none";
+
+/** Profile the backend applies when none is sent (`DEFAULT_FILTER_PROFILE` there). */
+export const DEFAULT_FILTER_PROFILE: FilterProfileName = "minimal";
+
+export interface FilterReport {
+  profile: FilterProfileName;
+  total: number;
+  removedByRule: Array<{ rule: string; count: number }>;
+}
+
+export type CaptureFormat =
+  | "har"
+  | "charles"
+  | "burp"
+  | "mitmproxy"
+  | "postman"
+  | "curl";
+
+export interface CaptureSource {
+  format: CaptureFormat;
+  /** Parts of the capture that could not be carried over, e.g. unresolved Postman variables. */
+  warnings: string[];
+  /** Each file of a session merged from several uploads, or from a zip of several HARs. */
+  files?: { name: string; format: CaptureFormat }[];
 }
 
 export interface ParseHarResponse {
   count: number;
   entries: ParseEntry[];
+  groups?: EndpointGroup[];
+  filter?: FilterReport;
+  source?: CaptureSource;
+}
+
+export type CodegenTarget =
+  | "curl"
+  | "typescript-fetch"
+  | "typescript-axios"
+  | "python-requests"
+  | "python-httpx"
+  | "go-net-http";
+
+export type CodeSnippets = Partial<Record<CodegenTarget, string>>;
+
+/**
+ * "input": chosen by the user for each call; "credential": tied to the
+ * session; "volatile": regenerated per call; "constant": the same every call.
+ */
+export type ParameterKind = "constant" | "input" | "credential" | "volatile";
+
+export interface TemplateParameter {
+  /** Absent for constants, which stay literal in the template. */
+  name?: string;
+  /** e.g. "query:q", "path[2]", "body:$.user.email", "header:X-Api-Key". */
+  location: string;
+  kind: ParameterKind;
+  type: "string" | "number" | "boolean" | "email" | "date" | "id";
+  /** The value as it appears in the captured request. */
+  example: string;
+  generator?: "unix-seconds" | "unix-millis" | "iso-date" | "uuid" | "random-hex";
+  /** How a value is written into the request. */
+  encoding: "url" | "json-string" | "json-raw" | "raw";
+}
+
+/** A captured request with {{name}} placeholders for its variable parts. */
+export interface RequestTemplate {
+  method: string;
+  url: string;
+  headers: Array<[name: string, value: string]>;
+  body?: { mimeType?: string; text: string };
+  parameters: TemplateParameter[];
+  /** Bash variable assignments followed by a curl that uses them. */
+  curl: string;
+}
+
+export interface MatchCandidate {
+  index: number;
+  score: number;
+  confidence?: "high" | "medium" | "low";
+  explanationBullets?: string[];
+  curl: string;
+  snippets?: CodeSnippets;
+  template?: RequestTemplate;
+  schema?: EndpointSchema;
+}
+
+export interface RedactionAuditEntry {
+  placeholder: string;
+  kind: "bearer" | "jwt" | "cookie" | "secret" | "email" | "card" | "custom";
+  locations: string[];
+  occurrences: number;
+  /** Masked, e.g. "eyJh… (212 chars)"; the value itself is never returned. */
+  preview: string;
 }
 
 export interface MatchResult {
@@ -33,4 +224,47 @@ export interface MatchResult {
   matchedIndex?: number;
   confidence?: "high" | "medium" | "low";
   explanationBullets?: string[];
+  candidates?: MatchCandidate[];
+  /** Best match as code in each target language. */
+  snippets?: CodeSnippets;
+  /** Best match with its user inputs, credentials and volatile values as variables. */
+  template?: RequestTemplate;
+  /** JSON Schema and TypeScript types for the best match's endpoint. */
+  schema?: EndpointSchema;
+  /** "lexical" when the backend had no LLM configured and ranked by keyword overlap. */
+  matcher?: "llm" | "lexical";
+  /** What was replaced with placeholders before the entries were sent to the LLM. */
+  redactions?: RedactionAuditEntry[];
+}
+
+/** A value one workflow step takes from an earlier step's response. */
+export interface WorkflowVariable {
+  name: string;
+  /** Position in the step list of the step whose response provides it. */
+  fromStep: number;
+  /** "$.data.token", "header:Name" or "set-cookie:name" in that response. */
+  sourcePath: string;
+  example: string;
+}
+
+export interface WorkflowStep {
+  /** Index of the request in entries. */
+  index: number;
+  method: string;
+  url: string;
+  /** Absent for steps added because a later step needs their response. */
+  purpose?: string;
+  /** curl with ${VAR} references to values from earlier steps. */
+  curl: string;
+  uses: Array<{ variable: string; location: string }>;
+}
+
+export interface WorkflowResult {
+  mode: "workflow";
+  steps: WorkflowStep[];
+  variables: WorkflowVariable[];
+  scripts: { shell: string; typescript: string };
+  explanationBullets?: string[];
+  matcher?: "llm" | "lexical";
+  redactions?: RedactionAuditEntry[];
 }
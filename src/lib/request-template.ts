@@ -0,0 +1,134 @@
+import type {
+  ParseEntry,
+  RequestTemplate,
+  TemplateParameter,
+} from "./har-types";
+
+/** Filled-in value per parameter name, unencoded. */
+export type TemplateValues = Record<string, string>;
+
+function randomHex(length: number): string {
+  const bytes = new Uint8Array(Math.ceil(length / 2));
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0"))
+    .join("")
+    .slice(0, length);
+}
+
+/** A fresh value for a volatile parameter. */
+export function generateVolatile(p: TemplateParameter): string {
+  switch (p.generator) {
+    case "unix-seconds":
+      return String(Math.floor(Date.now() / 1000));
+    case "unix-millis":
+      return String(Date.now());
+    case "iso-date":
+      return new Date().toISOString();
+    case "uuid":
+      return crypto.randomUUID();
+    default:
+      return randomHex(Math.max(1, p.example.length));
+  }
+}
+
+function decodeExample(p: TemplateParameter): string {
+  if (p.encoding !== "url") return p.example;
+  try {
+    return decodeURIComponent(p.example.replace(/\+/g, " "));
+  } catch {
+    return p.example;
+  }
+}
+
+/** Starting values: the captured ones for inputs and credentials, fresh ones for volatile parameters. */
+export function initialTemplateValues(template: RequestTemplate): TemplateValues {
+  const values: TemplateValues = {};
+  for (const p of template.parameters) {
+    if (!p.name) continue;
+    values[p.name] = p.kind === "volatile" ? generateVolatile(p) : decodeExample(p);
+  }
+  return values;
+}
+
+/** The same values with every volatile parameter regenerated. */
+export function refreshVolatile(
+  template: RequestTemplate,
+  values: TemplateValues
+): TemplateValues {
+  const next = { ...values };
+  for (const p of template.parameters) {
+    if (p.name && p.kind === "volatile") next[p.name] = generateVolatile(p);
+  }
+  return next;
+}
+
+function encodeValue(p: TemplateParameter, value: string): string {
+  switch (p.encoding) {
+    case "url":
+      return encodeURIComponent(value);
+    case "json-string":
+      return JSON.stringify(value).slice(1, -1);
+    default:
+      return value;
+  }
+}
+
+function fill(
+  text: string,
+  template: RequestTemplate,
+  values: TemplateValues
+): string {
+  return text.replace(/\{\{([a-z0-9_]+)\}\}/g, (marker, name: string) => {
+    const p = template.parameters.find((x) => x.name === name);
+    return p ? encodeValue(p, values[name] ?? "") : marker;
+  });
+}
+
+/**
+ * The template filled in as an entry executeRequest can replay. Cookies are
+ * taken from the captured entry's resolved cookie list.
+ */
+export function fillTemplateEntry(
+  template: RequestTemplate,
+  values: TemplateValues,
+  entry: ParseEntry
+): ParseEntry {
+  return {
+    ...entry,
+    method: template.method,
+    url: fill(template.url, template, values),
+    headers: template.headers
+      .filter(([name]) => !entry.cookies || name.toLowerCase() !== "cookie")
+      .map(([name, value]) => ({ name, value: fill(value, template, values) })),
+    postData: template.body
+      ? {
+          mimeType: template.body.mimeType,
+          text: fill(template.body.text, template, values),
+        }
+      : undefined,
+  };
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** curl for the filled-in template. */
+export function fillTemplateCurl(
+  template: RequestTemplate,
+  values: TemplateValues
+): string {
+  const args = [
+    "curl",
+    "-X",
+    template.method,
+    shellQuote(fill(template.url, template, values)),
+  ];
+  for (const [name, value] of template.headers) {
+    args.push("-H", shellQuote(`${name}: ${fill(value, template, values)}`));
+  }
+  if (template.body) {
+    args.push("--data-raw", shellQuote(fill(template.body.text, template, values)));
+  }
+  return args.join(" ");
+}